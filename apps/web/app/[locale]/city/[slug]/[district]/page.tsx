@@ -0,0 +1,124 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { setRequestLocale, getTranslations } from "next-intl/server";
+import { Link } from "@/lib/i18n/routing";
+import { DistrictExplorer } from "@/components/DistrictExplorer";
+import { scoreToColor } from "@/components/score/CategoryScore";
+import { getCity } from "@/lib/cities";
+import { listDistricts, rankDistricts, toFeatureCollection } from "@/lib/districts";
+import { HEATMAP_OVERALL_LAYER } from "@/lib/constants";
+
+// Rendered on first request, then cached like city pages
+export const revalidate = 86400;
+
+interface DistrictPageProps {
+  params: Promise<{ locale: string; slug: string; district: string }>;
+}
+
+export async function generateStaticParams() {
+  return [];
+}
+
+async function loadDistrict(slug: string, districtSlug: string) {
+  const city = await getCity(slug);
+  if (!city) return null;
+
+  const districts = await listDistricts(city.id);
+  const ranked = rankDistricts(districts, HEATMAP_OVERALL_LAYER);
+  const district = ranked.find((d) => d.slug === districtSlug);
+  if (!district) return null;
+
+  return { city, districts, district, scoredCount: ranked.filter((d) => d.rank !== null).length };
+}
+
+export async function generateMetadata({
+  params,
+}: DistrictPageProps): Promise<Metadata> {
+  const { locale, slug, district: districtSlug } = await params;
+  const data = await loadDistrict(slug, districtSlug);
+
+  if (!data) {
+    return {};
+  }
+
+  const { city, district, scoredCount } = data;
+  const t = await getTranslations({ locale, namespace: "district" });
+
+  const title = `${t("title", { district: district.name, city: city.name })} | NearbyIndex`;
+  const baseDescription = t("description", { district: district.name, city: city.name });
+  const description =
+    district.rank !== null
+      ? `${baseDescription}. ${t("rank", { rank: district.rank, total: scoredCount })}, score ${district.score}/100.`
+      : baseDescription;
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "website",
+    },
+    alternates: {
+      languages: {
+        en: `/en/city/${slug}/${districtSlug}`,
+        de: `/de/city/${slug}/${districtSlug}`,
+        es: `/es/city/${slug}/${districtSlug}`,
+        fr: `/fr/city/${slug}/${districtSlug}`,
+      },
+    },
+  };
+}
+
+export default async function DistrictPage({ params }: DistrictPageProps) {
+  const { locale, slug, district: districtSlug } = await params;
+  setRequestLocale(locale);
+
+  const data = await loadDistrict(slug, districtSlug);
+
+  if (!data) {
+    notFound();
+  }
+
+  const { city, districts, district, scoredCount } = data;
+  const t = await getTranslations();
+
+  return (
+    <main className="h-screen w-screen flex flex-col">
+      {/* District name and overall rank */}
+      <div className="bg-background border-b">
+        <div className="max-w-5xl mx-auto px-4 py-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <Link href={`/city/${city.slug}`} className="text-xs text-muted-foreground hover:underline">
+              {t("district.backToCity", { city: city.name })}
+            </Link>
+            <h1 className="text-2xl font-bold">{district.name}</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              {t("district.description", { district: district.name, city: city.name })}
+            </p>
+          </div>
+          {district.score !== null && district.rank !== null && (
+            <div className="text-right">
+              <p className="text-xs text-muted-foreground uppercase tracking-wide">
+                {t("city.overallScore")}
+              </p>
+              <p className="text-3xl font-bold" style={{ color: scoreToColor(district.score) }}>
+                {district.score}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {t("district.rank", { rank: district.rank, total: scoredCount })}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <DistrictExplorer
+        citySlug={city.slug}
+        districts={districts.map(({ slug, name, scores }) => ({ slug, name, scores }))}
+        collection={toFeatureCollection(districts)}
+        currentSlug={district.slug}
+      />
+    </main>
+  );
+}
@@ -1,12 +1,16 @@
 import { Metadata } from "next";
 import { notFound } from "next/navigation";
 import { setRequestLocale, getTranslations } from "next-intl/server";
+import { Link } from "@/lib/i18n/routing";
 import { MapContainer } from "@/components/map/MapContainer";
 import { CityStats } from "@/components/CityStats";
-import { getCityStats, CITIES } from "@/lib/city-scores";
+import { getCityStats } from "@/lib/city-scores";
+import { getCity, listCities } from "@/lib/cities";
+import { listDistricts, rankDistricts } from "@/lib/districts";
+import { HEATMAP_OVERALL_LAYER } from "@/lib/constants";
 
-// Use cities from city-scores module
-const cities = CITIES;
+// Cities imported after the build are rendered on first request
+export const revalidate = 86400;
 
 interface CityPageProps {
   params: Promise<{ locale: string; slug: string }>;
@@ -16,9 +20,11 @@ export async function generateStaticParams() {
   const locales = ["en", "de", "es", "fr"];
   const params: { locale: string; slug: string }[] = [];
 
+  const cities = await listCities();
+
   for (const locale of locales) {
-    for (const slug of Object.keys(cities)) {
-      params.push({ locale, slug });
+    for (const city of cities) {
+      params.push({ locale, slug: city.slug });
     }
   }
 
@@ -29,8 +35,8 @@ export async function generateMetadata({
   params,
 }: CityPageProps): Promise<Metadata> {
   const { locale, slug } = await params;
-  const city = cities[slug];
-  const stats = getCityStats(slug);
+  const city = await getCity(slug);
+  const stats = await getCityStats(slug);
 
   if (!city) {
     return {};
@@ -39,10 +45,10 @@ export async function generateMetadata({
   const t = await getTranslations({ locale, namespace: "city" });
 
   const title = `${t("exploreTitle", { city: city.name })} | NearbyIndex`;
-  // Include score in description for SEO
+  // Include score in description for SEO (only once the city_stats job has run)
   const baseDescription = t("description", { city: city.name });
   const description = stats
-    ? `${baseDescription}. Overall score: ${stats.overallScore}/100.`
+    ? `${baseDescription}. Overall score: ${stats.overallScore}/100 (median of ${stats.sampleCount} locations).`
     : baseDescription;
 
   return {
@@ -68,18 +74,41 @@ export default async function CityPage({ params }: CityPageProps) {
   const { locale, slug } = await params;
   setRequestLocale(locale);
 
-  const city = cities[slug];
-  const stats = getCityStats(slug);
+  const city = await getCity(slug);
+  const stats = await getCityStats(slug);
 
   if (!city) {
     notFound();
   }
 
+  const districts = rankDistricts(await listDistricts(city.id), HEATMAP_OVERALL_LAYER);
+  const t = await getTranslations("district");
+
   return (
     <main className="h-screen w-screen flex flex-col">
       {/* City stats section - only show if stats available */}
       {stats && <CityStats stats={stats} />}
 
+      {/* District links, best first - only once districts are imported */}
+      {districts.length > 0 && (
+        <nav className="bg-background border-b">
+          <div className="max-w-5xl mx-auto px-4 py-2 flex items-center gap-3 overflow-x-auto text-sm">
+            <span className="text-xs text-muted-foreground uppercase tracking-wide shrink-0">
+              {t("districts")}
+            </span>
+            {districts.map((district) => (
+              <Link
+                key={district.slug}
+                href={`/city/${city.slug}/${district.slug}`}
+                className="shrink-0 hover:underline"
+              >
+                {district.name}
+              </Link>
+            ))}
+          </div>
+        </nav>
+      )}
+
       {/* Map section - takes remaining height */}
       <div className="flex-1 relative min-h-0">
         <MapContainer />
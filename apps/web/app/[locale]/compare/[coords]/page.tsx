@@ -0,0 +1,74 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { setRequestLocale } from "next-intl/server";
+import { MapContainer } from "@/components/map/MapContainer";
+import { parseCompareFromPath } from "@/lib/url";
+import { parseProfile, encodeProfile } from "@/lib/score/profiles";
+import { parseIsochrone, formatIsochrone } from "@/lib/distance/isochrone";
+import { parseCommute, encodeCommute } from "@/lib/score/commute";
+
+interface ComparePageProps {
+  params: Promise<{ locale: string; coords: string }>;
+  searchParams: Promise<{ profile?: string; isochrone?: string; commute?: string }>;
+}
+
+export async function generateMetadata({
+  params,
+}: ComparePageProps): Promise<Metadata> {
+  const { coords } = await params;
+  const locations = parseCompareFromPath(coords);
+
+  if (!locations) {
+    return {};
+  }
+
+  const list = locations.map((l) => `${l.lat.toFixed(4)}, ${l.lng.toFixed(4)}`).join(" vs ");
+
+  return {
+    title: `Compare ${locations.length} locations | NearbyIndex`,
+    description: `Infrastructure scores side by side: ${list}`,
+    robots: {
+      index: false,
+      follow: false,
+    },
+  };
+}
+
+export default async function ComparePage({ params, searchParams }: ComparePageProps) {
+  const { locale, coords } = await params;
+  const {
+    profile: profileParam,
+    isochrone: isochroneParam,
+    commute: commuteParam,
+  } = await searchParams;
+  setRequestLocale(locale);
+
+  const locations = parseCompareFromPath(coords);
+
+  if (!locations) {
+    notFound();
+  }
+
+  // Unknown or malformed settings fall back to defaults
+  const profile = parseProfile(profileParam);
+  const isochrone = parseIsochrone(isochroneParam);
+  const commute = parseCommute(commuteParam);
+
+  return (
+    <main className="h-screen w-screen relative">
+      <MapContainer />
+      {/* Pin these locations in compare mode on load */}
+      <script
+        dangerouslySetInnerHTML={{
+          __html: `window.__INITIAL_COMPARE__ = ${JSON.stringify(locations)};${
+            profile ? ` window.__INITIAL_PROFILE__ = ${JSON.stringify(encodeProfile(profile))};` : ""
+          }${
+            isochrone ? ` window.__INITIAL_ISOCHRONE__ = ${JSON.stringify(formatIsochrone(isochrone))};` : ""
+          }${
+            commute ? ` window.__INITIAL_COMMUTE__ = ${JSON.stringify(encodeCommute(commute))};` : ""
+          }`,
+        }}
+      />
+    </main>
+  );
+}
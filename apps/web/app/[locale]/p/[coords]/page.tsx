@@ -2,9 +2,13 @@ import { Metadata } from "next";
 import { notFound } from "next/navigation";
 import { setRequestLocale } from "next-intl/server";
 import { MapContainer } from "@/components/map/MapContainer";
+import { parseProfile, encodeProfile } from "@/lib/score/profiles";
+import { parseIsochrone, formatIsochrone } from "@/lib/distance/isochrone";
+import { parseCommute, encodeCommute } from "@/lib/score/commute";
 
 interface PointPageProps {
   params: Promise<{ locale: string; coords: string }>;
+  searchParams: Promise<{ profile?: string; isochrone?: string; commute?: string }>;
 }
 
 function parseCoords(coords: string): { lat: number; lng: number } | null {
@@ -43,8 +47,13 @@ export async function generateMetadata({
   };
 }
 
-export default async function PointPage({ params }: PointPageProps) {
+export default async function PointPage({ params, searchParams }: PointPageProps) {
   const { locale, coords } = await params;
+  const {
+    profile: profileParam,
+    isochrone: isochroneParam,
+    commute: commuteParam,
+  } = await searchParams;
   setRequestLocale(locale);
 
   const parsed = parseCoords(coords);
@@ -53,13 +62,24 @@ export default async function PointPage({ params }: PointPageProps) {
     notFound();
   }
 
+  // Unknown or malformed settings fall back to defaults
+  const profile = parseProfile(profileParam);
+  const isochrone = parseIsochrone(isochroneParam);
+  const commute = parseCommute(commuteParam);
+
   return (
     <main className="h-screen w-screen relative">
       <MapContainer />
       {/* Pre-select this location on load */}
       <script
         dangerouslySetInnerHTML={{
-          __html: `window.__INITIAL_LOCATION__ = { lat: ${parsed.lat}, lng: ${parsed.lng} };`,
+          __html: `window.__INITIAL_LOCATION__ = { lat: ${parsed.lat}, lng: ${parsed.lng} };${
+            profile ? ` window.__INITIAL_PROFILE__ = ${JSON.stringify(encodeProfile(profile))};` : ""
+          }${
+            isochrone ? ` window.__INITIAL_ISOCHRONE__ = ${JSON.stringify(formatIsochrone(isochrone))};` : ""
+          }${
+            commute ? ` window.__INITIAL_COMMUTE__ = ${JSON.stringify(encodeCommute(commute))};` : ""
+          }`,
         }}
       />
     </main>
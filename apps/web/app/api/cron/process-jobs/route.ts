@@ -7,6 +7,7 @@ import {
   markJobRunning,
 } from "@/lib/jobs/scheduler";
 import { processHeatmapChunk } from "@/lib/jobs/heatmap-processor";
+import { processCityStatsChunk } from "@/lib/jobs/city-stats-processor";
 import { JOB_TYPES } from "@/lib/jobs/types";
 
 const CRON_SECRET = process.env.CRON_SECRET;
@@ -50,8 +51,11 @@ export async function GET(request: NextRequest) {
     }
 
     // Process based on job type
-    if (job.type === JOB_TYPES.HEATMAP_COMPUTE) {
-      const result = await processHeatmapChunk(job);
+    if (job.type === JOB_TYPES.HEATMAP_COMPUTE || job.type === JOB_TYPES.CITY_STATS) {
+      const result =
+        job.type === JOB_TYPES.CITY_STATS
+          ? await processCityStatsChunk(job)
+          : await processHeatmapChunk(job);
 
       return NextResponse.json({
         jobId: job.id,
@@ -66,6 +66,7 @@ export async function GET(request: NextRequest) {
         displayName: result.displayName,
         lat: result.lat,
         lng: result.lng,
+        address: result.address ?? null,
       },
       {
         headers: {
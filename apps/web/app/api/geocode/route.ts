@@ -45,6 +45,7 @@ export async function GET(request: NextRequest) {
       lon: r.lng.toString(),
       type: r.type,
       importance: r.importance,
+      address: r.address ?? null,
     }));
 
     return NextResponse.json(response, {
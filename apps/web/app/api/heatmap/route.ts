@@ -1,14 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db/client";
 import { heatCells } from "@/lib/db/schema";
-import { and, gte, lte, eq, gt } from "drizzle-orm";
+import { and, gte, lte, eq, gt, sql } from "drizzle-orm";
 import { checkRateLimit, getClientIP } from "@/lib/rate-limit";
-import { findCityForPoint, getCityBounds } from "@/lib/cities/bounds";
+import { findCityForPoint, cityBounds } from "@/lib/cities";
 import { scheduleHeatmapJob, scheduleRegionalHeatmapJob, getJobById } from "@/lib/jobs/scheduler";
-import { HEATMAP_GRID_STEP } from "@/lib/constants";
-
-// Minimum score to return (cells below this are transparent on frontend anyway)
-const MIN_VISIBLE_SCORE = 30;
+import { isHeatmapLayer } from "@/lib/jobs/types";
+import { pickGridStep } from "@/lib/heatmap/pyramid";
+import { HEATMAP_MIN_VISIBLE_SCORE, HEATMAP_OVERALL_LAYER } from "@/lib/constants";
 
 interface HeatCell {
   lat: number;
@@ -19,6 +18,7 @@ interface HeatCell {
 interface HeatmapResponse {
   cells: HeatCell[];
   gridStep: number;
+  layer: string;
   jobStatus?: {
     jobId: number;
     status: string;
@@ -53,6 +53,11 @@ export async function GET(request: NextRequest) {
   const maxLat = parseFloat(searchParams.get("maxLat") || "0");
   const minLng = parseFloat(searchParams.get("minLng") || "0");
   const maxLng = parseFloat(searchParams.get("maxLng") || "0");
+  const layer = searchParams.get("layer") || HEATMAP_OVERALL_LAYER;
+  // cells=0: coverage check and job scheduling only (the map draws cells from vector tiles)
+  const includeCells = searchParams.get("cells") !== "0";
+  const zoomParam = searchParams.get("zoom");
+  const zoom = zoomParam !== null ? parseFloat(zoomParam) : undefined;
 
   // Validate bounds
   if (isNaN(minLat) || isNaN(maxLat) || isNaN(minLng) || isNaN(maxLng)) {
@@ -62,49 +67,85 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  // Find center of requested bounds to detect city
+  if (zoom !== undefined && (isNaN(zoom) || zoom < 0 || zoom > 24)) {
+    return NextResponse.json(
+      { error: "Invalid zoom" },
+      { status: 400 }
+    );
+  }
+
+  // "overall" or a category ID
+  if (!isHeatmapLayer(layer)) {
+    return NextResponse.json(
+      { error: "Invalid layer" },
+      { status: 400 }
+    );
+  }
+
+  // Center of requested bounds, used to detect the city
   const centerLat = (minLat + maxLat) / 2;
   const centerLng = (minLng + maxLng) / 2;
-  const citySlug = findCityForPoint(centerLat, centerLng);
 
-  // Use standard grid step for all heatmap operations
-  const gridStep = HEATMAP_GRID_STEP;
+  // Pyramid level: coarser grids for larger areas (0.0025° → 0.01° → 0.04°)
+  const gridStep = pickGridStep({ minLat, maxLat, minLng, maxLng }, zoom);
 
   try {
     let cells: HeatCell[] = [];
     let jobStatus: HeatmapResponse["jobStatus"] | undefined;
+    let extent: { minLat: number; maxLat: number; minLng: number; maxLng: number } | null = null;
 
     // Try to fetch from database if configured
     if (db) {
-      const dbCells = await db
-        .select({
-          lat: heatCells.lat,
-          lng: heatCells.lng,
-          score: heatCells.score,
-        })
-        .from(heatCells)
-        .where(
-          and(
-            gte(heatCells.lat, minLat),
-            lte(heatCells.lat, maxLat),
-            gte(heatCells.lng, minLng),
-            lte(heatCells.lng, maxLng),
-            eq(heatCells.gridStep, gridStep),
-            gte(heatCells.score, MIN_VISIBLE_SCORE) // Skip invisible cells
-          )
-        );
-
-      cells = dbCells;
+      const visibleCells = and(
+        gte(heatCells.lat, minLat),
+        lte(heatCells.lat, maxLat),
+        gte(heatCells.lng, minLng),
+        lte(heatCells.lng, maxLng),
+        eq(heatCells.gridStep, gridStep),
+        eq(heatCells.layer, layer),
+        gte(heatCells.score, HEATMAP_MIN_VISIBLE_SCORE) // Skip invisible cells
+      );
+
+      if (includeCells) {
+        cells = await db
+          .select({
+            lat: heatCells.lat,
+            lng: heatCells.lng,
+            score: heatCells.score,
+          })
+          .from(heatCells)
+          .where(visibleCells);
+
+        // Loop instead of Math.min(...) - a viewport can hold 100k cells
+        for (const cell of cells) {
+          extent ??= { minLat: cell.lat, maxLat: cell.lat, minLng: cell.lng, maxLng: cell.lng };
+          extent.minLat = Math.min(extent.minLat, cell.lat);
+          extent.maxLat = Math.max(extent.maxLat, cell.lat);
+          extent.minLng = Math.min(extent.minLng, cell.lng);
+          extent.maxLng = Math.max(extent.maxLng, cell.lng);
+        }
+      } else {
+        const [row] = await db
+          .select({
+            minLat: sql<number | null>`min(${heatCells.lat})`,
+            maxLat: sql<number | null>`max(${heatCells.lat})`,
+            minLng: sql<number | null>`min(${heatCells.lng})`,
+            maxLng: sql<number | null>`max(${heatCells.lng})`,
+          })
+          .from(heatCells)
+          .where(visibleCells);
+
+        if (row && row.minLat !== null && row.maxLat !== null && row.minLng !== null && row.maxLng !== null) {
+          extent = { minLat: row.minLat, maxLat: row.maxLat, minLng: row.minLng, maxLng: row.maxLng };
+        }
+      }
     }
 
     // Check if cells span the full viewport (not clustered in one area)
-    // Calculate the bounding box of existing cells and compare to viewport
+    // Compare the bounding box of existing cells to the viewport
     let hasFullCoverage = false;
-    if (cells.length > 0) {
-      const cellMinLat = Math.min(...cells.map((c) => c.lat));
-      const cellMaxLat = Math.max(...cells.map((c) => c.lat));
-      const cellMinLng = Math.min(...cells.map((c) => c.lng));
-      const cellMaxLng = Math.max(...cells.map((c) => c.lng));
+    if (extent) {
+      const { minLat: cellMinLat, maxLat: cellMaxLat, minLng: cellMinLng, maxLng: cellMaxLng } = extent;
 
       const viewportLatRange = maxLat - minLat;
       const viewportLngRange = maxLng - minLng;
@@ -120,16 +161,15 @@ export async function GET(request: NextRequest) {
     // If viewport is not fully covered, try to auto-schedule computation
     if (!hasFullCoverage && db) {
       let scheduleResult;
+      const city = await findCityForPoint(centerLat, centerLng);
+      const bounds = city ? cityBounds(city) : null;
 
-      if (citySlug) {
+      if (city && bounds) {
         // Known city - use full city bounds
-        const cityBounds = getCityBounds(citySlug);
-        if (cityBounds) {
-          scheduleResult = await scheduleHeatmapJob(citySlug, cityBounds);
-        }
+        scheduleResult = await scheduleHeatmapJob(city.slug, bounds, layer);
       } else {
         // Unknown area - create regional job around center
-        scheduleResult = await scheduleRegionalHeatmapJob(centerLat, centerLng);
+        scheduleResult = await scheduleRegionalHeatmapJob(centerLat, centerLng, layer);
       }
 
       if (scheduleResult) {
@@ -145,6 +185,7 @@ export async function GET(request: NextRequest) {
     const response: HeatmapResponse = {
       cells,
       gridStep,
+      layer,
       ...(jobStatus && { jobStatus }),
     };
 
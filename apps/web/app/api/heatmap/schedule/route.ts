@@ -1,15 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { scheduleHeatmapJob } from "@/lib/jobs/scheduler";
-import { getCityBounds } from "@/lib/cities/bounds";
+import { isHeatmapLayer } from "@/lib/jobs/types";
+import { getCityBounds } from "@/lib/cities";
+import { HEATMAP_OVERALL_LAYER } from "@/lib/constants";
 
 interface ScheduleRequest {
   citySlug: string;
+  layer?: string;
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body = (await request.json()) as ScheduleRequest;
-    const { citySlug } = body;
+    const { citySlug, layer = HEATMAP_OVERALL_LAYER } = body;
 
     if (!citySlug || typeof citySlug !== "string") {
       return NextResponse.json(
@@ -18,7 +21,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const bounds = getCityBounds(citySlug);
+    if (typeof layer !== "string" || !isHeatmapLayer(layer)) {
+      return NextResponse.json(
+        { error: "Invalid layer" },
+        { status: 400 }
+      );
+    }
+
+    const bounds = await getCityBounds(citySlug);
     if (!bounds) {
       return NextResponse.json(
         { error: `Unknown city: ${citySlug}` },
@@ -26,7 +36,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await scheduleHeatmapJob(citySlug, bounds);
+    const result = await scheduleHeatmapJob(citySlug, bounds, layer);
 
     if (!result) {
       return NextResponse.json(
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isDbConfigured } from "@/lib/db/client";
+import { checkRateLimit, getClientIP } from "@/lib/rate-limit";
+import { isHeatmapLayer } from "@/lib/jobs/types";
+import { encodeCellTile } from "@/lib/heatmap/mvt";
+import { queryTileCells } from "@/lib/heatmap/tiles";
+import { HEATMAP_OVERALL_LAYER, HEATMAP_TILE_MIN_ZOOM } from "@/lib/constants";
+
+const MAX_ZOOM = 22;
+
+interface RouteParams {
+  params: Promise<{ z: string; x: string; y: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  // Check rate limit
+  const ip = getClientIP(request);
+  const rateLimit = await checkRateLimit(ip, "/api/heatmap/tiles");
+
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        error: "Rate limit exceeded",
+        retryAfter: Math.ceil((rateLimit.resetAt.getTime() - Date.now()) / 1000),
+      },
+      {
+        status: 429,
+        headers: {
+          "X-RateLimit-Remaining": "0",
+          "X-RateLimit-Reset": rateLimit.resetAt.toISOString(),
+          "Retry-After": String(Math.ceil((rateLimit.resetAt.getTime() - Date.now()) / 1000)),
+        },
+      }
+    );
+  }
+
+  // Path is /api/heatmap/tiles/{z}/{x}/{y}.mvt
+  const raw = await params;
+  const z = Number(raw.z);
+  const x = Number(raw.x);
+  const y = Number(raw.y.replace(/\.mvt$/, ""));
+
+  if (
+    !Number.isInteger(z) || !Number.isInteger(x) || !Number.isInteger(y) ||
+    z < 0 || z > MAX_ZOOM || x < 0 || y < 0 || x >= 2 ** z || y >= 2 ** z
+  ) {
+    return NextResponse.json({ error: "Invalid tile" }, { status: 400 });
+  }
+
+  const layer = request.nextUrl.searchParams.get("layer") || HEATMAP_OVERALL_LAYER;
+  if (!isHeatmapLayer(layer)) {
+    return NextResponse.json({ error: "Invalid layer" }, { status: 400 });
+  }
+
+  const headers = {
+    "Content-Type": "application/vnd.mapbox-vector-tile",
+    "X-RateLimit-Remaining": String(rateLimit.remaining),
+    "X-RateLimit-Reset": rateLimit.resetAt.toISOString(),
+  };
+
+  // Too zoomed out to aggregate cheaply - the map shows no heatmap there
+  if (z < HEATMAP_TILE_MIN_ZOOM || !isDbConfigured()) {
+    return new NextResponse(null, { status: 204, headers });
+  }
+
+  try {
+    const cells = await queryTileCells({ z, x, y }, layer);
+    if (cells.length === 0) {
+      // Not cached: cells may appear once a heatmap job covers this area
+      return new NextResponse(null, { status: 204, headers: { ...headers, "Cache-Control": "no-cache" } });
+    }
+
+    const tile = encodeCellTile(cells, { z, x, y }, "heat");
+    return new NextResponse(Buffer.from(tile), {
+      headers: { ...headers, "Cache-Control": "public, max-age=300, s-maxage=300" },
+    });
+  } catch (error) {
+    console.error("Heatmap tile error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch heatmap tile" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createBatchCalculator } from "@/lib/jobs/batch-score-calculator";
+import { categories } from "@/lib/score/categories";
+import { snapToCacheGrid } from "@/lib/score/cache";
+import { checkRateLimit, getClientIP } from "@/lib/rate-limit";
+import { isDbConfigured } from "@/lib/db/client";
+import { SCORE_BATCH_MAX_POINTS, SCORE_BATCH_REGION_SIZE } from "@/lib/constants";
+import type { ScoreResult } from "@/lib/score/types";
+
+interface Point {
+  lat: number;
+  lng: number;
+}
+
+interface BatchRequest {
+  points: Point[];
+}
+
+function isValidPoint(point: unknown): point is Point {
+  if (!point || typeof point !== "object") return false;
+  const { lat, lng } = point as Record<string, unknown>;
+  return (
+    typeof lat === "number" &&
+    typeof lng === "number" &&
+    Number.isFinite(lat) &&
+    Number.isFinite(lng) &&
+    lat >= -90 &&
+    lat <= 90 &&
+    lng >= -180 &&
+    lng <= 180
+  );
+}
+
+/**
+ * Group points into fixed-size regions so each region loads its POIs once
+ */
+function groupByRegion(points: Point[]): Map<string, number[]> {
+  const regions = new Map<string, number[]>();
+  points.forEach((point, index) => {
+    const key = `${Math.floor(point.lat / SCORE_BATCH_REGION_SIZE)}:${Math.floor(point.lng / SCORE_BATCH_REGION_SIZE)}`;
+    if (!regions.has(key)) regions.set(key, []);
+    regions.get(key)!.push(index);
+  });
+  return regions;
+}
+
+export async function POST(request: NextRequest) {
+  let body: BatchRequest;
+  try {
+    body = (await request.json()) as BatchRequest;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const points = body?.points;
+
+  if (!Array.isArray(points) || points.length === 0) {
+    return NextResponse.json(
+      { error: "points must be a non-empty array of { lat, lng }" },
+      { status: 400 }
+    );
+  }
+
+  if (points.length > SCORE_BATCH_MAX_POINTS) {
+    return NextResponse.json(
+      { error: `Too many points (max ${SCORE_BATCH_MAX_POINTS})` },
+      { status: 400 }
+    );
+  }
+
+  const invalidIndex = points.findIndex((p) => !isValidPoint(p));
+  if (invalidIndex !== -1) {
+    return NextResponse.json(
+      { error: `Invalid coordinates at index ${invalidIndex}` },
+      { status: 400 }
+    );
+  }
+
+  // Batch scoring reads POIs straight from the local database (checked before
+  // charging, so a misconfigured server doesn't use up the caller's budget)
+  if (!isDbConfigured()) {
+    return NextResponse.json(
+      { error: "Batch scoring requires a database" },
+      { status: 503 }
+    );
+  }
+
+  // Check rate limit - every point counts as one request. Charged up front:
+  // a batch that fails while scoring still counts (see spec/API.md)
+  const ip = getClientIP(request);
+  const rateLimit = await checkRateLimit(ip, "/api/score/batch", undefined, points.length);
+
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        error: "Rate limit exceeded",
+        retryAfter: Math.ceil((rateLimit.resetAt.getTime() - Date.now()) / 1000),
+      },
+      {
+        status: 429,
+        headers: {
+          "X-RateLimit-Remaining": "0",
+          "X-RateLimit-Reset": rateLimit.resetAt.toISOString(),
+          "Retry-After": String(Math.ceil((rateLimit.resetAt.getTime() - Date.now()) / 1000)),
+        },
+      }
+    );
+  }
+
+  // Snap to the same grid as /api/score so results match single-point requests
+  const snapped = points.map((p) => ({
+    lat: snapToCacheGrid(p.lat),
+    lng: snapToCacheGrid(p.lng),
+  }));
+
+  const categoryIds = categories.map((c) => c.id);
+  const results: ScoreResult[] = new Array(snapped.length);
+
+  try {
+    for (const indices of groupByRegion(snapped).values()) {
+      const regionPoints = indices.map((i) => snapped[i]);
+      const bounds = {
+        minLat: Math.min(...regionPoints.map((p) => p.lat)),
+        maxLat: Math.max(...regionPoints.map((p) => p.lat)),
+        minLng: Math.min(...regionPoints.map((p) => p.lng)),
+        maxLng: Math.max(...regionPoints.map((p) => p.lng)),
+      };
+
+      const calculator = await createBatchCalculator(bounds, categoryIds);
+
+      for (const i of indices) {
+        results[i] = calculator.calculateScoreResult(snapped[i].lat, snapped[i].lng);
+      }
+    }
+
+    return NextResponse.json(
+      { results },
+      {
+        headers: {
+          "X-RateLimit-Remaining": String(rateLimit.remaining),
+          "X-RateLimit-Reset": rateLimit.resetAt.toISOString(),
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Batch score calculation error:", error);
+    return NextResponse.json(
+      { error: "Batch score calculation failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { calculateScore } from "@/lib/score/engine";
+import { getCachedScore, setCachedScore, snapToCacheGrid } from "@/lib/score/cache";
+import { parseProfile } from "@/lib/score/profiles";
+import { parseIsochrone } from "@/lib/distance/isochrone";
+import { parseCommute } from "@/lib/score/commute";
+import { parseScoreTime } from "@/lib/score/opening-hours";
 import { checkRateLimit, getClientIP } from "@/lib/rate-limit";
 import { ensureHeatmapCoverage } from "@/lib/jobs/scheduler";
+import type { ScoreResult } from "@/lib/score/types";
 
 export async function GET(request: NextRequest) {
   // Check rate limit
@@ -28,6 +34,12 @@ export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const lat = searchParams.get("lat");
   const lng = searchParams.get("lng");
+  const profileParam = searchParams.get("profile");
+  const isochroneParam = searchParams.get("isochrone");
+  const commuteParam = searchParams.get("commute");
+  const atParam = searchParams.get("at");
+  const explain = searchParams.get("explain") === "1";
+  const suggest = searchParams.get("suggest") === "1";
 
   if (!lat || !lng) {
     return NextResponse.json(
@@ -54,15 +66,74 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  const profile = parseProfile(profileParam);
+  if (profileParam && !profile) {
+    return NextResponse.json(
+      { error: "Invalid profile" },
+      { status: 400 }
+    );
+  }
+
+  const isochrone = parseIsochrone(isochroneParam);
+  if (isochroneParam && !isochrone) {
+    return NextResponse.json(
+      { error: "Invalid isochrone (expected walk:N or bike:N, N = 1-30 minutes)" },
+      { status: 400 }
+    );
+  }
+
+  const commute = parseCommute(commuteParam);
+  if (commuteParam && !commute) {
+    return NextResponse.json(
+      { error: "Invalid commute (expected [blend~]kind:lat,lng~..., kind = work, school, gym or other, up to 3 anchors)" },
+      { status: 400 }
+    );
+  }
+
+  const at = parseScoreTime(atParam);
+  if (atParam && !at) {
+    return NextResponse.json(
+      { error: "Invalid at (expected sunday, late-night or <day>-HH:MM, e.g. sa-14:30)" },
+      { status: 400 }
+    );
+  }
+
+  // Profile, isochrone, commute and time scores are computed on demand, only defaults are cached
+  const cacheable = !profile && !isochrone && !commute && !at;
+
+  // Snap to the cache grid so nearby requests share one computed score
+  const snappedLat = snapToCacheGrid(latNum);
+  const snappedLng = snapToCacheGrid(lngNum);
+
   try {
-    const score = await calculateScore(latNum, lngNum);
+    const cachedRow = cacheable ? await getCachedScore(snappedLat, snappedLng) : null;
+    // Rows cached before breakdowns and suggestions were stored can't answer requests for them
+    const cached =
+      cachedRow && hasDetails(cachedRow, { explain, suggest }) ? cachedRow : null;
+    // Cached scores always carry both, so later explain/suggest requests can hit
+    const score =
+      cached ??
+      (await calculateScore(snappedLat, snappedLng, {
+        profile,
+        isochrone,
+        commute,
+        at,
+        explain: explain || cacheable,
+        suggest: suggest || cacheable,
+      }));
+
+    if (!cached && cacheable) {
+      // Store for subsequent requests (non-blocking)
+      setCachedScore(score).catch(() => {});
+    }
 
     // Auto-schedule heatmap computation if this area isn't covered (non-blocking)
     ensureHeatmapCoverage(latNum, lngNum).catch(() => {});
 
-    return NextResponse.json(score, {
+    return NextResponse.json(withDetails(score, { explain, suggest }), {
       headers: {
         "Cache-Control": "public, max-age=3600, s-maxage=3600",
+        "X-Score-Cache": !cacheable ? "BYPASS" : cached ? "HIT" : "MISS",
         "X-RateLimit-Remaining": String(rateLimit.remaining),
         "X-RateLimit-Reset": rateLimit.resetAt.toISOString(),
       },
@@ -75,3 +146,27 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+interface DetailOptions {
+  explain: boolean;
+  suggest: boolean;
+}
+
+function hasDetails(score: ScoreResult, { explain, suggest }: DetailOptions): boolean {
+  return score.categories.every(
+    (c) => (!explain || c.breakdown) && (!suggest || c.suggestions)
+  );
+}
+
+/** Keep only the requested per-category details */
+function withDetails(score: ScoreResult, { explain, suggest }: DetailOptions): ScoreResult {
+  return {
+    ...score,
+    // undefined fields are dropped from the JSON response
+    categories: score.categories.map((category) => ({
+      ...category,
+      ...(!explain && { breakdown: undefined }),
+      ...(!suggest && { suggestions: undefined }),
+    })),
+  };
+}
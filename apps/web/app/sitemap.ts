@@ -1,25 +1,17 @@
 import { MetadataRoute } from "next";
+import { listCities } from "@/lib/cities";
+import { listDistrictPages } from "@/lib/districts";
 
 const BASE_URL = process.env.NEXT_PUBLIC_SITE_URL || "https://nearbyindex.com";
 
-// Cities available for SSG
-const cities = [
-  "berlin",
-  "munich",
-  "hamburg",
-  "frankfurt",
-  "cologne",
-  "vienna",
-  "zurich",
-  "amsterdam",
-  "paris",
-  "london",
-];
+// Picks up newly imported cities without a redeploy
+export const revalidate = 86400;
 
 const locales = ["en", "de", "es", "fr"];
 
-export default function sitemap(): MetadataRoute.Sitemap {
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const routes: MetadataRoute.Sitemap = [];
+  const cities = (await listCities()).map((c) => c.slug);
 
   // Home pages for each locale
   for (const locale of locales) {
@@ -53,5 +45,23 @@ export default function sitemap(): MetadataRoute.Sitemap {
     }
   }
 
+  // District pages for each locale
+  const districts = await listDistrictPages();
+  for (const locale of locales) {
+    for (const { citySlug, slug } of districts) {
+      routes.push({
+        url: `${BASE_URL}/${locale}/city/${citySlug}/${slug}`,
+        lastModified: new Date(),
+        changeFrequency: "monthly",
+        priority: 0.6,
+        alternates: {
+          languages: Object.fromEntries(
+            locales.map((l) => [l, `${BASE_URL}/${l}/city/${citySlug}/${slug}`])
+          ),
+        },
+      });
+    }
+  }
+
   return routes;
 }
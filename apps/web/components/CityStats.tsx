@@ -49,6 +49,13 @@ export function CityStats({ stats }: CityStatsProps) {
             <p className="text-sm text-muted-foreground mt-1">
               {t("city.description", { city: stats.name })}
             </p>
+            <p className="text-xs text-muted-foreground mt-1">
+              {t("city.sampleInfo", {
+                count: stats.sampleCount,
+                low: Math.round(stats.overall.p25),
+                high: Math.round(stats.overall.p75),
+              })}
+            </p>
           </div>
           <div className="flex items-center gap-3">
             <div className="text-right">
@@ -0,0 +1,98 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Link } from "@/lib/i18n/routing";
+import { MapContainer } from "@/components/map/MapContainer";
+import { scoreToColor } from "@/components/score/CategoryScore";
+import { rankDistricts } from "@/lib/districts/ranking";
+import type { DistrictSummary } from "@/lib/districts/types";
+import { categories } from "@/lib/score/categories";
+import { HEATMAP_OVERALL_LAYER } from "@/lib/constants";
+import { cn } from "@/lib/utils";
+
+interface DistrictExplorerProps {
+  citySlug: string;
+  districts: DistrictSummary[];
+  /** District polygons for the map (see toFeatureCollection) */
+  collection: GeoJSON.FeatureCollection;
+  /** District whose page this is */
+  currentSlug: string;
+}
+
+const LAYERS = [HEATMAP_OVERALL_LAYER, ...categories.map((c) => c.id)];
+
+/**
+ * District ranking for one heat layer next to the map colored by the same layer
+ */
+export function DistrictExplorer({ citySlug, districts, collection, currentSlug }: DistrictExplorerProps) {
+  const t = useTranslations();
+  const [layer, setLayer] = useState(HEATMAP_OVERALL_LAYER);
+
+  const ranked = useMemo(() => rankDistricts(districts, layer), [districts, layer]);
+  const overlay = useMemo(
+    () => ({ districts: collection, layer, highlight: currentSlug }),
+    [collection, layer, currentSlug]
+  );
+
+  const layerName = (id: string) =>
+    id === HEATMAP_OVERALL_LAYER
+      ? t("city.overallScore")
+      : t(`score.categories.${id}` as Parameters<typeof t>[0]);
+
+  return (
+    <div className="flex-1 flex flex-col md:flex-row min-h-0">
+      {/* Ranking */}
+      <aside className="md:w-80 max-h-64 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-r bg-background">
+        <div className="p-4">
+          <div className="flex items-center justify-between gap-2 mb-3">
+            <h2 className="text-sm font-semibold">{t("district.ranking")}</h2>
+            <select
+              value={layer}
+              onChange={(e) => setLayer(e.target.value)}
+              aria-label={t("district.rankedBy")}
+              className="rounded-md border bg-background px-2 py-1 text-xs"
+            >
+              {LAYERS.map((id) => (
+                <option key={id} value={id}>
+                  {layerName(id)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <ol className="space-y-1">
+            {ranked.map((district) => (
+              <li key={district.slug}>
+                <Link
+                  href={`/city/${citySlug}/${district.slug}`}
+                  className={cn(
+                    "flex items-center gap-3 rounded-md px-2 py-1.5 text-sm hover:bg-muted",
+                    district.slug === currentSlug && "bg-muted font-medium"
+                  )}
+                >
+                  <span className="w-6 text-right text-xs text-muted-foreground">
+                    {district.rank ?? "–"}
+                  </span>
+                  <span className="flex-1 truncate">{district.name}</span>
+                  {district.score !== null ? (
+                    <span className="font-semibold" style={{ color: scoreToColor(district.score) }}>
+                      {district.score}
+                    </span>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">{t("district.notScored")}</span>
+                  )}
+                </Link>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </aside>
+
+      {/* Map colored by the ranked layer */}
+      <div className="flex-1 relative min-h-0">
+        <MapContainer districts={overlay} />
+      </div>
+    </div>
+  );
+}
@@ -8,15 +8,22 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { LanguageSelector } from "@/components/LanguageSelector";
+import type { StructuredAddress } from "@/lib/providers/geocoding/types";
 
 interface SearchResult {
   display_name: string;
   lat: string;
   lon: string;
+  address: StructuredAddress | null;
 }
 
 interface HeaderProps {
-  onSearchSelect?: (lat: number, lng: number, address: string) => void;
+  onSearchSelect?: (
+    lat: number,
+    lng: number,
+    address: string,
+    addressParts?: StructuredAddress
+  ) => void;
 }
 
 export function Header({ onSearchSelect }: HeaderProps) {
@@ -67,7 +74,8 @@ export function Header({ onSearchSelect }: HeaderProps) {
       onSearchSelect?.(
         parseFloat(result.lat),
         parseFloat(result.lon),
-        result.display_name
+        result.display_name,
+        result.address ?? undefined
       );
     },
     [onSearchSelect]
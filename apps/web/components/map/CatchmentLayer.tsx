@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect } from "react";
+import type { Map as MaplibreMap, GeoJSONSource } from "maplibre-gl";
+import type { Catchment } from "@/lib/distance/types";
+
+interface CatchmentLayerProps {
+  map: MaplibreMap;
+  catchment: Catchment | null;
+}
+
+const CATCHMENT_SOURCE_ID = "catchment-source";
+const CATCHMENT_FILL_LAYER_ID = "catchment-fill";
+const CATCHMENT_LINE_LAYER_ID = "catchment-line";
+
+function toGeoJSON(catchment: Catchment | null): GeoJSON.FeatureCollection {
+  if (!catchment) return { type: "FeatureCollection", features: [] };
+  return {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        properties: { mode: catchment.mode, minutes: catchment.minutes },
+        geometry: { type: "Polygon", coordinates: [catchment.polygon] },
+      },
+    ],
+  };
+}
+
+/**
+ * Draws the isochrone (area reachable in N minutes) around the selected marker
+ */
+export function CatchmentLayer({ map, catchment }: CatchmentLayerProps) {
+  // Add source and layers once
+  useEffect(() => {
+    const initLayer = () => {
+      if (map.getSource(CATCHMENT_SOURCE_ID)) return;
+
+      map.addSource(CATCHMENT_SOURCE_ID, {
+        type: "geojson",
+        data: { type: "FeatureCollection", features: [] },
+      });
+
+      // Insert below labels/symbols, like the heatmap
+      const firstSymbolId = map.getStyle().layers?.find((l) => l.type === "symbol")?.id;
+
+      map.addLayer(
+        {
+          id: CATCHMENT_FILL_LAYER_ID,
+          type: "fill",
+          source: CATCHMENT_SOURCE_ID,
+          paint: {
+            "fill-color": "#171717",
+            "fill-opacity": 0.06,
+          },
+        },
+        firstSymbolId
+      );
+
+      map.addLayer(
+        {
+          id: CATCHMENT_LINE_LAYER_ID,
+          type: "line",
+          source: CATCHMENT_SOURCE_ID,
+          paint: {
+            "line-color": "#171717",
+            "line-width": 1.5,
+            "line-dasharray": [2, 2],
+          },
+        },
+        firstSymbolId
+      );
+    };
+
+    if (!map.isStyleLoaded()) {
+      map.once("style.load", initLayer);
+    } else {
+      initLayer();
+    }
+
+    return () => {
+      // Guard against map being destroyed during navigation
+      if (!map.getStyle()) return;
+
+      if (map.getLayer(CATCHMENT_LINE_LAYER_ID)) map.removeLayer(CATCHMENT_LINE_LAYER_ID);
+      if (map.getLayer(CATCHMENT_FILL_LAYER_ID)) map.removeLayer(CATCHMENT_FILL_LAYER_ID);
+      if (map.getSource(CATCHMENT_SOURCE_ID)) map.removeSource(CATCHMENT_SOURCE_ID);
+    };
+  }, [map]);
+
+  // Update polygon when the catchment changes
+  useEffect(() => {
+    const source = map.getSource(CATCHMENT_SOURCE_ID) as GeoJSONSource | undefined;
+    source?.setData(toGeoJSON(catchment));
+  }, [map, catchment]);
+
+  return null;
+}
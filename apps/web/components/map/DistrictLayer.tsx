@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect } from "react";
+import type {
+  Map as MaplibreMap,
+  GeoJSONSource,
+  ExpressionSpecification,
+  LngLatBoundsLike,
+} from "maplibre-gl";
+
+export interface DistrictOverlay {
+  /** District polygons with one score property per heat layer */
+  districts: GeoJSON.FeatureCollection;
+  /** Heat layer that colors the districts ("overall" or a category ID) */
+  layer: string;
+  /** Slug of the district to outline and zoom to */
+  highlight?: string | null;
+}
+
+interface DistrictLayerProps {
+  map: MaplibreMap;
+  overlay: DistrictOverlay;
+}
+
+const DISTRICT_SOURCE_ID = "district-source";
+const DISTRICT_FILL_LAYER_ID = "district-fill";
+const DISTRICT_LINE_LAYER_ID = "district-line";
+
+// Same scale as the heatmap, more opaque since districts are large areas
+function scoreColor(layer: string): ExpressionSpecification {
+  return [
+    "step",
+    ["coalesce", ["get", layer], -1],
+    "rgba(163, 163, 163, 0.15)",   // Not scored yet
+    0, "rgba(253, 224, 71, 0.35)",  // Yellow - Low
+    45, "rgba(190, 242, 100, 0.38)", // Lime - Below average
+    60, "rgba(74, 222, 128, 0.40)",  // Green 400 - Average
+    70, "rgba(34, 197, 94, 0.42)",   // Green 500 - Good
+    78, "rgba(20, 184, 166, 0.45)",  // Teal 500 - Very Good
+    84, "rgba(6, 182, 212, 0.48)",   // Cyan 500 - Great
+    88, "rgba(139, 92, 246, 0.50)",  // Violet 500 - Excellent
+    92, "rgba(168, 85, 247, 0.55)",  // Purple 500 - Exceptional
+  ];
+}
+
+function featureBounds(features: GeoJSON.Feature[]): LngLatBoundsLike | null {
+  let minLng = Infinity;
+  let minLat = Infinity;
+  let maxLng = -Infinity;
+  let maxLat = -Infinity;
+  for (const feature of features) {
+    if (feature.geometry.type !== "MultiPolygon") continue;
+    for (const polygon of feature.geometry.coordinates) {
+      for (const [lng, lat] of polygon[0]) {
+        minLng = Math.min(minLng, lng);
+        minLat = Math.min(minLat, lat);
+        maxLng = Math.max(maxLng, lng);
+        maxLat = Math.max(maxLat, lat);
+      }
+    }
+  }
+  return minLng === Infinity ? null : [minLng, minLat, maxLng, maxLat];
+}
+
+/**
+ * Choropleth of a city's districts, colored by their score in one heat layer
+ */
+export function DistrictLayer({ map, overlay }: DistrictLayerProps) {
+  const { districts, layer, highlight } = overlay;
+
+  // Add source and layers once
+  useEffect(() => {
+    const initLayer = () => {
+      if (map.getSource(DISTRICT_SOURCE_ID)) return;
+
+      map.addSource(DISTRICT_SOURCE_ID, {
+        type: "geojson",
+        data: { type: "FeatureCollection", features: [] },
+      });
+
+      // Insert below labels/symbols, like the heatmap
+      const firstSymbolId = map.getStyle().layers?.find((l) => l.type === "symbol")?.id;
+
+      map.addLayer(
+        {
+          id: DISTRICT_FILL_LAYER_ID,
+          type: "fill",
+          source: DISTRICT_SOURCE_ID,
+          paint: { "fill-color": "rgba(0, 0, 0, 0)" },
+        },
+        firstSymbolId
+      );
+
+      map.addLayer(
+        {
+          id: DISTRICT_LINE_LAYER_ID,
+          type: "line",
+          source: DISTRICT_SOURCE_ID,
+          paint: { "line-color": "#525252", "line-width": 1 },
+        },
+        firstSymbolId
+      );
+    };
+
+    if (!map.isStyleLoaded()) {
+      map.once("style.load", initLayer);
+    } else {
+      initLayer();
+    }
+
+    return () => {
+      // Guard against map being destroyed during navigation
+      if (!map.getStyle()) return;
+
+      if (map.getLayer(DISTRICT_LINE_LAYER_ID)) map.removeLayer(DISTRICT_LINE_LAYER_ID);
+      if (map.getLayer(DISTRICT_FILL_LAYER_ID)) map.removeLayer(DISTRICT_FILL_LAYER_ID);
+      if (map.getSource(DISTRICT_SOURCE_ID)) map.removeSource(DISTRICT_SOURCE_ID);
+    };
+  }, [map]);
+
+  // Update polygons and zoom to the highlighted district (or the whole city)
+  useEffect(() => {
+    const source = map.getSource(DISTRICT_SOURCE_ID) as GeoJSONSource | undefined;
+    source?.setData(districts);
+
+    const focus = highlight
+      ? districts.features.filter((f) => f.properties?.slug === highlight)
+      : districts.features;
+    const bounds = featureBounds(focus);
+    if (bounds) map.fitBounds(bounds, { padding: 40, duration: 0 });
+  }, [map, districts, highlight]);
+
+  // Recolor for the selected layer, outline the highlighted district
+  useEffect(() => {
+    if (!map.getLayer(DISTRICT_FILL_LAYER_ID)) return;
+
+    map.setPaintProperty(DISTRICT_FILL_LAYER_ID, "fill-color", scoreColor(layer));
+    map.setPaintProperty(DISTRICT_LINE_LAYER_ID, "line-width", [
+      "case",
+      ["==", ["get", "slug"], highlight ?? ""],
+      3,
+      1,
+    ]);
+  }, [map, layer, highlight]);
+
+  return null;
+}
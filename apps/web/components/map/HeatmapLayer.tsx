@@ -2,142 +2,91 @@
 
 import { useEffect, useRef, useState, useCallback } from "react";
 import { useDebouncedCallback } from "use-debounce";
-import type { Map as MaplibreMap, GeoJSONSource } from "maplibre-gl";
-import { HEATMAP_GRID_STEP } from "@/lib/constants";
+import type {
+  Map as MaplibreMap,
+  VectorTileSource,
+  MapSourceDataEvent,
+  ExpressionSpecification,
+} from "maplibre-gl";
+import { HEATMAP_TILE_MIN_ZOOM, HEATMAP_TILE_MAX_ZOOM } from "@/lib/constants";
 
 interface HeatmapLayerProps {
   map: MaplibreMap;
   visible: boolean;
+  /** "overall" or a category ID */
+  layer: string;
   onLoadingChange?: (isLoading: boolean) => void;
 }
 
-interface HeatCell {
-  lat: number;
-  lng: number;
-  score: number;
-}
-
-interface HeatmapData {
-  cells: HeatCell[];
-  gridStep: number;
+interface HeatmapStatus {
+  jobStatus?: {
+    jobId: number;
+    status: string;
+    progress: number | null;
+  };
 }
 
 const HEATMAP_SOURCE_ID = "heatmap-source";
 const HEATMAP_LAYER_ID = "heatmap-layer";
-const MAX_CACHED_CELLS = 100000; // Allow caching entire city (Cancun ~57k visible cells)
+const HEATMAP_SOURCE_LAYER = "heat"; // Layer name inside the vector tiles
 const DEBOUNCE_MS = 1000;
 
-// Create a unique key for a cell based on its coordinates
-function cellKey(lat: number, lng: number): string {
-  return `${lat.toFixed(6)},${lng.toFixed(6)}`;
-}
-
 // Score to color mapping: transparent → yellow → green → teal → purple
-function scoreToColor(score: number): string {
-  // Low scores - transparent to warm colors
-  if (score < 30) return "rgba(0, 0, 0, 0)";               // Transparent
-  if (score < 45) return "rgba(253, 224, 71, 0.18)";       // Yellow - Low
-  if (score < 60) return "rgba(190, 242, 100, 0.20)";      // Lime - Below average
-
-  // Medium scores - greens
-  if (score < 70) return "rgba(74, 222, 128, 0.22)";       // Green 400 - Average
-  if (score < 78) return "rgba(34, 197, 94, 0.25)";        // Green 500 - Good
-
-  // High scores - transition to teal/cyan
-  if (score < 84) return "rgba(20, 184, 166, 0.28)";       // Teal 500 - Very Good
-  if (score < 88) return "rgba(6, 182, 212, 0.32)";        // Cyan 500 - Great
-
-  // Top scores - purple tones
-  if (score < 92) return "rgba(139, 92, 246, 0.35)";       // Violet 500 - Excellent
-  return "rgba(168, 85, 247, 0.40)";                        // Purple 500 - Exceptional
+const SCORE_COLOR: ExpressionSpecification = [
+  "step",
+  ["get", "score"],
+  "rgba(0, 0, 0, 0)",          // Transparent
+  30, "rgba(253, 224, 71, 0.18)",  // Yellow - Low
+  45, "rgba(190, 242, 100, 0.20)", // Lime - Below average
+  60, "rgba(74, 222, 128, 0.22)",  // Green 400 - Average
+  70, "rgba(34, 197, 94, 0.25)",   // Green 500 - Good
+  78, "rgba(20, 184, 166, 0.28)",  // Teal 500 - Very Good
+  84, "rgba(6, 182, 212, 0.32)",   // Cyan 500 - Great
+  88, "rgba(139, 92, 246, 0.35)",  // Violet 500 - Excellent
+  92, "rgba(168, 85, 247, 0.40)",  // Purple 500 - Exceptional
+];
+
+// Tiles are fetched by a web worker, which needs absolute URLs.
+// The version busts maplibre's tile cache while a heatmap job is filling in cells.
+function tileUrl(layer: string, version: number): string {
+  return `${window.location.origin}/api/heatmap/tiles/{z}/{x}/{y}.mvt?layer=${encodeURIComponent(layer)}&v=${version}`;
 }
 
-// Convert cells to GeoJSON polygons (rectangles)
-function createGeoJSON(
-  cells: HeatCell[],
-  gridStep: number
-): GeoJSON.FeatureCollection {
-  return {
-    type: "FeatureCollection",
-    features: cells.map((cell) => ({
-      type: "Feature",
-      geometry: {
-        type: "Polygon",
-        coordinates: [
-          [
-            [cell.lng, cell.lat],
-            [cell.lng + gridStep, cell.lat],
-            [cell.lng + gridStep, cell.lat + gridStep],
-            [cell.lng, cell.lat + gridStep],
-            [cell.lng, cell.lat],
-          ],
-        ],
-      },
-      properties: {
-        score: cell.score,
-        color: scoreToColor(cell.score),
-      },
-    })),
-  };
-}
-
-export function HeatmapLayer({ map, visible, onLoadingChange }: HeatmapLayerProps) {
-  const [data, setData] = useState<HeatmapData>({ cells: [], gridStep: HEATMAP_GRID_STEP });
-  const [isLoading, setIsLoading] = useState(false);
-  const layerInitialized = useRef(false);
-  const cellCache = useRef<Map<string, HeatCell>>(new Map());
-  const currentGridStep = useRef<number>(HEATMAP_GRID_STEP);
+export function HeatmapLayer({ map, visible, layer, onLoadingChange }: HeatmapLayerProps) {
+  const [statusLoading, setStatusLoading] = useState(false);
+  const [tilesLoading, setTilesLoading] = useState(false);
+  const tileVersion = useRef(0);
+  // Read when the source is (re)created; later layer changes go through setTiles
+  const layerRef = useRef(layer);
+  layerRef.current = layer;
 
   // Optimization refs
   const abortControllerRef = useRef<AbortController | null>(null);
   const lastBoundsRef = useRef<string | null>(null);
   const isInitialLoadRef = useRef(true);
 
-  // Merge new cells into cache and return merged result
-  const mergeCells = useCallback((newCells: HeatCell[], gridStep: number): HeatCell[] => {
-    // If grid step changed, clear cache (different city/resolution)
-    if (gridStep !== currentGridStep.current) {
-      cellCache.current.clear();
-      currentGridStep.current = gridStep;
-    }
-
-    // Add new cells to cache (overwrites existing with same key)
-    for (const cell of newCells) {
-      cellCache.current.set(cellKey(cell.lat, cell.lng), cell);
-    }
-
-    // If cache is too large, trim oldest entries
-    if (cellCache.current.size > MAX_CACHED_CELLS) {
-      const entries = Array.from(cellCache.current.entries());
-      const toRemove = entries.slice(0, entries.length - MAX_CACHED_CELLS);
-      for (const [key] of toRemove) {
-        cellCache.current.delete(key);
-      }
-    }
-
-    return Array.from(cellCache.current.values());
-  }, []);
-
   // Report loading state to parent
   useEffect(() => {
-    onLoadingChange?.(isLoading);
-  }, [isLoading, onLoadingChange]);
+    onLoadingChange?.(statusLoading || tilesLoading);
+  }, [statusLoading, tilesLoading, onLoadingChange]);
+
+  const refreshTiles = useCallback(() => {
+    tileVersion.current++;
+    const source = map.getSource(HEATMAP_SOURCE_ID) as VectorTileSource | undefined;
+    source?.setTiles([tileUrl(layer, tileVersion.current)]);
+  }, [map, layer]);
 
-  // Core fetch logic
-  const executeFetch = useCallback(async () => {
+  // Coverage check: schedules a heatmap job when the viewport has no cells yet
+  const executeCheck = useCallback(async () => {
     // Cancel any previous in-flight request
     abortControllerRef.current?.abort("new request");
     abortControllerRef.current = new AbortController();
 
     const bounds = map.getBounds();
-    // Add 50% padding on each side to preload data outside viewport
-    const latPadding = (bounds.getNorth() - bounds.getSouth()) * 0.5;
-    const lngPadding = (bounds.getEast() - bounds.getWest()) * 0.5;
-
-    const minLat = bounds.getSouth() - latPadding;
-    const maxLat = bounds.getNorth() + latPadding;
-    const minLng = bounds.getWest() - lngPadding;
-    const maxLng = bounds.getEast() + lngPadding;
+    const minLat = bounds.getSouth();
+    const maxLat = bounds.getNorth();
+    const minLng = bounds.getWest();
+    const maxLng = bounds.getEast();
 
     // Skip if bounds haven't changed
     const boundsKey = `${minLat.toFixed(4)},${maxLat.toFixed(4)},${minLng.toFixed(4)},${maxLng.toFixed(4)}`;
@@ -146,43 +95,45 @@ export function HeatmapLayer({ map, visible, onLoadingChange }: HeatmapLayerProp
     }
     lastBoundsRef.current = boundsKey;
 
-    setIsLoading(true);
+    setStatusLoading(true);
     try {
       const response = await fetch(
-        `/api/heatmap?minLat=${minLat}&maxLat=${maxLat}&minLng=${minLng}&maxLng=${maxLng}`,
+        `/api/heatmap?minLat=${minLat}&maxLat=${maxLat}&minLng=${minLng}&maxLng=${maxLng}&layer=${encodeURIComponent(layer)}&cells=0`,
         { signal: abortControllerRef.current.signal }
       );
       if (response.ok) {
-        const heatData: HeatmapData = await response.json();
-        const mergedCells = mergeCells(heatData.cells, heatData.gridStep);
-        setData({ cells: mergedCells, gridStep: heatData.gridStep });
+        const status: HeatmapStatus = await response.json();
+        // A job is adding cells - reload tiles so progress shows up
+        if (status.jobStatus && status.jobStatus.status !== "completed") {
+          refreshTiles();
+        }
       }
     } catch (error) {
       if ((error as Error)?.name === "AbortError") {
         return; // Silently ignore aborted requests
       }
-      console.error("Failed to fetch heatmap data:", error);
+      console.error("Failed to fetch heatmap status:", error);
     } finally {
-      setIsLoading(false);
+      setStatusLoading(false);
     }
-  }, [map, mergeCells]);
+  }, [map, layer, refreshTiles]);
 
-  // Debounced fetch for map movement
-  const debouncedFetch = useDebouncedCallback(executeFetch, DEBOUNCE_MS, {
+  // Debounced check for map movement
+  const debouncedCheck = useDebouncedCallback(executeCheck, DEBOUNCE_MS, {
     leading: true,
     trailing: true,
   });
 
-  // Fetch heatmap data with padding for smoother panning
+  // Check coverage on mount and after map movement
   useEffect(() => {
     if (!visible) return;
 
-    // Reset state when visibility changes
+    // Reset state when visibility or layer changes
     lastBoundsRef.current = null;
     isInitialLoadRef.current = true;
 
-    // Fetch immediately on mount
-    executeFetch();
+    // Check immediately on mount
+    executeCheck();
 
     // Mark initial load complete after short delay to skip initial moveend
     const initialLoadTimeout = setTimeout(() => {
@@ -192,7 +143,7 @@ export function HeatmapLayer({ map, visible, onLoadingChange }: HeatmapLayerProp
     const onMoveEnd = () => {
       // Skip initial moveend event fired during map setup
       if (isInitialLoadRef.current) return;
-      debouncedFetch();
+      debouncedCheck();
     };
 
     map.on("moveend", onMoveEnd);
@@ -200,13 +151,41 @@ export function HeatmapLayer({ map, visible, onLoadingChange }: HeatmapLayerProp
     return () => {
       clearTimeout(initialLoadTimeout);
       abortControllerRef.current?.abort();
-      debouncedFetch.cancel();
+      debouncedCheck.cancel();
       // Guard against map being destroyed during navigation
       if (map.getStyle()) {
         map.off("moveend", onMoveEnd);
       }
     };
-  }, [map, visible, executeFetch, debouncedFetch]);
+  }, [map, visible, executeCheck, debouncedCheck]);
+
+  // Switch the tile URL when the layer changes (without recreating the map layer)
+  useEffect(() => {
+    const source = map.getSource(HEATMAP_SOURCE_ID) as VectorTileSource | undefined;
+    source?.setTiles([tileUrl(layer, tileVersion.current)]);
+  }, [map, layer]);
+
+  // Track tile loading for the spinner
+  useEffect(() => {
+    if (!visible) {
+      setTilesLoading(false);
+      return;
+    }
+
+    const onLoading = (e: MapSourceDataEvent) => {
+      if (e.sourceId === HEATMAP_SOURCE_ID) setTilesLoading(true);
+    };
+    const onIdle = () => setTilesLoading(false);
+
+    map.on("sourcedataloading", onLoading);
+    map.on("idle", onIdle);
+
+    return () => {
+      if (!map.getStyle()) return;
+      map.off("sourcedataloading", onLoading);
+      map.off("idle", onIdle);
+    };
+  }, [map, visible]);
 
   // Initialize layer once when visible becomes true
   useEffect(() => {
@@ -218,18 +197,18 @@ export function HeatmapLayer({ map, visible, onLoadingChange }: HeatmapLayerProp
       if (map.getSource(HEATMAP_SOURCE_ID)) {
         map.removeSource(HEATMAP_SOURCE_ID);
       }
-      layerInitialized.current = false;
       return;
     }
 
     const initLayer = () => {
-      if (layerInitialized.current) return;
       if (map.getSource(HEATMAP_SOURCE_ID)) return;
 
-      // Add empty source initially
+      // Cells are aggregated server-side at low zooms; above the max zoom tiles are overzoomed
       map.addSource(HEATMAP_SOURCE_ID, {
-        type: "geojson",
-        data: { type: "FeatureCollection", features: [] },
+        type: "vector",
+        tiles: [tileUrl(layerRef.current, tileVersion.current)],
+        minzoom: HEATMAP_TILE_MIN_ZOOM,
+        maxzoom: HEATMAP_TILE_MAX_ZOOM,
       });
 
       // Grid-based fill layer with reduced opacity
@@ -238,16 +217,15 @@ export function HeatmapLayer({ map, visible, onLoadingChange }: HeatmapLayerProp
           id: HEATMAP_LAYER_ID,
           type: "fill",
           source: HEATMAP_SOURCE_ID,
+          "source-layer": HEATMAP_SOURCE_LAYER,
           paint: {
-            "fill-color": ["get", "color"],
+            "fill-color": SCORE_COLOR,
             "fill-opacity": 1, // Opacity is baked into color
           },
         },
         // Insert below labels/symbols for better visibility
         map.getStyle().layers?.find((l) => l.type === "symbol")?.id
       );
-
-      layerInitialized.current = true;
     };
 
     if (!map.isStyleLoaded()) {
@@ -266,20 +244,8 @@ export function HeatmapLayer({ map, visible, onLoadingChange }: HeatmapLayerProp
       if (map.getSource(HEATMAP_SOURCE_ID)) {
         map.removeSource(HEATMAP_SOURCE_ID);
       }
-      layerInitialized.current = false;
     };
   }, [map, visible]);
 
-  // Update source data when data changes (without recreating layer)
-  useEffect(() => {
-    if (!visible || data.cells.length === 0) return;
-
-    const source = map.getSource(HEATMAP_SOURCE_ID) as GeoJSONSource | undefined;
-    if (source) {
-      const geojson = createGeoJSON(data.cells, data.gridStep);
-      source.setData(geojson);
-    }
-  }, [map, visible, data]);
-
   return null;
 }
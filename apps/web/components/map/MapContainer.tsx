@@ -8,12 +8,29 @@ import { useLocale } from "next-intl";
 declare global {
   interface Window {
     __INITIAL_LOCATION__?: { lat: number; lng: number };
+    __INITIAL_PROFILE__?: string;
+    __INITIAL_ISOCHRONE__?: string;
+    __INITIAL_COMPARE__?: { lat: number; lng: number }[];
+    __INITIAL_COMMUTE__?: string;
   }
 }
 import { Header } from "@/components/Header";
 import { ScorePanel } from "@/components/score/ScorePanel";
-import { formatLocationUrl, parseLocationFromPath } from "@/lib/url";
-import type { POIResult } from "@/lib/score/types";
+import { ComparePanel } from "@/components/score/ComparePanel";
+import {
+  COMPARE_LOCATIONS,
+  formatCompareUrl,
+  formatLocationUrl,
+  parseCompareFromPath,
+  parseLocationFromPath,
+} from "@/lib/url";
+import { encodeProfile, parseProfile, type ScoringProfile } from "@/lib/score/profiles";
+import { formatIsochrone, parseIsochrone } from "@/lib/distance/isochrone";
+import { encodeCommute, parseCommute, MAX_ANCHORS, type CommuteSettings } from "@/lib/score/commute";
+import type { Catchment, IsochroneSpec } from "@/lib/distance/types";
+import type { AnchorKind, POIResult } from "@/lib/score/types";
+import type { StructuredAddress } from "@/lib/providers/geocoding/types";
+import type { DistrictOverlay } from "./DistrictLayer";
 
 const MapView = dynamic(() => import("./MapView").then((mod) => mod.MapView), {
   ssr: false,
@@ -28,6 +45,8 @@ export interface SelectedLocation {
   lat: number;
   lng: number;
   address?: string;
+  /** Structured parts of the address, for short labels */
+  addressParts?: StructuredAddress;
 }
 
 export interface SelectedCategory {
@@ -35,26 +54,93 @@ export interface SelectedCategory {
   pois: POIResult[];
 }
 
-export function MapContainer() {
+/**
+ * Add a compare pin, or update the pin at the same coordinates (address lookup)
+ */
+function addComparePin(pins: SelectedLocation[], location: SelectedLocation): SelectedLocation[] {
+  const index = pins.findIndex((p) => p.lat === location.lat && p.lng === location.lng);
+  if (index !== -1) {
+    return pins.map((p, i) => (i === index ? location : p));
+  }
+  if (pins.length >= COMPARE_LOCATIONS.max) return pins;
+  return [...pins, location];
+}
+
+function compareKey(pins: SelectedLocation[]): string {
+  return pins.map((p) => `${p.lat},${p.lng}`).join(";");
+}
+
+interface MapContainerProps {
+  /** District choropleth; the heatmap starts hidden so the two don't overlap */
+  districts?: DistrictOverlay | null;
+}
+
+export function MapContainer({ districts }: MapContainerProps) {
   const locale = useLocale();
   const [selectedLocation, setSelectedLocation] =
     useState<SelectedLocation | null>(null);
-  const [showHeatmap, setShowHeatmap] = useState(true);
+  const [showHeatmap, setShowHeatmap] = useState(!districts);
   const [selectedCategory, setSelectedCategory] =
     useState<SelectedCategory | null>(null);
+  const [profile, setProfile] = useState<ScoringProfile | null>(null);
+  const [isochrone, setIsochrone] = useState<IsochroneSpec | null>(null);
+  const [catchment, setCatchment] = useState<Catchment | null>(null);
+  // Pinned locations while compare mode is on, null otherwise
+  const [compareLocations, setCompareLocations] = useState<SelectedLocation[] | null>(null);
+  // Read by the (stable) map click handler
+  const compareModeRef = useRef(false);
+  compareModeRef.current = compareLocations !== null;
+  const [commute, setCommute] = useState<CommuteSettings | null>(null);
+  // Anchor kind waiting for a map click or search result
+  const [placingAnchor, setPlacingAnchor] = useState<AnchorKind | null>(null);
+  const placingAnchorRef = useRef<AnchorKind | null>(null);
+  placingAnchorRef.current = placingAnchor;
+  // Last placed anchor, so its reverse-geocoded address doesn't select it as a location
+  const lastAnchorRef = useRef<{ lat: number; lng: number } | null>(null);
 
   // Track previous location to decide push vs replace for history
   const previousLocationRef = useRef<SelectedLocation | null>(null);
+  // Track previous compare pins, same push vs replace decision
+  const previousCompareRef = useRef<string | null>(null);
   // Track if this is the initial load to avoid double history entry
   const isInitialLoadRef = useRef(true);
 
-  // Read initial location from URL on mount
+  const profileParam = profile ? encodeProfile(profile) : null;
+  const isochroneParam = isochrone ? formatIsochrone(isochrone) : null;
+  const commuteParam = commute ? encodeCommute(commute) : null;
+
+  // Read initial location (or compared locations) and score settings from URL on mount
   useEffect(() => {
-    if (typeof window !== "undefined" && window.__INITIAL_LOCATION__) {
+    if (typeof window !== "undefined" && window.__INITIAL_COMPARE__) {
+      const pins = window.__INITIAL_COMPARE__;
+      const initialProfile = window.__INITIAL_PROFILE__ ?? null;
+      const initialIsochrone = window.__INITIAL_ISOCHRONE__ ?? null;
+      const initialCommute = window.__INITIAL_COMMUTE__ ?? null;
+      setCompareLocations(pins);
+      setProfile(parseProfile(initialProfile));
+      setIsochrone(parseIsochrone(initialIsochrone));
+      setCommute(parseCommute(initialCommute));
+      window.history.replaceState(
+        { compare: pins, profile: initialProfile, isochrone: initialIsochrone, commute: initialCommute },
+        "",
+        window.location.pathname + window.location.search
+      );
+      previousCompareRef.current = compareKey(pins);
+    } else if (typeof window !== "undefined" && window.__INITIAL_LOCATION__) {
       const { lat, lng } = window.__INITIAL_LOCATION__;
+      const initialProfile = window.__INITIAL_PROFILE__ ?? null;
+      const initialIsochrone = window.__INITIAL_ISOCHRONE__ ?? null;
+      const initialCommute = window.__INITIAL_COMMUTE__ ?? null;
       setSelectedLocation({ lat, lng });
+      setProfile(parseProfile(initialProfile));
+      setIsochrone(parseIsochrone(initialIsochrone));
+      setCommute(parseCommute(initialCommute));
       // Set initial history state so back works correctly
-      window.history.replaceState({ lat, lng }, "", window.location.pathname);
+      window.history.replaceState(
+        { lat, lng, profile: initialProfile, isochrone: initialIsochrone, commute: initialCommute },
+        "",
+        window.location.pathname + window.location.search
+      );
       previousLocationRef.current = { lat, lng };
     }
     // Mark initial load as complete after a tick
@@ -71,11 +157,23 @@ export function MapContainer() {
         return;
       }
 
-      const url = formatLocationUrl(locale, selectedLocation.lat, selectedLocation.lng);
-      const state = { lat: selectedLocation.lat, lng: selectedLocation.lng, address: selectedLocation.address };
+      const url = formatLocationUrl(locale, selectedLocation.lat, selectedLocation.lng, {
+        profile: profileParam,
+        isochrone: isochroneParam,
+        commute: commuteParam,
+      });
+      const state = {
+        lat: selectedLocation.lat,
+        lng: selectedLocation.lng,
+        address: selectedLocation.address,
+        addressParts: selectedLocation.addressParts,
+        profile: profileParam,
+        isochrone: isochroneParam,
+        commute: commuteParam,
+      };
 
       // If this is a NEW location (different from previous), push to history
-      // If same location (just updating address), replace
+      // If same location (just updating address or score settings), replace
       const isSameLocation = previousLocationRef.current &&
         previousLocationRef.current.lat === selectedLocation.lat &&
         previousLocationRef.current.lng === selectedLocation.lng;
@@ -88,26 +186,85 @@ export function MapContainer() {
 
       previousLocationRef.current = selectedLocation;
     }
-  }, [selectedLocation, locale]);
+  }, [selectedLocation, locale, profileParam, isochroneParam, commuteParam]);
+
+  // URL sync: Update URL once at least two locations are compared
+  useEffect(() => {
+    if (!compareLocations || compareLocations.length < COMPARE_LOCATIONS.min) return;
+    if (isInitialLoadRef.current) return;
+
+    const url = formatCompareUrl(locale, compareLocations, {
+      profile: profileParam,
+      isochrone: isochroneParam,
+      commute: commuteParam,
+    });
+    const state = {
+      compare: compareLocations.map(({ lat, lng }) => ({ lat, lng })),
+      profile: profileParam,
+      isochrone: isochroneParam,
+      commute: commuteParam,
+    };
+
+    // New pin set gets its own history entry, addresses and settings replace it
+    const key = compareKey(compareLocations);
+    if (previousCompareRef.current === key) {
+      window.history.replaceState(state, "", url);
+    } else {
+      window.history.pushState(state, "", url);
+    }
+
+    previousCompareRef.current = key;
+  }, [compareLocations, locale, profileParam, isochroneParam, commuteParam]);
 
   // Handle browser back/forward buttons
   useEffect(() => {
     const handlePopState = (event: PopStateEvent) => {
+      if (Array.isArray(event.state?.compare)) {
+        // Restore compared locations from history state
+        setCompareLocations(event.state.compare);
+        previousCompareRef.current = compareKey(event.state.compare);
+        setSelectedLocation(null);
+        setProfile(parseProfile(event.state.profile));
+        setIsochrone(parseIsochrone(event.state.isochrone));
+        setCommute(parseCommute(event.state.commute));
+        setSelectedCategory(null);
+        return;
+      }
+
+      setCompareLocations(null);
       if (event.state?.lat !== undefined && event.state?.lng !== undefined) {
         // Restore location from history state
         setSelectedLocation({
           lat: event.state.lat,
           lng: event.state.lng,
           address: event.state.address,
+          addressParts: event.state.addressParts,
         });
+        setProfile(parseProfile(event.state.profile));
+        setIsochrone(parseIsochrone(event.state.isochrone));
+        setCommute(parseCommute(event.state.commute));
         setSelectedCategory(null);
       } else {
         // Try to parse from URL path
         const pathParts = window.location.pathname.split("/");
         const locationPart = pathParts[pathParts.length - 1];
         const parsed = parseLocationFromPath(locationPart);
-        if (parsed) {
+        const compared =
+          pathParts[pathParts.length - 2] === "compare" ? parseCompareFromPath(locationPart) : null;
+        const query = new URLSearchParams(window.location.search);
+        if (compared) {
+          setCompareLocations(compared);
+          previousCompareRef.current = compareKey(compared);
+          setSelectedLocation(null);
+          setProfile(parseProfile(query.get("profile")));
+          setIsochrone(parseIsochrone(query.get("isochrone")));
+          setCommute(parseCommute(query.get("commute")));
+          setSelectedCategory(null);
+        } else if (parsed) {
           setSelectedLocation({ lat: parsed.lat, lng: parsed.lng });
+          setProfile(parseProfile(query.get("profile")));
+          setIsochrone(parseIsochrone(query.get("isochrone")));
+          setCommute(parseCommute(query.get("commute")));
           setSelectedCategory(null);
         } else {
           // No location in URL, clear selection
@@ -122,18 +279,59 @@ export function MapContainer() {
   }, []);
 
   const handleLocationSelect = useCallback((location: SelectedLocation) => {
+    const kind = placingAnchorRef.current;
+    if (kind) {
+      setCommute((prev) => {
+        const anchors = [...(prev?.anchors ?? []), { kind, lat: location.lat, lng: location.lng }];
+        return { anchors: anchors.slice(-MAX_ANCHORS), blend: prev?.blend ?? false };
+      });
+      lastAnchorRef.current = location;
+      setPlacingAnchor(null);
+      return;
+    }
+    if (
+      lastAnchorRef.current?.lat === location.lat &&
+      lastAnchorRef.current?.lng === location.lng
+    ) {
+      return; // Address for the anchor just placed
+    }
+    if (compareModeRef.current) {
+      setCompareLocations((prev) => addComparePin(prev ?? [], location));
+      return;
+    }
     setSelectedLocation(location);
     setSelectedCategory(null); // Clear POIs when selecting new location
   }, []);
 
   const handleSearchSelect = useCallback(
-    (lat: number, lng: number, address: string) => {
-      setSelectedLocation({ lat, lng, address });
-      setSelectedCategory(null);
+    (lat: number, lng: number, address: string, addressParts?: StructuredAddress) => {
+      handleLocationSelect({ lat, lng, address, addressParts });
     },
-    []
+    [handleLocationSelect]
   );
 
+  // Entering compare mode pins the selected location; leaving it selects the first pin
+  const handleToggleCompare = useCallback(() => {
+    if (compareLocations) {
+      setCompareLocations(null);
+      setSelectedLocation(compareLocations[0] ?? null);
+    } else {
+      setCompareLocations(selectedLocation ? [selectedLocation] : []);
+      previousCompareRef.current = null;
+      setSelectedLocation(null);
+    }
+    setSelectedCategory(null);
+  }, [compareLocations, selectedLocation]);
+
+  const handleRemovePin = useCallback((index: number) => {
+    setCompareLocations((prev) => prev?.filter((_, i) => i !== index) ?? null);
+  }, []);
+
+  const handleCommuteChange = useCallback((value: CommuteSettings | null) => {
+    setCommute(value);
+    setPlacingAnchor(null);
+  }, []);
+
   const handleClosePanel = useCallback(() => {
     setSelectedLocation(null);
     setSelectedCategory(null);
@@ -161,13 +359,40 @@ export function MapContainer() {
           showHeatmap={showHeatmap}
           onToggleHeatmap={() => setShowHeatmap((prev) => !prev)}
           selectedCategory={selectedCategory}
+          catchment={catchment}
+          districts={districts}
+          comparePins={compareLocations}
+          onToggleCompare={handleToggleCompare}
+          anchors={commute?.anchors}
         />
-        <ScorePanel
-          location={selectedLocation}
-          onClose={handleClosePanel}
-          selectedCategoryId={selectedCategory?.id}
-          onCategorySelect={handleCategorySelect}
-        />
+        {compareLocations ? (
+          <ComparePanel
+            locations={compareLocations}
+            onRemove={handleRemovePin}
+            onClose={handleToggleCompare}
+            profile={profile}
+            onProfileChange={setProfile}
+            isochrone={isochrone}
+            onIsochroneChange={setIsochrone}
+            commute={commute}
+          />
+        ) : (
+          <ScorePanel
+            location={selectedLocation}
+            onClose={handleClosePanel}
+            selectedCategoryId={selectedCategory?.id}
+            onCategorySelect={handleCategorySelect}
+            profile={profile}
+            onProfileChange={setProfile}
+            isochrone={isochrone}
+            onIsochroneChange={setIsochrone}
+            commute={commute}
+            onCommuteChange={handleCommuteChange}
+            placingAnchor={placingAnchor}
+            onPlaceAnchor={setPlacingAnchor}
+            onCatchmentChange={setCatchment}
+          />
+        )}
       </div>
     </div>
   );
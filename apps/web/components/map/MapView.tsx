@@ -6,10 +6,15 @@ import "maplibre-gl/dist/maplibre-gl.css";
 import { useTranslations } from "next-intl";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Layers, Loader2, Minus, Plus, LocateFixed, X, MousePointer } from "lucide-react";
+import { Columns2, Layers, Loader2, Minus, Plus, LocateFixed, X, MousePointer } from "lucide-react";
 import type { SelectedLocation, SelectedCategory } from "./MapContainer";
 import { HeatmapLayer } from "./HeatmapLayer";
-import { categoryColors } from "@/components/score/CategoryScore";
+import { CatchmentLayer } from "./CatchmentLayer";
+import { DistrictLayer, type DistrictOverlay } from "./DistrictLayer";
+import { categoryColors, comparePinColors, comparePinLabel } from "@/components/score/CategoryScore";
+import type { Catchment } from "@/lib/distance/types";
+import type { CommuteAnchor } from "@/lib/score/types";
+import { HEATMAP_OVERALL_LAYER } from "@/lib/constants";
 
 interface MapViewProps {
   selectedLocation: SelectedLocation | null;
@@ -17,6 +22,13 @@ interface MapViewProps {
   showHeatmap: boolean;
   onToggleHeatmap: () => void;
   selectedCategory: SelectedCategory | null;
+  catchment: Catchment | null;
+  districts?: DistrictOverlay | null;
+  /** Pinned locations in compare mode, null when compare mode is off */
+  comparePins?: SelectedLocation[] | null;
+  onToggleCompare?: () => void;
+  /** Commute anchors placed by the user */
+  anchors?: CommuteAnchor[];
 }
 
 const DEFAULT_CENTER: [number, number] = [13.405, 52.52]; // Berlin
@@ -28,15 +40,28 @@ export function MapView({
   showHeatmap,
   onToggleHeatmap,
   selectedCategory,
+  catchment,
+  districts,
+  comparePins,
+  onToggleCompare,
+  anchors,
 }: MapViewProps) {
   const t = useTranslations("hint");
+  const tCompare = useTranslations("compare");
+  const tScore = useTranslations("score");
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<maplibregl.Map | null>(null);
   const marker = useRef<maplibregl.Marker | null>(null);
   const poiMarkers = useRef<maplibregl.Marker[]>([]);
+  const compareMarkers = useRef<maplibregl.Marker[]>([]);
+  const anchorMarkers = useRef<maplibregl.Marker[]>([]);
+  // Shared comparison links frame their pins once on load
+  const hasFramedPinsRef = useRef(false);
   const [mapLoaded, setMapLoaded] = useState(false);
   const [heatmapLoading, setHeatmapLoading] = useState(false);
   const hasRequestedLocation = useRef(false);
+  // District pages frame the map on their districts instead of the user's location
+  const hasDistrictsRef = useRef(Boolean(districts));
   const geocodeAbortControllerRef = useRef<AbortController | null>(null);
 
   // First-time hint state
@@ -77,7 +102,13 @@ export function MapView({
 
       // Auto-detect user location on first load (instant, no animation)
       // Skip if URL already has coordinates (e.g., shared location links)
-      if (!hasRequestedLocation.current && !window.__INITIAL_LOCATION__ && navigator.geolocation) {
+      if (
+        !hasRequestedLocation.current &&
+        !window.__INITIAL_LOCATION__ &&
+        !window.__INITIAL_COMPARE__ &&
+        !hasDistrictsRef.current &&
+        navigator.geolocation
+      ) {
         hasRequestedLocation.current = true;
         navigator.geolocation.getCurrentPosition(
           (position) => {
@@ -126,7 +157,12 @@ export function MapView({
         .then((data) => {
           if (data.displayName) {
             // Update location with address
-            onLocationSelect({ lat, lng, address: data.displayName });
+            onLocationSelect({
+              lat,
+              lng,
+              address: data.displayName,
+              addressParts: data.address ?? undefined,
+            });
           }
         })
         .catch((err) => {
@@ -178,6 +214,91 @@ export function MapView({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedLocation?.lat, selectedLocation?.lng]);
 
+  // Update numbered markers when compare pins change
+  const comparePinsKey = comparePins?.map((p) => `${p.lat},${p.lng}`).join(";") ?? "";
+  useEffect(() => {
+    if (!map.current) return;
+
+    compareMarkers.current.forEach((m) => m.remove());
+    compareMarkers.current = [];
+
+    if (!comparePins?.length) return;
+
+    comparePins.forEach((pin, index) => {
+      const el = document.createElement("div");
+      el.textContent = comparePinLabel(index);
+      el.style.cssText = `
+        width: 26px;
+        height: 26px;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        background-color: ${comparePinColors[index]};
+        color: white;
+        font-size: 13px;
+        font-weight: 700;
+        border: 2px solid white;
+        border-radius: 50%;
+        box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+      `;
+
+      compareMarkers.current.push(
+        new maplibregl.Marker({ element: el })
+          .setLngLat([pin.lng, pin.lat])
+          .addTo(map.current!)
+      );
+    });
+
+    if (!hasFramedPinsRef.current && window.__INITIAL_COMPARE__) {
+      hasFramedPinsRef.current = true;
+      const bounds = new maplibregl.LngLatBounds();
+      comparePins.forEach((pin) => bounds.extend([pin.lng, pin.lat]));
+      map.current.fitBounds(bounds, { padding: 80, maxZoom: 15, duration: 0 });
+      return;
+    }
+
+    // Bring a pin added from search into view
+    const last = comparePins[comparePins.length - 1];
+    if (!map.current.getBounds().contains([last.lng, last.lat])) {
+      map.current.flyTo({ center: [last.lng, last.lat], duration: 500 });
+    }
+    // Only re-run when pin coordinates change, not when addresses are added
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [comparePinsKey]);
+
+  // Update commute anchor markers when anchors change
+  const anchorsKey = anchors?.map((a) => `${a.kind}:${a.lat},${a.lng}`).join(";") ?? "";
+  useEffect(() => {
+    if (!map.current) return;
+
+    anchorMarkers.current.forEach((m) => m.remove());
+    anchorMarkers.current = [];
+
+    anchors?.forEach((anchor) => {
+      const el = document.createElement("div");
+      el.textContent = tScore(`commute.kinds.${anchor.kind}`);
+      el.style.cssText = `
+        padding: 2px 8px;
+        background-color: ${categoryColors.commute};
+        color: white;
+        font-size: 11px;
+        font-weight: 600;
+        border: 2px solid white;
+        border-radius: 9999px;
+        box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+        white-space: nowrap;
+      `;
+
+      anchorMarkers.current.push(
+        new maplibregl.Marker({ element: el })
+          .setLngLat([anchor.lng, anchor.lat])
+          .addTo(map.current!)
+      );
+    });
+    // Only re-run when anchors change, not on every new array
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [anchorsKey]);
+
   // Update POI markers when selected category changes
   useEffect(() => {
     if (!map.current) return;
@@ -212,7 +333,9 @@ export function MapView({
         <div style="padding: 4px 8px; font-size: 13px;">
           <strong>${poi.name || "Unnamed"}</strong>
           <br/>
-          <span style="color: #666; font-size: 11px;">${poi.distance}m away</span>
+          <span style="color: #666; font-size: 11px;">${poi.distance}m away${
+            poi.departuresPerHour !== undefined ? ` · ${poi.departuresPerHour} departures/h` : ""
+          }</span>
         </div>
       `);
 
@@ -271,7 +394,12 @@ export function MapView({
           .then((res) => res.json())
           .then((data) => {
             if (data.displayName) {
-              onLocationSelect({ lat: latitude, lng: longitude, address: data.displayName });
+              onLocationSelect({
+                lat: latitude,
+                lng: longitude,
+                address: data.displayName,
+                addressParts: data.address ?? undefined,
+              });
             }
           })
           .catch((err) => {
@@ -329,19 +457,41 @@ export function MapView({
             <Layers className="h-4 w-4" />
           )}
         </Button>
+        {onToggleCompare && (
+          <Button
+            variant={comparePins ? "default" : "outline"}
+            size="icon"
+            onClick={onToggleCompare}
+            className={comparePins ? "" : "bg-background"}
+            title={comparePins ? tCompare("exit") : tCompare("start")}
+          >
+            <Columns2 className="h-4 w-4" />
+          </Button>
+        )}
       </div>
 
-      {/* Heatmap Layer */}
+      {/* Heatmap Layer - follows the expanded category, overall score otherwise */}
       {mapLoaded && map.current && (
         <HeatmapLayer
           map={map.current}
           visible={showHeatmap}
+          layer={selectedCategory?.id ?? HEATMAP_OVERALL_LAYER}
           onLoadingChange={setHeatmapLoading}
         />
       )}
 
+      {/* District choropleth (district pages) */}
+      {mapLoaded && map.current && districts && (
+        <DistrictLayer map={map.current} overlay={districts} />
+      )}
+
+      {/* Isochrone around the selected marker */}
+      {mapLoaded && map.current && (
+        <CatchmentLayer map={map.current} catchment={selectedLocation ? catchment : null} />
+      )}
+
       {/* First-time hint overlay */}
-      {showHint && !selectedLocation && (
+      {showHint && !selectedLocation && !comparePins && (
         <Card className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-20 px-6 py-4 shadow-lg bg-background/95 backdrop-blur-sm">
           <Button
             variant="ghost"
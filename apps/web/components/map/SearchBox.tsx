@@ -7,15 +7,22 @@ import { Search, X, Loader2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import type { StructuredAddress } from "@/lib/providers/geocoding/types";
 
 interface SearchResult {
   display_name: string;
   lat: string;
   lon: string;
+  address: StructuredAddress | null;
 }
 
 interface SearchBoxProps {
-  onSelect: (lat: number, lng: number, address: string) => void;
+  onSelect: (
+    lat: number,
+    lng: number,
+    address: string,
+    addressParts?: StructuredAddress
+  ) => void;
 }
 
 export function SearchBox({ onSelect }: SearchBoxProps) {
@@ -63,7 +70,12 @@ export function SearchBox({ onSelect }: SearchBoxProps) {
       setQuery(result.display_name);
       setResults([]);
       setIsOpen(false);
-      onSelect(parseFloat(result.lat), parseFloat(result.lon), result.display_name);
+      onSelect(
+        parseFloat(result.lat),
+        parseFloat(result.lon),
+        result.display_name,
+        result.address ?? undefined
+      );
     },
     [onSelect]
   );
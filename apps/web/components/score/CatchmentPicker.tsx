@@ -0,0 +1,51 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { cn } from "@/lib/utils";
+import type { IsochroneSpec } from "@/lib/distance/types";
+
+interface CatchmentPickerProps {
+  isochrone: IsochroneSpec | null;
+  onChange: (isochrone: IsochroneSpec | null) => void;
+}
+
+// null = fixed per-category radius
+const OPTIONS: (IsochroneSpec | null)[] = [
+  null,
+  { mode: "walk", minutes: 10 },
+  { mode: "walk", minutes: 15 },
+  { mode: "walk", minutes: 20 },
+  { mode: "bike", minutes: 15 },
+];
+
+function isSame(a: IsochroneSpec | null, b: IsochroneSpec | null): boolean {
+  return a?.mode === b?.mode && a?.minutes === b?.minutes;
+}
+
+export function CatchmentPicker({ isochrone, onChange }: CatchmentPickerProps) {
+  const t = useTranslations("score");
+
+  return (
+    <div className="space-y-1">
+      <span className="text-xs font-medium">{t("catchment.title")}</span>
+      <div className="flex flex-wrap gap-1">
+        {OPTIONS.map((option) => (
+          <button
+            key={option ? `${option.mode}:${option.minutes}` : "radius"}
+            onClick={() => onChange(option)}
+            className={cn(
+              "rounded-full border px-2 py-0.5 text-[10px] transition-colors",
+              isSame(isochrone, option)
+                ? "border-primary bg-primary text-primary-foreground"
+                : "border-border hover:bg-muted/50"
+            )}
+          >
+            {option
+              ? t(`catchment.${option.mode}`, { minutes: option.minutes })
+              : t("catchment.radius")}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import { useTranslations } from "next-intl";
 import { Progress } from "@/components/ui/progress";
 import {
@@ -18,9 +19,11 @@ import {
   ShoppingBag,
   Sparkles,
   MapPin,
+  Briefcase,
+  ChevronDown,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { CategoryScoreResult } from "@/lib/score/types";
+import type { CategoryScoreResult, ScoreBreakdown } from "@/lib/score/types";
 
 interface CategoryScoreProps {
   category: CategoryScoreResult;
@@ -37,6 +40,7 @@ const categoryIcons: Record<string, React.ComponentType<{ className?: string }>>
   parks: Trees,
   shopping: ShoppingBag,
   entertainment: Sparkles,
+  commute: Briefcase,
 };
 
 export const categoryColors: Record<string, string> = {
@@ -48,8 +52,16 @@ export const categoryColors: Record<string, string> = {
   parks: "#10b981",
   shopping: "#ec4899",
   entertainment: "#f59e0b",
+  commute: "#0f766e",
 };
 
+// Pinned locations in compare mode (A-D): panel columns, map markers, share card
+export const comparePinColors = ["#2563eb", "#db2777", "#d97706", "#059669"];
+
+export function comparePinLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
 // Score-based color for progress bars (same logic as heatmap)
 export function scoreToColor(score: number): string {
   if (score < 30) return "#ef4444";  // Red - Poor
@@ -61,6 +73,7 @@ export function scoreToColor(score: number): string {
 
 export function CategoryScore({ category, isSelected, onSelect }: CategoryScoreProps) {
   const t = useTranslations("score");
+  const [explainExpanded, setExplainExpanded] = useState(false);
   const Icon = categoryIcons[category.id] || ShoppingCart;
   const color = categoryColors[category.id] || "#6b7280";
   const barColor = scoreToColor(category.score);
@@ -68,55 +81,143 @@ export function CategoryScore({ category, isSelected, onSelect }: CategoryScoreP
   const categoryName = t(`categories.${category.id}` as Parameters<typeof t>[0]);
 
   return (
-    <TooltipProvider>
-      <Tooltip>
-        <TooltipTrigger asChild>
-          <button
-            onClick={onSelect}
-            className={cn(
-              "w-full space-y-0.5 p-1 -mx-1 rounded-lg transition-colors text-left",
-              "hover:bg-muted/50",
-              isSelected && "bg-muted ring-1 ring-primary/20"
-            )}
-          >
-            <div className="flex items-center justify-between text-xs">
-              <div className="flex items-center gap-1.5">
-                <span style={{ color: isSelected ? color : undefined }}>
-                  <Icon className="h-3.5 w-3.5" />
-                </span>
-                <span className={cn(isSelected && "font-medium")}>{categoryName}</span>
-                {isSelected && (
-                  <MapPin className="h-3 w-3 text-muted-foreground" />
-                )}
+    <div>
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <button
+              onClick={onSelect}
+              className={cn(
+                "w-full space-y-0.5 p-1 -mx-1 rounded-lg transition-colors text-left",
+                "hover:bg-muted/50",
+                isSelected && "bg-muted ring-1 ring-primary/20"
+              )}
+            >
+              <div className="flex items-center justify-between text-xs">
+                <div className="flex items-center gap-1.5">
+                  <span style={{ color: isSelected ? color : undefined }}>
+                    <Icon className="h-3.5 w-3.5" />
+                  </span>
+                  <span className={cn(isSelected && "font-medium")}>{categoryName}</span>
+                  {isSelected && (
+                    <MapPin className="h-3 w-3 text-muted-foreground" />
+                  )}
+                </div>
+                <span className="font-medium">{category.score}</span>
               </div>
-              <span className="font-medium">{category.score}</span>
-            </div>
-            <Progress
-              value={category.score}
-              className="h-1"
-              style={{ "--progress-color": barColor } as React.CSSProperties}
-            />
-          </button>
-        </TooltipTrigger>
-        <TooltipContent side="right" className="max-w-xs">
-          <div className="space-y-1 text-xs">
-            <p className="font-medium">Click to show on map</p>
-            <p>
-              {t("details.count", {
-                count: category.count,
-                radius: category.radius,
-              })}
-            </p>
-            {category.nearestDistance && (
+              <Progress
+                value={category.score}
+                className="h-1"
+                style={{ "--progress-color": barColor } as React.CSSProperties}
+              />
+            </button>
+          </TooltipTrigger>
+          <TooltipContent side="right" className="max-w-xs">
+            <div className="space-y-1 text-xs">
+              <p className="font-medium">Click to show on map</p>
               <p>
-                {t("details.nearestDistance", {
-                  distance: Math.round(category.nearestDistance),
+                {t("details.count", {
+                  count: category.count,
+                  radius: category.radius,
                 })}
               </p>
-            )}
-          </div>
-        </TooltipContent>
-      </Tooltip>
-    </TooltipProvider>
+              {category.nearestDistance && (
+                <p>
+                  {t("details.nearestDistance", {
+                    distance: Math.round(category.nearestDistance),
+                  })}
+                </p>
+              )}
+            </div>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+
+      {/* Score breakdown for the selected category */}
+      {isSelected && category.breakdown && (
+        <div className="pb-1">
+          <button
+            onClick={() => setExplainExpanded(!explainExpanded)}
+            className="flex items-center gap-0.5 text-[10px] text-muted-foreground hover:text-foreground transition-colors"
+          >
+            {t("explain.trigger")}
+            <ChevronDown
+              className={cn("h-3 w-3 transition-transform", explainExpanded && "rotate-180")}
+            />
+          </button>
+          {explainExpanded && (
+            <BreakdownDetails breakdown={category.breakdown} score={category.score} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BreakdownRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-2">
+      <span>{label}</span>
+      <span className="font-medium tabular-nums">{value}</span>
+    </div>
+  );
+}
+
+function BreakdownDetails({ breakdown, score }: { breakdown: ScoreBreakdown; score: number }) {
+  const t = useTranslations("score");
+
+  if (breakdown.method === "commute") {
+    return (
+      <div className="mt-1 space-y-0.5 rounded-md bg-muted/50 p-1.5 text-[10px] text-muted-foreground">
+        {breakdown.anchors?.map((anchor, index) => (
+          <BreakdownRow
+            key={index}
+            label={t("explain.anchor", {
+              kind: t(`commute.kinds.${anchor.kind}` as Parameters<typeof t>[0]),
+              distance: anchor.distance,
+            })}
+            value={String(anchor.score)}
+          />
+        ))}
+        <p className="pt-0.5 border-t">{t("explain.commute", { score })}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-1 space-y-0.5 rounded-md bg-muted/50 p-1.5 text-[10px] text-muted-foreground">
+      <BreakdownRow
+        label={
+          breakdown.method === "frequency"
+            ? t("explain.frequency", { count: breakdown.effectiveCount })
+            : t("explain.count", { count: breakdown.effectiveCount })
+        }
+        value={`${breakdown.countScore} / 60`}
+      />
+      <BreakdownRow label={t("explain.distance")} value={`${breakdown.distanceScore} / 25`} />
+      <BreakdownRow
+        label={breakdown.method === "subTypes" ? t("explain.diversity") : t("explain.density")}
+        value={`${breakdown.bonus} / 15`}
+      />
+      {breakdown.subTypes && breakdown.subTypes.length > 0 && (
+        <p>
+          {t("explain.subTypes", {
+            types: breakdown.subTypes
+              .map((st) => `${t(`explain.subTypeNames.${st.id}` as Parameters<typeof t>[0])} (${st.count})`)
+              .join(", "),
+          })}
+        </p>
+      )}
+      <div className="pt-0.5 border-t">
+        <BreakdownRow label={t("explain.raw")} value={String(breakdown.raw)} />
+      </div>
+      <p>
+        {breakdown.minCountPenalty
+          ? t("explain.penalty", { score })
+          : breakdown.raw > 60
+            ? t("explain.compressed", { score })
+            : t("explain.linear", { score })}
+      </p>
+    </div>
   );
 }
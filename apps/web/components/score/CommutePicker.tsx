@@ -0,0 +1,85 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { X } from "lucide-react";
+import { ANCHOR_KINDS, MAX_ANCHORS, type CommuteSettings } from "@/lib/score/commute";
+import type { AnchorKind } from "@/lib/score/types";
+
+interface CommutePickerProps {
+  commute: CommuteSettings | null;
+  onChange: (commute: CommuteSettings | null) => void;
+  /** Anchor kind waiting for a map click or search result */
+  placing: AnchorKind | null;
+  onPlace: (kind: AnchorKind | null) => void;
+}
+
+export function CommutePicker({ commute, onChange, placing, onPlace }: CommutePickerProps) {
+  const t = useTranslations("score");
+  const anchors = commute?.anchors ?? [];
+
+  const removeAnchor = (index: number) => {
+    const remaining = anchors.filter((_, i) => i !== index);
+    onChange(remaining.length > 0 ? { anchors: remaining, blend: commute!.blend } : null);
+  };
+
+  return (
+    <div className="space-y-1">
+      <span className="text-xs font-medium">{t("commute.title")}</span>
+
+      {anchors.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {anchors.map((anchor, index) => (
+            <span
+              key={`${anchor.kind}-${anchor.lat}-${anchor.lng}`}
+              className="inline-flex items-center gap-1 rounded-full border border-primary bg-primary/10 px-2 py-0.5 text-[10px]"
+            >
+              {t(`commute.kinds.${anchor.kind}`)}
+              <button
+                onClick={() => removeAnchor(index)}
+                className="text-muted-foreground hover:text-foreground"
+                aria-label={t("commute.remove")}
+              >
+                <X className="h-2.5 w-2.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {placing ? (
+        <div className="flex items-center justify-between gap-2 text-[10px] text-muted-foreground">
+          <span>{t("commute.placeHint", { kind: t(`commute.kinds.${placing}`) })}</span>
+          <button onClick={() => onPlace(null)} className="underline hover:text-foreground">
+            {t("commute.cancel")}
+          </button>
+        </div>
+      ) : (
+        anchors.length < MAX_ANCHORS && (
+          <div className="flex flex-wrap gap-1">
+            {ANCHOR_KINDS.map((kind) => (
+              <button
+                key={kind}
+                onClick={() => onPlace(kind)}
+                className="rounded-full border border-dashed px-2 py-0.5 text-[10px] transition-colors hover:bg-muted/50"
+              >
+                + {t(`commute.kinds.${kind}`)}
+              </button>
+            ))}
+          </div>
+        )
+      )}
+
+      {commute && (
+        <label className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={commute.blend}
+            onChange={(e) => onChange({ ...commute, blend: e.target.checked })}
+            className="h-3 w-3 accent-primary"
+          />
+          {t("commute.blend")}
+        </label>
+      )}
+    </div>
+  );
+}
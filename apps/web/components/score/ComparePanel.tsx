@@ -0,0 +1,266 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { X, Columns2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { comparePinColors, comparePinLabel, scoreToColor } from "./CategoryScore";
+import { ProfilePicker } from "./ProfilePicker";
+import { CatchmentPicker } from "./CatchmentPicker";
+import { ShareButton } from "@/components/share/ShareButton";
+import { CompareShareModal } from "@/components/share/CompareShareModal";
+import { encodeProfile, type ScoringProfile } from "@/lib/score/profiles";
+import { formatIsochrone } from "@/lib/distance/isochrone";
+import { encodeCommute, type CommuteSettings } from "@/lib/score/commute";
+import { COMPARE_LOCATIONS } from "@/lib/url";
+import { cn } from "@/lib/utils";
+import type { IsochroneSpec } from "@/lib/distance/types";
+import type { SelectedLocation } from "@/components/map/MapContainer";
+import type { ScoreResult } from "@/lib/score/types";
+
+interface ComparePanelProps {
+  locations: SelectedLocation[];
+  onRemove: (index: number) => void;
+  onClose: () => void;
+  profile: ScoringProfile | null;
+  onProfileChange: (profile: ScoringProfile | null) => void;
+  isochrone: IsochroneSpec | null;
+  onIsochroneChange: (isochrone: IsochroneSpec | null) => void;
+  /** Commute anchors from the score panel, applied to every pin */
+  commute: CommuteSettings | null;
+}
+
+function scoreKey(location: SelectedLocation, settings: URLSearchParams): string {
+  return `${location.lat},${location.lng}|${settings}`;
+}
+
+function Delta({ value }: { value: number }) {
+  return (
+    <span
+      className={cn(
+        "text-[10px] font-medium",
+        value > 0 ? "text-green-600" : value < 0 ? "text-red-600" : "text-muted-foreground"
+      )}
+    >
+      {value > 0 ? `+${value}` : value === 0 ? "±0" : value}
+    </span>
+  );
+}
+
+/**
+ * Scores of 2-4 pinned locations side by side, with deltas against the first one
+ */
+export function ComparePanel({
+  locations,
+  onRemove,
+  onClose,
+  profile,
+  onProfileChange,
+  isochrone,
+  onIsochroneChange,
+  commute,
+}: ComparePanelProps) {
+  const t = useTranslations("compare");
+  const tScore = useTranslations("score");
+  // Scores by location and settings; null when the request failed
+  const [results, setResults] = useState<Record<string, ScoreResult | null>>({});
+  const [shareModalOpen, setShareModalOpen] = useState(false);
+  // Requests already sent, so adding a pin doesn't refetch the others
+  const requestedRef = useRef(new Set<string>());
+
+  const profileParam = profile ? encodeProfile(profile) : null;
+  const isochroneParam = isochrone ? formatIsochrone(isochrone) : null;
+  const commuteParam = commute ? encodeCommute(commute) : null;
+  const settings = useMemo(() => {
+    const query = new URLSearchParams();
+    if (profileParam) query.set("profile", profileParam);
+    if (isochroneParam) query.set("isochrone", isochroneParam);
+    if (commuteParam) query.set("commute", commuteParam);
+    return query;
+  }, [profileParam, isochroneParam, commuteParam]);
+
+  useEffect(() => {
+    for (const location of locations) {
+      const key = scoreKey(location, settings);
+      if (requestedRef.current.has(key)) continue;
+      requestedRef.current.add(key);
+
+      const query = new URLSearchParams(settings);
+      query.set("lat", String(location.lat));
+      query.set("lng", String(location.lng));
+
+      fetch(`/api/score?${query}`)
+        .then((response) => {
+          if (!response.ok) throw new Error("Failed to fetch score");
+          return response.json() as Promise<ScoreResult>;
+        })
+        .then((score) => setResults((prev) => ({ ...prev, [key]: score })))
+        .catch((err) => {
+          console.error("Compare score fetch error:", err);
+          setResults((prev) => ({ ...prev, [key]: null }));
+        });
+    }
+  }, [locations, settings]);
+
+  const entries = useMemo(
+    () =>
+      locations.map((location) => ({
+        location,
+        score: results[scoreKey(location, settings)],
+      })),
+    [locations, results, settings]
+  );
+  // Stable while nothing changes, so the open share modal doesn't regenerate its preview
+  const scoredEntries = useMemo(
+    () =>
+      entries.filter((e): e is { location: SelectedLocation; score: ScoreResult } =>
+        Boolean(e.score)
+      ),
+    [entries]
+  );
+  const baseline = entries[0]?.score ?? null;
+  const categoryIds = entries.find((e) => e.score)?.score?.categories.map((c) => c.id) ?? [];
+
+  const renderCell = (score: ScoreResult | null | undefined, index: number, categoryId?: string) => {
+    if (score === undefined) return <Skeleton className="h-4 w-8 mx-auto" />;
+    if (score === null) return <span className="text-xs text-muted-foreground">–</span>;
+
+    const category = categoryId ? score.categories.find((c) => c.id === categoryId) : null;
+    const value = categoryId ? category?.score ?? 0 : score.overall;
+    const baselineValue = categoryId
+      ? baseline?.categories.find((c) => c.id === categoryId)?.score
+      : baseline?.overall;
+
+    return (
+      <div className="flex flex-col items-center leading-tight">
+        <span className="text-sm font-semibold" style={{ color: scoreToColor(value) }}>
+          {value}
+        </span>
+        {index > 0 && baselineValue !== undefined && <Delta value={value - baselineValue} />}
+        {category && (
+          <span className="text-[10px] text-muted-foreground">
+            {category.nearestDistance !== null
+              ? t("distance", { distance: Math.round(category.nearestDistance) })
+              : t("noneNearby")}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <Card className="absolute top-4 left-4 z-10 w-[calc(100%-2rem)] max-w-xl max-h-[calc(100%-2rem)] overflow-y-auto shadow-xl">
+        <CardHeader className="py-2 px-3">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0 flex-1">
+              <CardTitle className="text-sm flex items-center gap-1.5">
+                <Columns2 className="h-3.5 w-3.5" />
+                {t("title")}
+              </CardTitle>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                {locations.length < COMPARE_LOCATIONS.max
+                  ? t("addHint", { count: locations.length, max: COMPARE_LOCATIONS.max })
+                  : t("fullHint", { max: COMPARE_LOCATIONS.max })}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 shrink-0"
+              onClick={onClose}
+              aria-label={t("exit")}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0 pb-2 px-3">
+          <div className="pb-2 mb-2 border-b space-y-2">
+            <ProfilePicker profile={profile} onChange={onProfileChange} />
+            <CatchmentPicker isochrone={isochrone} onChange={onIsochroneChange} />
+          </div>
+
+          {locations.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-2">{t("empty")}</p>
+          ) : (
+            <table className="w-full table-fixed text-xs">
+              <thead>
+                <tr>
+                  <th className="w-28" />
+                  {locations.map((location, index) => (
+                    <th key={`${location.lat},${location.lng}`} className="px-1 pb-2 font-normal align-top">
+                      <div className="flex items-center justify-center gap-1">
+                        <span
+                          className="inline-flex h-5 w-5 items-center justify-center rounded-full text-[10px] font-bold text-white"
+                          style={{ backgroundColor: comparePinColors[index] }}
+                        >
+                          {comparePinLabel(index)}
+                        </span>
+                        <button
+                          onClick={() => onRemove(index)}
+                          className="text-muted-foreground hover:text-foreground"
+                          aria-label={t("remove", { label: comparePinLabel(index) })}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </div>
+                      <p className="mt-0.5 text-[10px] text-muted-foreground line-clamp-2">
+                        {location.address ?? `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`}
+                      </p>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-t">
+                  <td className="py-1.5 font-medium">{tScore("overall")}</td>
+                  {entries.map((entry, index) => (
+                    <td key={index} className="py-1.5 text-center">
+                      {renderCell(entry.score, index)}
+                    </td>
+                  ))}
+                </tr>
+                {categoryIds.map((categoryId) => (
+                  <tr key={categoryId} className="border-t">
+                    <td className="py-1.5 pr-1 truncate">
+                      {tScore(`categories.${categoryId}` as Parameters<typeof tScore>[0])}
+                    </td>
+                    {entries.map((entry, index) => (
+                      <td key={index} className="py-1.5 text-center">
+                        {renderCell(entry.score, index, categoryId)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {locations.length > 1 && (
+            <p className="text-[10px] text-muted-foreground mt-1">{t("deltaHint")}</p>
+          )}
+
+          {/* Share CTA */}
+          {scoredEntries.length >= COMPARE_LOCATIONS.min && (
+            <div className="pt-3 mt-2 border-t">
+              <ShareButton onClick={() => setShareModalOpen(true)} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Share Modal */}
+      {scoredEntries.length >= COMPARE_LOCATIONS.min && (
+        <CompareShareModal
+          open={shareModalOpen}
+          onOpenChange={setShareModalOpen}
+          entries={scoredEntries}
+          urlParams={{ profile: profileParam, isochrone: isochroneParam, commute: commuteParam }}
+        />
+      )}
+    </>
+  );
+}
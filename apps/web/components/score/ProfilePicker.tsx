@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { SlidersHorizontal } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  PROFILE_IDS,
+  PROFILE_LIMITS,
+  getProfile,
+  resolveCategories,
+  type CategoryOverride,
+  type ProfileId,
+  type ScoringProfile,
+} from "@/lib/score/profiles";
+
+interface ProfilePickerProps {
+  profile: ScoringProfile | null;
+  onChange: (profile: ScoringProfile | null) => void;
+}
+
+// Wait for the user to stop dragging before refetching the score
+const COMMIT_DELAY_MS = 400;
+
+export function ProfilePicker({ profile, onChange }: ProfilePickerProps) {
+  const t = useTranslations("score");
+  const [expanded, setExpanded] = useState(false);
+  const [draft, setDraft] = useState<ScoringProfile | null>(profile);
+  const commitTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Keep draft in sync when the profile changes from outside (URL, history)
+  useEffect(() => {
+    setDraft(profile);
+  }, [profile]);
+
+  useEffect(() => {
+    return () => {
+      if (commitTimeoutRef.current) clearTimeout(commitTimeoutRef.current);
+    };
+  }, []);
+
+  const selectProfile = (id: ProfileId | "default") => {
+    if (commitTimeoutRef.current) clearTimeout(commitTimeoutRef.current);
+    const next = id === "default" ? null : getProfile(id);
+    setDraft(next);
+    onChange(next);
+    if (id === "custom") setExpanded(true);
+  };
+
+  // Tweaking any value turns the current profile into a custom one
+  const updateCategory = (categoryId: string, change: CategoryOverride) => {
+    const overrides = { ...(draft?.overrides ?? {}) };
+    overrides[categoryId] = { ...overrides[categoryId], ...change };
+    const next: ScoringProfile = { id: "custom", overrides };
+    setDraft(next);
+
+    if (commitTimeoutRef.current) clearTimeout(commitTimeoutRef.current);
+    commitTimeoutRef.current = setTimeout(() => onChange(next), COMMIT_DELAY_MS);
+  };
+
+  const activeId = draft?.id ?? "default";
+  const resolved = resolveCategories(draft);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium">{t("profile.title")}</span>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className={cn(
+            "flex items-center gap-1 text-[10px] text-muted-foreground hover:text-foreground transition-colors",
+            expanded && "text-foreground"
+          )}
+        >
+          <SlidersHorizontal className="h-3 w-3" />
+          {t("profile.customize")}
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {(["default", ...PROFILE_IDS] as const).map((id) => (
+          <button
+            key={id}
+            onClick={() => selectProfile(id)}
+            className={cn(
+              "rounded-full border px-2 py-0.5 text-[10px] transition-colors",
+              activeId === id
+                ? "border-primary bg-primary text-primary-foreground"
+                : "border-border hover:bg-muted/50"
+            )}
+          >
+            {t(`profile.names.${id}`)}
+          </button>
+        ))}
+      </div>
+
+      {expanded && (
+        <div className="space-y-1.5 pt-1">
+          {resolved.map((category) => (
+            <div key={category.id} className="space-y-0.5">
+              <div className="flex items-center justify-between text-[10px]">
+                <span>{t(`categories.${category.id}` as Parameters<typeof t>[0])}</span>
+                <span className="text-muted-foreground">
+                  {t("profile.values", { weight: category.weight, radius: category.radius })}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="range"
+                  aria-label={t("profile.weight")}
+                  min={PROFILE_LIMITS.weight.min}
+                  max={PROFILE_LIMITS.weight.max}
+                  step={0.1}
+                  value={category.weight}
+                  onChange={(e) => updateCategory(category.id, { weight: parseFloat(e.target.value) })}
+                  className="h-1 flex-1 accent-primary"
+                />
+                <input
+                  type="range"
+                  aria-label={t("profile.radius")}
+                  min={PROFILE_LIMITS.radius.min}
+                  max={PROFILE_LIMITS.radius.max}
+                  step={100}
+                  value={category.radius}
+                  onChange={(e) => updateCategory(category.id, { radius: parseInt(e.target.value, 10) })}
+                  className="h-1 flex-1 accent-primary"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useMemo, useRef } from "react";
 import { useTranslations, useLocale } from "next-intl";
-import { X, MapPin } from "lucide-react";
+import { X, MapPin, TriangleAlert } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
@@ -10,17 +10,39 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { CategoryScore, scoreToColor } from "./CategoryScore";
 import { ScoreSkeleton } from "./ScoreSkeleton";
 import { BadgeDisplay } from "./BadgeDisplay";
+import { ProfilePicker } from "./ProfilePicker";
+import { CatchmentPicker } from "./CatchmentPicker";
+import { CommutePicker } from "./CommutePicker";
+import { TimePicker } from "./TimePicker";
+import { SuggestionList } from "./SuggestionList";
 import { ShareButton } from "@/components/share/ShareButton";
 import { ShareModal } from "@/components/share/ShareModal";
 import { evaluateBadge } from "@/lib/badges";
+import { encodeProfile, type ScoringProfile } from "@/lib/score/profiles";
+import { formatIsochrone } from "@/lib/distance/isochrone";
+import { encodeCommute, type CommuteSettings } from "@/lib/score/commute";
+import { topSuggestions } from "@/lib/score/suggestions";
+import type { ScoreTimePreset } from "@/lib/score/opening-hours";
+import type { Catchment, IsochroneSpec } from "@/lib/distance/types";
 import type { SelectedLocation } from "@/components/map/MapContainer";
-import type { ScoreResult, POIResult } from "@/lib/score/types";
+import type { AnchorKind, ScoreResult, POIResult } from "@/lib/score/types";
 
 interface ScorePanelProps {
   location: SelectedLocation | null;
   onClose: () => void;
   selectedCategoryId?: string;
   onCategorySelect: (categoryId: string, pois: POIResult[]) => void;
+  profile: ScoringProfile | null;
+  onProfileChange: (profile: ScoringProfile | null) => void;
+  isochrone: IsochroneSpec | null;
+  onIsochroneChange: (isochrone: IsochroneSpec | null) => void;
+  commute: CommuteSettings | null;
+  onCommuteChange: (commute: CommuteSettings | null) => void;
+  /** Anchor kind waiting to be placed on the map */
+  placingAnchor: AnchorKind | null;
+  onPlaceAnchor: (kind: AnchorKind | null) => void;
+  /** Reports the catchment polygon of the loaded score so the map can draw it */
+  onCatchmentChange: (catchment: Catchment | null) => void;
 }
 
 export function ScorePanel({
@@ -28,6 +50,15 @@ export function ScorePanel({
   onClose,
   selectedCategoryId,
   onCategorySelect,
+  profile,
+  onProfileChange,
+  isochrone,
+  onIsochroneChange,
+  commute,
+  onCommuteChange,
+  placingAnchor,
+  onPlaceAnchor,
+  onCatchmentChange,
 }: ScorePanelProps) {
   const t = useTranslations("score");
   const tVibe = useTranslations("vibe");
@@ -40,6 +71,12 @@ export function ScorePanel({
   const [vibeComment, setVibeComment] = useState<string | null>(null);
   const [vibeLoading, setVibeLoading] = useState(false);
   const [disclaimerExpanded, setDisclaimerExpanded] = useState(false);
+  // Opening-hours view ("what's open on Sunday"), not part of the shared link
+  const [at, setAt] = useState<ScoreTimePreset | null>(null);
+
+  const profileParam = profile ? encodeProfile(profile) : null;
+  const isochroneParam = isochrone ? formatIsochrone(isochrone) : null;
+  const commuteParam = commute ? encodeCommute(commute) : null;
 
   // Evaluate badge when score changes
   const badge = useMemo(() => {
@@ -47,6 +84,8 @@ export function ScorePanel({
     return evaluateBadge(score);
   }, [score]);
 
+  const suggestions = useMemo(() => (score ? topSuggestions(score) : []), [score]);
+
   // AbortController refs to cancel in-flight requests
   const scoreAbortControllerRef = useRef<AbortController | null>(null);
   const vibeAbortControllerRef = useRef<AbortController | null>(null);
@@ -59,6 +98,7 @@ export function ScorePanel({
       setScore(null);
       setIsLoading(false);
       setVibeComment(null);
+      onCatchmentChange(null);
       return;
     }
 
@@ -70,8 +110,19 @@ export function ScorePanel({
       setVibeComment(null);
 
       try {
+        // Breakdowns feed "how was this calculated", suggestions "what would raise it"
+        const query = new URLSearchParams({
+          lat: String(location.lat),
+          lng: String(location.lng),
+          explain: "1",
+          suggest: "1",
+        });
+        if (profileParam) query.set("profile", profileParam);
+        if (isochroneParam) query.set("isochrone", isochroneParam);
+        if (commuteParam) query.set("commute", commuteParam);
+        if (at) query.set("at", at);
         const response = await fetch(
-          `/api/score?lat=${location.lat}&lng=${location.lng}`,
+          `/api/score?${query}`,
           { signal: scoreAbortControllerRef.current!.signal }
         );
 
@@ -79,14 +130,16 @@ export function ScorePanel({
           throw new Error("Failed to fetch score");
         }
 
-        const data = await response.json();
+        const data: ScoreResult = await response.json();
         setScore(data);
+        onCatchmentChange(data.catchment ?? null);
         setIsLoading(false);
       } catch (err) {
         if ((err as Error)?.name === "AbortError") {
           return; // Silently ignore aborted requests - don't touch loading state
         }
         setError(err instanceof Error ? err.message : "Unknown error");
+        onCatchmentChange(null);
         setIsLoading(false);
       }
     };
@@ -96,9 +149,9 @@ export function ScorePanel({
     return () => {
       scoreAbortControllerRef.current?.abort();
     };
-    // Only refetch when coordinates change, not when address is added
+    // Only refetch when coordinates or score settings change, not when address is added
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [location?.lat, location?.lng]);
+  }, [location?.lat, location?.lng, profileParam, isochroneParam, commuteParam, at]);
 
   // Fetch vibe comment when score is available
   useEffect(() => {
@@ -195,6 +248,17 @@ export function ScorePanel({
           </div>
         </CardHeader>
         <CardContent className="pt-0 pb-2 px-3">
+          <div className="pb-2 mb-2 border-b space-y-2">
+            <ProfilePicker profile={profile} onChange={onProfileChange} />
+            <CatchmentPicker isochrone={isochrone} onChange={onIsochroneChange} />
+            <CommutePicker
+              commute={commute}
+              onChange={onCommuteChange}
+              placing={placingAnchor}
+              onPlace={onPlaceAnchor}
+            />
+            <TimePicker at={at} onChange={setAt} />
+          </div>
           {isLoading ? (
             <ScoreSkeleton />
           ) : error ? (
@@ -212,6 +276,12 @@ export function ScorePanel({
                   className="h-2"
                   style={{ "--progress-color": scoreToColor(score.overall) } as React.CSSProperties}
                 />
+                {score.dataQuality?.low && (
+                  <p className="flex items-start gap-1 text-[10px] text-amber-600">
+                    <TriangleAlert className="h-3 w-3 shrink-0 mt-px" />
+                    {t("lowConfidence")}
+                  </p>
+                )}
               </div>
 
               {/* Badge */}
@@ -244,6 +314,13 @@ export function ScorePanel({
                 ))}
               </div>
 
+              {/* Improvement suggestions */}
+              {suggestions.length > 0 && (
+                <div className="pt-2 border-t">
+                  <SuggestionList suggestions={suggestions} />
+                </div>
+              )}
+
               {/* Share CTA */}
               <div className="pt-3 mt-2 border-t">
                 <ShareButton
@@ -290,6 +367,8 @@ export function ScorePanel({
           lat={location.lat}
           lng={location.lng}
           address={location.address}
+          addressParts={location.addressParts}
+          urlParams={{ profile: profileParam, isochrone: isochroneParam, commute: commuteParam }}
         />
       )}
     </>
@@ -0,0 +1,61 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { TrendingUp } from "lucide-react";
+import type { RankedSuggestion } from "@/lib/score/suggestions";
+
+interface SuggestionListProps {
+  suggestions: RankedSuggestion[];
+}
+
+/**
+ * "What's missing": the changes nearby that would raise the score most
+ */
+export function SuggestionList({ suggestions }: SuggestionListProps) {
+  const t = useTranslations("score");
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <span className="flex items-center gap-1 text-xs font-medium">
+        <TrendingUp className="h-3.5 w-3.5" />
+        {t("suggestions.title")}
+      </span>
+      <ul className="space-y-0.5 text-[10px] text-muted-foreground">
+        {suggestions.map((suggestion) => {
+          const category = t(`categories.${suggestion.categoryId}` as Parameters<typeof t>[0]);
+          const text =
+            suggestion.kind === "closer"
+              ? t("suggestions.closer", {
+                  category,
+                  distance: suggestion.distance,
+                  gain: suggestion.categoryGain,
+                })
+              : t("suggestions.add", {
+                  place: suggestion.subType
+                    ? t(`suggestions.subTypes.${suggestion.subType}` as Parameters<typeof t>[0])
+                    : t("suggestions.place"),
+                  category,
+                  distance: suggestion.distance,
+                  gain: suggestion.categoryGain,
+                });
+
+          return (
+            <li
+              key={`${suggestion.categoryId}-${suggestion.kind}`}
+              className="flex justify-between gap-2"
+            >
+              <span>{text}</span>
+              {suggestion.overallGain > 0 && (
+                <span className="shrink-0 font-medium text-green-600">
+                  {t("suggestions.overall", { gain: suggestion.overallGain })}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
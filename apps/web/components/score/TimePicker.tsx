@@ -0,0 +1,39 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { cn } from "@/lib/utils";
+import type { ScoreTimePreset } from "@/lib/score/opening-hours";
+
+interface TimePickerProps {
+  at: ScoreTimePreset | null;
+  onChange: (at: ScoreTimePreset | null) => void;
+}
+
+// null = every POI counts regardless of opening hours
+const OPTIONS: (ScoreTimePreset | null)[] = [null, "sunday", "late-night"];
+
+export function TimePicker({ at, onChange }: TimePickerProps) {
+  const t = useTranslations("score");
+
+  return (
+    <div className="space-y-1">
+      <span className="text-xs font-medium">{t("time.title")}</span>
+      <div className="flex flex-wrap gap-1">
+        {OPTIONS.map((option) => (
+          <button
+            key={option ?? "anytime"}
+            onClick={() => onChange(option)}
+            className={cn(
+              "rounded-full border px-2 py-0.5 text-[10px] transition-colors",
+              at === option
+                ? "border-primary bg-primary text-primary-foreground"
+                : "border-border hover:bg-muted/50"
+            )}
+          >
+            {t(`time.${option ?? "anytime"}`)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
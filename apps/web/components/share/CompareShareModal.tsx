@@ -0,0 +1,213 @@
+"use client";
+
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import { Link2, Download, Share, Check, Loader2 } from "lucide-react";
+import { toPng } from "html-to-image";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ShareCardCompare, type CompareShareEntry } from "./styles";
+import { useShareImage } from "./useShareImage";
+import { copyToClipboard } from "./clipboard";
+import { COMPARE_STYLE } from "./styleConfigs";
+import { parseLocationDisplay } from "./useLocationDisplay";
+import { getShareableCompareUrl, type LocationUrlParams } from "@/lib/url";
+import type { SelectedLocation } from "@/components/map/MapContainer";
+import type { ScoreResult } from "@/lib/score/types";
+
+interface CompareShareModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Pinned locations with their scores, in pin order */
+  entries: { location: SelectedLocation; score: ScoreResult }[];
+  /** Score settings (profile, isochrone) kept in the shared link */
+  urlParams?: LocationUrlParams;
+}
+
+export function CompareShareModal({
+  open,
+  onOpenChange,
+  entries,
+  urlParams,
+}: CompareShareModalProps) {
+  const t = useTranslations("share");
+  const tCompare = useTranslations("compare");
+  const locale = useLocale();
+  const cardRef = useRef<HTMLDivElement>(null);
+  const [copied, setCopied] = useState(false);
+  const [previewDataUrl, setPreviewDataUrl] = useState<string | null>(null);
+  const [isGeneratingPreview, setIsGeneratingPreview] = useState(false);
+
+  const shareUrl = getShareableCompareUrl(
+    locale,
+    entries.map((e) => e.location),
+    urlParams
+  );
+  const cardEntries: CompareShareEntry[] = useMemo(
+    () =>
+      entries.map(({ location, score }) => ({
+        score,
+        location: parseLocationDisplay(
+          location.address,
+          location.lat,
+          location.lng,
+          location.addressParts
+        ),
+      })),
+    [entries]
+  );
+
+  const { isGenerating, downloadImage, generatePNG } = useShareImage({
+    cardRef,
+  });
+
+  // Generate preview when modal opens or the compared scores change
+  useEffect(() => {
+    if (!open) {
+      setPreviewDataUrl(null);
+      return;
+    }
+
+    const generatePreview = async () => {
+      // Wait for next tick to ensure card is rendered
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      if (!cardRef.current) return;
+
+      setIsGeneratingPreview(true);
+      try {
+        await document.fonts.ready;
+        const dataUrl = await toPng(cardRef.current, {
+          quality: 0.8,
+          pixelRatio: 1,
+        });
+        setPreviewDataUrl(dataUrl);
+      } catch (err) {
+        console.error("Failed to generate preview:", err);
+      } finally {
+        setIsGeneratingPreview(false);
+      }
+    };
+
+    generatePreview();
+  }, [open, cardEntries]);
+
+  const handleCopyLink = useCallback(async () => {
+    await copyToClipboard(shareUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }, [shareUrl]);
+
+  const handleDownload = useCallback(async () => {
+    await downloadImage(`nearbyindex-compare-${entries.length}.png`);
+  }, [downloadImage, entries.length]);
+
+  const handleNativeShare = useCallback(async () => {
+    if (!navigator.share) return;
+
+    const text = cardEntries
+      .map(({ location, score }) => `${location.primary}: ${score.overall}`)
+      .join(" vs ");
+
+    try {
+      const dataUrl = await generatePNG();
+      if (dataUrl) {
+        const response = await fetch(dataUrl);
+        const blob = await response.blob();
+        const file = new File([blob], "nearbyindex-compare.png", {
+          type: "image/png",
+        });
+
+        if (navigator.canShare?.({ files: [file] })) {
+          await navigator.share({ title: "NearbyIndex Comparison", text, url: shareUrl, files: [file] });
+          return;
+        }
+      }
+
+      // Fallback to URL-only share
+      await navigator.share({ title: "NearbyIndex Comparison", text, url: shareUrl });
+    } catch (err) {
+      // User cancelled or share failed - ignore
+      if (err instanceof Error && err.name !== "AbortError") {
+        console.error("Share failed:", err);
+      }
+    }
+  }, [generatePNG, shareUrl, cardEntries]);
+
+  const supportsNativeShare =
+    typeof navigator !== "undefined" && !!navigator.share;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{tCompare("shareTitle")}</DialogTitle>
+          <DialogDescription>{t("downloadHint")}</DialogDescription>
+        </DialogHeader>
+
+        {/* Preview - shows generated image */}
+        <div
+          className="relative rounded-lg border overflow-hidden bg-muted flex items-center justify-center"
+          style={{ aspectRatio: COMPARE_STYLE.aspectRatio }}
+        >
+          {previewDataUrl ? (
+            <img src={previewDataUrl} alt="Preview" className="object-contain w-full h-full" />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </div>
+
+        {/* Hidden full-size card for generation */}
+        <div style={{ position: "fixed", left: "-9999px", top: 0 }}>
+          <ShareCardCompare ref={cardRef} entries={cardEntries} shareUrl={shareUrl} />
+        </div>
+
+        {/* Actions */}
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button variant="outline" className="flex-1" onClick={handleCopyLink}>
+            {copied ? (
+              <>
+                <Check className="mr-2 h-4 w-4" />
+                {t("copied")}
+              </>
+            ) : (
+              <>
+                <Link2 className="mr-2 h-4 w-4" />
+                {t("copyLink")}
+              </>
+            )}
+          </Button>
+
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={handleDownload}
+            disabled={isGenerating || isGeneratingPreview}
+          >
+            {isGenerating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            {t("download")}
+          </Button>
+
+          {supportsNativeShare && (
+            <Button className="flex-1" onClick={handleNativeShare}>
+              <Share className="mr-2 h-4 w-4" />
+              {t("nativeShare")}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -21,11 +21,14 @@ import {
   ShareCardDark,
 } from "./styles";
 import { useShareImage } from "./useShareImage";
-import { getShareableUrl } from "@/lib/url";
+import { copyToClipboard } from "./clipboard";
+import { getShareableUrl, type LocationUrlParams } from "@/lib/url";
 import { SHARE_STYLES, DEFAULT_STYLE, type ShareStyleId } from "./styleConfigs";
 import { parseLocationDisplay } from "./useLocationDisplay";
 import { evaluateBadge } from "@/lib/badges";
+import { COMMUTE_CATEGORY_ID } from "@/lib/score/commute";
 import type { ScoreResult } from "@/lib/score/types";
+import type { StructuredAddress } from "@/lib/providers/geocoding/types";
 
 interface ShareModalProps {
   open: boolean;
@@ -34,15 +37,21 @@ interface ShareModalProps {
   lat: number;
   lng: number;
   address?: string;
+  /** Structured address from the geocoder, preferred for the card's location label */
+  addressParts?: StructuredAddress;
+  /** Score settings (profile, isochrone) kept in the shared link */
+  urlParams?: LocationUrlParams;
 }
 
 export function ShareModal({
   open,
   onOpenChange,
-  score,
+  score: fullScore,
   lat,
   lng,
   address,
+  addressParts,
+  urlParams,
 }: ShareModalProps) {
   const t = useTranslations("share");
   const tBadges = useTranslations("badges");
@@ -54,10 +63,19 @@ export function ShareModal({
   const [isGeneratingPreview, setIsGeneratingPreview] = useState(false);
   const [vibeComment, setVibeComment] = useState<string | null>(null);
 
-  const shareUrl = getShareableUrl(locale, lat, lng);
-  const location = parseLocationDisplay(address, lat, lng);
+  const shareUrl = getShareableUrl(locale, lat, lng, urlParams);
+  const location = parseLocationDisplay(address, lat, lng, addressParts);
   const styleConfig = SHARE_STYLES[selectedStyle];
 
+  // Commute depends on the sharer's own anchors and the card grids fit 8 categories
+  const score = useMemo(
+    () => ({
+      ...fullScore,
+      categories: fullScore.categories.filter((c) => c.id !== COMMUTE_CATEGORY_ID),
+    }),
+    [fullScore]
+  );
+
   // Evaluate badge
   const badge = useMemo(() => evaluateBadge(score), [score]);
   const badgeTitle = badge ? tBadges(badge.id.replace(/-/g, "_") as "perfect_spot") : null;
@@ -128,21 +146,9 @@ export function ShareModal({
   }, [open, selectedStyle, score, address, vibeComment, badge]);
 
   const handleCopyLink = useCallback(async () => {
-    try {
-      await navigator.clipboard.writeText(shareUrl);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    } catch {
-      // Fallback for browsers that don't support clipboard API
-      const textArea = document.createElement("textarea");
-      textArea.value = shareUrl;
-      document.body.appendChild(textArea);
-      textArea.select();
-      document.execCommand("copy");
-      document.body.removeChild(textArea);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    }
+    await copyToClipboard(shareUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
   }, [shareUrl]);
 
   const handleDownload = useCallback(async () => {
@@ -40,3 +40,11 @@ export const SHARE_STYLES: Record<ShareStyleId, ShareStyleConfig> = {
 };
 
 export const DEFAULT_STYLE: ShareStyleId = "social";
+
+// Card for compare mode; not offered in the style picker of single locations
+export const COMPARE_STYLE = {
+  name: "Compare",
+  width: 1200,
+  height: 630,
+  aspectRatio: "1200/630",
+};
@@ -0,0 +1,229 @@
+"use client";
+
+import { forwardRef } from "react";
+import { QRCodeCanvas } from "qrcode.react";
+import { MapPin } from "lucide-react";
+import type { ScoreResult } from "@/lib/score/types";
+import {
+  comparePinColors,
+  comparePinLabel,
+  scoreToColor,
+} from "@/components/score/CategoryScore";
+import type { ParsedLocation } from "../useLocationDisplay";
+
+export interface CompareShareEntry {
+  score: ScoreResult;
+  location: ParsedLocation;
+}
+
+interface ShareCardCompareProps {
+  entries: CompareShareEntry[];
+  shareUrl: string;
+}
+
+const categoryLabels: Record<string, string> = {
+  groceries: "Groceries",
+  restaurants: "Food",
+  transit: "Transit",
+  healthcare: "Health",
+  education: "Education",
+  parks: "Parks",
+  shopping: "Shopping",
+  entertainment: "Fun",
+};
+
+export const ShareCardCompare = forwardRef<HTMLDivElement, ShareCardCompareProps>(
+  function ShareCardCompare({ entries, shareUrl }, ref) {
+    const categoryIds = entries[0]?.score.categories.map((c) => c.id) ?? [];
+
+    // Best score per row, highlighted in every column that reaches it
+    const bestOverall = Math.max(...entries.map((e) => e.score.overall));
+    const bestByCategory: Record<string, number> = {};
+    for (const id of categoryIds) {
+      bestByCategory[id] = Math.max(
+        ...entries.map((e) => e.score.categories.find((c) => c.id === id)?.score ?? 0)
+      );
+    }
+
+    const containerStyle: React.CSSProperties = {
+      width: 1200,
+      height: 630,
+      background: "linear-gradient(135deg, #0f172a 0%, #1e293b 100%)",
+      padding: 40,
+      display: "flex",
+      flexDirection: "column",
+      fontFamily: "system-ui, -apple-system, sans-serif",
+      color: "#ffffff",
+      position: "relative",
+      overflow: "hidden",
+    };
+
+    const headerStyle: React.CSSProperties = {
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "space-between",
+      marginBottom: 20,
+    };
+
+    const logoStyle: React.CSSProperties = {
+      display: "flex",
+      alignItems: "center",
+      gap: 8,
+      fontSize: 24,
+      fontWeight: 700,
+      color: "#ffffff",
+    };
+
+    const titleStyle: React.CSSProperties = {
+      fontSize: 16,
+      fontWeight: 600,
+      color: "rgba(255, 255, 255, 0.7)",
+      letterSpacing: "0.05em",
+      textTransform: "uppercase",
+    };
+
+    const columnsStyle: React.CSSProperties = {
+      display: "grid",
+      gridTemplateColumns: `repeat(${entries.length}, 1fr)`,
+      gap: 16,
+      flex: 1,
+    };
+
+    const columnStyle = (index: number): React.CSSProperties => ({
+      background: "rgba(255, 255, 255, 0.06)",
+      borderRadius: 16,
+      borderTop: `4px solid ${comparePinColors[index]}`,
+      padding: "16px 20px",
+      display: "flex",
+      flexDirection: "column",
+      minWidth: 0,
+    });
+
+    const pinStyle = (index: number): React.CSSProperties => ({
+      width: 28,
+      height: 28,
+      borderRadius: "50%",
+      background: comparePinColors[index],
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      fontSize: 14,
+      fontWeight: 700,
+      flexShrink: 0,
+    });
+
+    const locationStyle: React.CSSProperties = {
+      fontSize: 16,
+      fontWeight: 600,
+      overflow: "hidden",
+      textOverflow: "ellipsis",
+      whiteSpace: "nowrap",
+    };
+
+    const overallStyle = (score: number): React.CSSProperties => ({
+      fontSize: 64,
+      fontWeight: 800,
+      lineHeight: 1,
+      color: scoreToColor(score),
+      margin: "12px 0 4px",
+    });
+
+    const rowStyle: React.CSSProperties = {
+      display: "flex",
+      justifyContent: "space-between",
+      fontSize: 14,
+      padding: "3px 0",
+      borderTop: "1px solid rgba(255, 255, 255, 0.08)",
+    };
+
+    const footerStyle: React.CSSProperties = {
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "space-between",
+      marginTop: 16,
+    };
+
+    const qrContainerStyle: React.CSSProperties = {
+      display: "flex",
+      alignItems: "center",
+      gap: 16,
+    };
+
+    const qrBoxStyle: React.CSSProperties = {
+      background: "#ffffff",
+      borderRadius: 8,
+      padding: 6,
+    };
+
+    const qrTextStyle: React.CSSProperties = {
+      fontSize: 14,
+      color: "rgba(255, 255, 255, 0.7)",
+    };
+
+    return (
+      <div ref={ref} style={containerStyle}>
+        <div style={headerStyle}>
+          <div style={logoStyle}>
+            <MapPin style={{ width: 28, height: 28 }} />
+            NearbyIndex
+          </div>
+          <div style={titleStyle}>Side by side</div>
+        </div>
+
+        <div style={columnsStyle}>
+          {entries.map(({ score, location }, index) => (
+            <div key={index} style={columnStyle(index)}>
+              <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
+                <div style={pinStyle(index)}>{comparePinLabel(index)}</div>
+                <div style={{ minWidth: 0 }}>
+                  <div style={locationStyle}>{location.primary}</div>
+                  {location.secondary && (
+                    <div style={{ ...locationStyle, fontSize: 12, fontWeight: 400, color: "rgba(255, 255, 255, 0.6)" }}>
+                      {location.secondary}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div style={overallStyle(score.overall)}>
+                {score.overall}
+                {score.overall === bestOverall && entries.length > 1 && (
+                  <span style={{ fontSize: 20, marginLeft: 8 }}>★</span>
+                )}
+              </div>
+
+              {score.categories.map((category) => {
+                const isBest = category.score === bestByCategory[category.id];
+                return (
+                  <div key={category.id} style={rowStyle}>
+                    <span style={{ color: "rgba(255, 255, 255, 0.7)" }}>
+                      {categoryLabels[category.id] || category.id}
+                    </span>
+                    <span
+                      style={{
+                        fontWeight: isBest ? 800 : 500,
+                        color: isBest ? scoreToColor(category.score) : "rgba(255, 255, 255, 0.85)",
+                      }}
+                    >
+                      {category.score}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        <div style={footerStyle}>
+          <div style={qrContainerStyle}>
+            <div style={qrBoxStyle}>
+              <QRCodeCanvas value={shareUrl} size={56} level="M" />
+            </div>
+            <div style={qrTextStyle}>Scan to compare</div>
+          </div>
+          <div style={qrTextStyle}>nearbyindex.com</div>
+        </div>
+      </div>
+    );
+  }
+);
@@ -2,3 +2,4 @@ export { ShareCardSocial } from "./ShareCardSocial";
 export { ShareCardPrint } from "./ShareCardPrint";
 export { ShareCardStory } from "./ShareCardStory";
 export { ShareCardDark } from "./ShareCardDark";
+export { ShareCardCompare, type CompareShareEntry } from "./ShareCardCompare";
@@ -1,3 +1,5 @@
+import type { StructuredAddress } from "@/lib/providers/geocoding/types";
+
 export interface ParsedLocation {
   primary: string; // e.g., "Mitte"
   secondary: string; // e.g., "Berlin, Germany"
@@ -12,11 +14,51 @@ function formatCoordinates(lat: number, lng: number): string {
   return `${Math.abs(lat).toFixed(2)}°${latDir}, ${Math.abs(lng).toFixed(2)}°${lngDir}`;
 }
 
+/** English country name for an ISO code ("DE" → "Germany"); share cards are in English */
+function countryName(code: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "region" }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
 /**
- * Parse an address string into primary (neighborhood) and secondary (city, country) parts.
+ * Primary and secondary parts from a structured address: the neighbourhood
+ * (or street) first, then city and country. Null when there is nothing to show.
+ */
+function fromAddressParts(parts: StructuredAddress): ParsedLocation | null {
+  const street = parts.street
+    ? [parts.street, parts.houseNumber].filter(Boolean).join(" ")
+    : undefined;
+  const primary = parts.neighbourhood ?? street ?? parts.city;
+  if (!primary) return null;
+
+  const secondary = [
+    parts.city !== primary ? parts.city : undefined,
+    parts.countryCode ? countryName(parts.countryCode) : undefined,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  return { primary, secondary };
+}
+
+/**
+ * Parse an address into primary (neighborhood) and secondary (city, country) parts.
+ * Structured parts are used when the geocoder returned them; otherwise the
+ * display string is split on commas.
  * This provides a user-friendly display instead of showing raw lat/lng coordinates.
  */
-export function parseLocationDisplay(address?: string, lat?: number, lng?: number): ParsedLocation {
+export function parseLocationDisplay(
+  address?: string,
+  lat?: number,
+  lng?: number,
+  addressParts?: StructuredAddress
+): ParsedLocation {
+  const structured = addressParts ? fromAddressParts(addressParts) : null;
+  if (structured) return structured;
+
   if (!address) {
     // Show coordinates in a fun way if available
     if (lat !== undefined && lng !== undefined) {
@@ -0,0 +1,217 @@
+import { sql } from "drizzle-orm";
+import { getDb } from "@/lib/db/client";
+import { cities, type NewCity } from "@/lib/db/schema";
+
+/**
+ * Parsing for `pnpm cities:import`.
+ *
+ * Two tab-separated layouts are accepted:
+ * - GeoNames dumps (cities15000.txt etc., no header): bounds are estimated from population
+ * - Files with a header row naming the columns: slug, name, country, lat, lng,
+ *   min_lat, max_lat, min_lng, max_lng, population, timezone. Only name,
+ *   country, lat and lng are required; missing bounds are estimated.
+ */
+
+const INSERT_BATCH_SIZE = 1000;
+
+// GeoNames column positions (https://download.geonames.org/export/dump/readme.txt)
+const GEONAMES = {
+  name: 1,
+  asciiName: 2,
+  lat: 4,
+  lng: 5,
+  featureClass: 6,
+  country: 8,
+  population: 14,
+  timezone: 17,
+};
+
+// Half-width of the estimated box: sqrt(population) / 100 km, clamped
+const MIN_RADIUS_KM = 3;
+const MAX_RADIUS_KM = 40;
+
+export interface CityRecord {
+  slug: string | null;
+  name: string;
+  country: string;
+  lat: number;
+  lng: number;
+  minLat: number | null;
+  maxLat: number | null;
+  minLng: number | null;
+  maxLng: number | null;
+  population: number | null;
+  timezone: string | null;
+}
+
+/**
+ * URL slug from a city name: "São Paulo" -> "sao-paulo"
+ */
+export function slugify(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // Strip diacritics
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Bounding box around a city center, scaled by population
+ */
+export function estimateBounds(lat: number, lng: number, population: number | null) {
+  const radiusKm = Math.min(
+    MAX_RADIUS_KM,
+    Math.max(MIN_RADIUS_KM, Math.sqrt(population ?? 0) / 100)
+  );
+  const latDelta = radiusKm / 111;
+  const lngDelta = radiusKm / (111 * Math.cos((lat * Math.PI) / 180));
+  return {
+    minLat: lat - latDelta,
+    maxLat: lat + latDelta,
+    minLng: lng - lngDelta,
+    maxLng: lng + lngDelta,
+  };
+}
+
+function optionalNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === "") return null;
+  const n = Number(value);
+  return isNaN(n) ? null : n;
+}
+
+/**
+ * Whether the first line of a file is a header row rather than GeoNames data
+ */
+export function isHeaderLine(line: string): boolean {
+  return !/^\d+$/.test(line.split("\t")[0]);
+}
+
+/**
+ * Parse a GeoNames dump line. Returns null for non-populated places.
+ */
+export function parseGeoNamesLine(line: string): CityRecord | null {
+  const fields = line.split("\t");
+  if (fields.length <= GEONAMES.timezone || fields[GEONAMES.featureClass] !== "P") return null;
+
+  const lat = Number(fields[GEONAMES.lat]);
+  const lng = Number(fields[GEONAMES.lng]);
+  if (isNaN(lat) || isNaN(lng)) return null;
+
+  return {
+    slug: null,
+    name: fields[GEONAMES.asciiName] || fields[GEONAMES.name],
+    country: fields[GEONAMES.country].toUpperCase(),
+    lat,
+    lng,
+    minLat: null,
+    maxLat: null,
+    minLng: null,
+    maxLng: null,
+    population: optionalNumber(fields[GEONAMES.population]),
+    timezone: fields[GEONAMES.timezone] || null,
+  };
+}
+
+/**
+ * Parse a line of a file with a header row
+ */
+export function parseHeaderLine(line: string, header: string[]): CityRecord | null {
+  const fields = line.split("\t");
+  const get = (column: string) => {
+    const index = header.indexOf(column);
+    return index === -1 ? undefined : fields[index]?.trim();
+  };
+
+  const name = get("name");
+  const country = get("country");
+  const lat = optionalNumber(get("lat"));
+  const lng = optionalNumber(get("lng"));
+  if (!name || !country || lat === null || lng === null) return null;
+
+  return {
+    slug: get("slug") || null,
+    name,
+    country: country.toUpperCase(),
+    lat,
+    lng,
+    minLat: optionalNumber(get("min_lat")),
+    maxLat: optionalNumber(get("max_lat")),
+    minLng: optionalNumber(get("min_lng")),
+    maxLng: optionalNumber(get("max_lng")),
+    population: optionalNumber(get("population")),
+    timezone: get("timezone") || null,
+  };
+}
+
+/**
+ * Turn parsed records into rows with unique slugs and bounds.
+ *
+ * Records are ordered by population, so the largest city keeps the plain
+ * slug ("london") and smaller namesakes get the country ("london-ca"), then
+ * a counter. The order makes slugs stable across re-imports.
+ */
+export function toCityRows(records: CityRecord[]): NewCity[] {
+  const sorted = [...records].sort((a, b) => (b.population ?? 0) - (a.population ?? 0));
+  const used = new Set<string>();
+  const rows: NewCity[] = [];
+
+  for (const record of sorted) {
+    const base = slugify(record.slug ?? record.name);
+    if (!base) continue;
+
+    let slug = base;
+    if (used.has(slug)) slug = `${base}-${record.country.toLowerCase()}`;
+    for (let n = 2; used.has(slug); n++) slug = `${base}-${record.country.toLowerCase()}-${n}`;
+    used.add(slug);
+
+    const hasBounds =
+      record.minLat !== null && record.maxLat !== null && record.minLng !== null && record.maxLng !== null;
+    const bounds = hasBounds
+      ? { minLat: record.minLat, maxLat: record.maxLat, minLng: record.minLng, maxLng: record.maxLng }
+      : estimateBounds(record.lat, record.lng, record.population);
+
+    rows.push({
+      slug,
+      name: record.name,
+      country: record.country,
+      lat: record.lat,
+      lng: record.lng,
+      ...bounds,
+      population: record.population,
+      timezone: record.timezone,
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Upsert cities by slug. Existing rows keep their ID, so heat cells and jobs
+ * referencing them stay attached.
+ */
+export async function saveCities(rows: NewCity[]): Promise<number> {
+  const db = getDb();
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db
+      .insert(cities)
+      .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+      .onConflictDoUpdate({
+        target: cities.slug,
+        set: {
+          name: sql`excluded.name`,
+          country: sql`excluded.country`,
+          lat: sql`excluded.lat`,
+          lng: sql`excluded.lng`,
+          minLat: sql`excluded.min_lat`,
+          maxLat: sql`excluded.max_lat`,
+          minLng: sql`excluded.min_lng`,
+          maxLng: sql`excluded.max_lng`,
+          population: sql`excluded.population`,
+          timezone: sql`excluded.timezone`,
+          updatedAt: sql`now()`,
+        },
+      });
+  }
+  return rows.length;
+}
@@ -0,0 +1,89 @@
+import { getDb, isDbConfigured } from "@/lib/db/client";
+import { cities, type City } from "@/lib/db/schema";
+import { and, asc, desc, eq, gte, isNotNull, lte, sql } from "drizzle-orm";
+
+/**
+ * City registry backed by the `cities` table (filled by `pnpm cities:import`).
+ * Every city list in the app - sitemap, city pages, heatmap scheduling - reads from here.
+ */
+
+export interface CityBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+/**
+ * All cities, largest first. Empty when the database is not configured
+ * (e.g. static builds without DATABASE_URL).
+ */
+export async function listCities(): Promise<City[]> {
+  if (!isDbConfigured()) return [];
+
+  return getDb()
+    .select()
+    .from(cities)
+    .orderBy(sql`${cities.population} DESC NULLS LAST`, asc(cities.slug));
+}
+
+/**
+ * Get a city by slug
+ */
+export async function getCity(citySlug: string): Promise<City | null> {
+  if (!isDbConfigured()) return null;
+
+  const [city] = await getDb()
+    .select()
+    .from(cities)
+    .where(eq(cities.slug, citySlug.toLowerCase()))
+    .limit(1);
+
+  return city ?? null;
+}
+
+/**
+ * Bounding box of a city row, or null if it has none
+ */
+export function cityBounds(city: City): CityBounds | null {
+  if (city.minLat === null || city.maxLat === null || city.minLng === null || city.maxLng === null) {
+    return null;
+  }
+  return { minLat: city.minLat, maxLat: city.maxLat, minLng: city.minLng, maxLng: city.maxLng };
+}
+
+/**
+ * Get bounds for a city by slug
+ */
+export async function getCityBounds(citySlug: string): Promise<CityBounds | null> {
+  const city = await getCity(citySlug);
+  return city ? cityBounds(city) : null;
+}
+
+/**
+ * Find the city whose bounds contain a point. Where bounds overlap
+ * (a suburb inside a metro area), the smallest box wins.
+ */
+export async function findCityForPoint(lat: number, lng: number): Promise<City | null> {
+  if (!isDbConfigured()) return null;
+
+  const [city] = await getDb()
+    .select()
+    .from(cities)
+    .where(
+      and(
+        isNotNull(cities.minLat),
+        lte(cities.minLat, lat),
+        gte(cities.maxLat, lat),
+        lte(cities.minLng, lng),
+        gte(cities.maxLng, lng)
+      )
+    )
+    .orderBy(
+      asc(sql`(${cities.maxLat} - ${cities.minLat}) * (${cities.maxLng} - ${cities.minLng})`),
+      desc(cities.population)
+    )
+    .limit(1);
+
+  return city ?? null;
+}
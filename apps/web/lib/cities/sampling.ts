@@ -0,0 +1,126 @@
+import { and, gte, isNull, lte, sql } from "drizzle-orm";
+import { getDb, isDbConfigured } from "@/lib/db/client";
+import { overturePois } from "@/lib/db/schema";
+import type { CityBounds } from "./index";
+
+/**
+ * Sample locations for city statistics.
+ *
+ * There is no population grid, so POI density stands in for it: the bounds
+ * are split into ~1km cells and each cell is drawn with probability
+ * proportional to the square root of its POI count. Empty cells (water,
+ * forest, airfields) are never sampled; the square root keeps commercial
+ * centers, where POIs cluster far more than residents, from dominating.
+ * Without POI data the samples are spread uniformly.
+ */
+
+const SAMPLING_CELL_SIZE = 0.01; // Degrees (~1km)
+
+export interface SamplePoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Deterministic PRNG (mulberry32), so re-running a city draws the same locations
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function round5(value: number): number {
+  return Math.round(value * 100000) / 100000;
+}
+
+/**
+ * POI counts per sampling cell, keyed by "row,col" from the bounds' south-west corner
+ */
+async function countPoisPerCell(bounds: CityBounds): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  if (!isDbConfigured()) return counts;
+
+  // Numbers are inlined so SELECT and GROUP BY expressions match exactly
+  const cellSize = sql.raw(String(SAMPLING_CELL_SIZE));
+  const row = sql`floor((${overturePois.lat} - ${sql.raw(String(bounds.minLat))}) / ${cellSize})::int`;
+  const col = sql`floor((${overturePois.lng} - ${sql.raw(String(bounds.minLng))}) / ${cellSize})::int`;
+
+  const rows = await getDb()
+    .select({ row: sql<number>`${row}`, col: sql<number>`${col}`, count: sql<number>`count(*)::int` })
+    .from(overturePois)
+    .where(
+      and(
+        gte(overturePois.lat, bounds.minLat),
+        lte(overturePois.lat, bounds.maxLat),
+        gte(overturePois.lng, bounds.minLng),
+        lte(overturePois.lng, bounds.maxLng),
+        isNull(overturePois.deletedAt)
+      )
+    )
+    .groupBy(row, col);
+
+  for (const r of rows) {
+    counts.set(`${r.row},${r.col}`, Number(r.count));
+  }
+  return counts;
+}
+
+/**
+ * Draw `count` locations inside the bounds
+ */
+export async function sampleCityPoints(
+  bounds: CityBounds,
+  count: number,
+  seed: number
+): Promise<SamplePoint[]> {
+  const random = createRandom(seed);
+  const counts = await countPoisPerCell(bounds);
+
+  if (counts.size === 0) {
+    return Array.from({ length: count }, () => ({
+      lat: round5(bounds.minLat + random() * (bounds.maxLat - bounds.minLat)),
+      lng: round5(bounds.minLng + random() * (bounds.maxLng - bounds.minLng)),
+    }));
+  }
+
+  // Cumulative weights for drawing cells
+  const cells: Array<{ row: number; col: number }> = [];
+  const cumulative: number[] = [];
+  let total = 0;
+  for (const [key, poiCount] of counts) {
+    const [row, col] = key.split(",").map(Number);
+    total += Math.sqrt(poiCount);
+    cells.push({ row, col });
+    cumulative.push(total);
+  }
+
+  const points: SamplePoint[] = [];
+  for (let i = 0; i < count; i++) {
+    // Binary search for the drawn cell
+    const target = random() * total;
+    let lo = 0;
+    let hi = cumulative.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulative[mid] <= target) lo = mid + 1;
+      else hi = mid;
+    }
+
+    // Uniform within the cell, clipped to the bounds (edge cells are partial)
+    const cell = cells[lo];
+    const lat = bounds.minLat + (cell.row + random()) * SAMPLING_CELL_SIZE;
+    const lng = bounds.minLng + (cell.col + random()) * SAMPLING_CELL_SIZE;
+    points.push({
+      lat: round5(Math.min(lat, bounds.maxLat)),
+      lng: round5(Math.min(lng, bounds.maxLng)),
+    });
+  }
+
+  return points;
+}
@@ -7,3 +7,119 @@
  * Used throughout the app for consistent heatmap resolution
  */
 export const HEATMAP_GRID_STEP = 0.0025;
+
+/**
+ * Heat layer combining several categories (the default map overlay).
+ * Every other layer is a single category ID, e.g. "transit"
+ */
+export const HEATMAP_OVERALL_LAYER = "overall";
+
+/**
+ * Categories averaged into the overall heat layer
+ */
+export const HEATMAP_OVERALL_CATEGORIES = ["groceries", "restaurants", "parks"];
+
+/**
+ * Heatmap pyramid: the base grid plus coarser levels averaged from it
+ * (~250m, ~1km, ~4km). minZoom is the lowest map zoom that uses a level
+ */
+export const HEATMAP_PYRAMID = [
+  { gridStep: HEATMAP_GRID_STEP, minZoom: 13 },
+  { gridStep: 0.01, minZoom: 11 },
+  { gridStep: 0.04, minZoom: 0 },
+];
+
+/**
+ * Without a zoom, /api/heatmap picks the finest level whose grid has at most
+ * this many cells in the requested bbox
+ */
+export const HEATMAP_MAX_RESPONSE_CELLS = 10000;
+
+/**
+ * Minimum heat cell score sent to clients (lower scores render transparent)
+ */
+export const HEATMAP_MIN_VISIBLE_SCORE = 30;
+
+/**
+ * Zoom range served by /api/heatmap/tiles. Below the minimum a tile would span
+ * too many cells; above the maximum the map overzooms the last tiles
+ */
+export const HEATMAP_TILE_MIN_ZOOM = 8;
+export const HEATMAP_TILE_MAX_ZOOM = 14;
+
+/**
+ * Maximum grid cells across one tile. At lower zooms neighbouring cells are
+ * averaged into larger squares (2x, 4x, ... the grid step)
+ */
+export const HEATMAP_TILE_MAX_CELLS_ACROSS = 128;
+
+/**
+ * Grid step for the point score cache (~100m resolution)
+ * Requests are snapped to this grid so nearby clicks share one cache entry
+ */
+export const SCORE_CACHE_GRID_STEP = 0.001;
+
+/**
+ * How long a cached point score stays valid (7 days)
+ */
+export const SCORE_CACHE_TTL_HOURS = 24 * 7;
+
+/**
+ * Grid step for cached reverse geocoding (~10m resolution)
+ */
+export const GEOCODE_CACHE_GRID_STEP = 0.0001;
+
+/**
+ * How long cached geocoding results stay valid (30 days); addresses rarely change
+ */
+export const GEOCODE_CACHE_TTL_HOURS = 24 * 30;
+
+/**
+ * Default minimum Overture confidence (0-1) for a POI to be scored at all;
+ * POI_MIN_CONFIDENCE overrides it. POIs without a confidence are always kept
+ */
+export const DEFAULT_POI_MIN_CONFIDENCE = 0.3;
+
+/**
+ * POIs at or above this confidence count as one; below it they count
+ * proportionally (confidence 0.35 = half a POI)
+ */
+export const POI_FULL_CONFIDENCE = 0.7;
+
+/**
+ * Scores whose counted POIs have a mean confidence weight below this are
+ * flagged as built on low-confidence data
+ */
+export const DATA_QUALITY_LOW_CONFIDENCE = 0.8;
+
+/**
+ * Composite POI provider and OSM import: named POIs from different sources
+ * within this many meters with similar names are the same place
+ */
+export const POI_DEDUPE_DISTANCE = 50;
+
+/**
+ * Unnamed POIs of the same category need to be this close (meters) to match
+ */
+export const POI_DEDUPE_UNNAMED_DISTANCE = 15;
+
+/**
+ * Minimum name similarity (0-1, bigram Dice coefficient) for a match
+ */
+export const POI_NAME_SIMILARITY = 0.6;
+
+/**
+ * Maximum number of points accepted by POST /api/score/batch
+ */
+export const SCORE_BATCH_MAX_POINTS = 500;
+
+/**
+ * Batch points are grouped into regions of this size (degrees, ~50km)
+ * so POIs are loaded once per region instead of one huge bounding box
+ */
+export const SCORE_BATCH_REGION_SIZE = 0.5;
+
+/**
+ * Locations sampled per city by the city_stats job
+ */
+export const CITY_STATS_SAMPLE_COUNT = 200;
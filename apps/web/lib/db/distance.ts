@@ -0,0 +1,22 @@
+import { sql, type AnyColumn, type SQL } from "drizzle-orm";
+import { EARTH_RADIUS_M } from "@/lib/distance/haversine";
+
+/**
+ * Great-circle distance in meters from a point to each row's lat/lng columns,
+ * as haversineDistance()
+ */
+export function distanceFrom(
+  latColumn: AnyColumn,
+  lngColumn: AnyColumn,
+  lat: number,
+  lng: number
+): SQL<number> {
+  // Double precision: the columns are real and would round the point to ~1 m
+  const rowLat = sql`${latColumn}::double precision`;
+  const rowLng = sql`${lngColumn}::double precision`;
+  const a = sql`power(sin(radians(${rowLat} - ${lat}::double precision) / 2), 2) +
+    cos(radians(${lat}::double precision)) * cos(radians(${rowLat})) *
+    power(sin(radians(${rowLng} - ${lng}::double precision) / 2), 2)`;
+
+  return sql<number>`${EARTH_RADIUS_M} * 2 * asin(least(1, sqrt(${a})))`.mapWith(Number);
+}
@@ -0,0 +1,115 @@
+import { and, between, gte, lte, or, type SQL } from "drizzle-orm";
+import { overturePois } from "./schema";
+import type { Bounds } from "@/lib/distance/types";
+
+/**
+ * Spatial lookups on overture_pois through a geohash column.
+ *
+ * `geohash` is the binary geohash of the POI: 26 longitude and 26 latitude
+ * bits interleaved (longitude first), stored as a bigint and computed by the
+ * `poi_geohash(lat, lng)` SQL function (migration 0011). Nearby points share
+ * long prefixes, so a bounding box is covered by a few contiguous hash ranges
+ * that the `(category, geohash)` btree can scan directly, instead of a lat
+ * range scan over a whole band of the globe.
+ */
+
+/** Bits per axis; 2 × 26 stays within Number.MAX_SAFE_INTEGER */
+export const GEOHASH_BITS = 26;
+
+/** Upper bound on cells in a bounding box cover; each becomes one index range */
+const MAX_COVER_CELLS = 16;
+
+const AXIS_CELLS = 2 ** GEOHASH_BITS;
+
+function toGrid(value: number, min: number, span: number): number {
+  return Math.min(Math.max(Math.floor(((value - min) / span) * AXIS_CELLS), 0), AXIS_CELLS - 1);
+}
+
+/** Interleave the low `bits` bits of x (longitude) and y (latitude) */
+function interleave(x: number, y: number, bits: number): number {
+  let hash = 0;
+  for (let bit = bits - 1; bit >= 0; bit--) {
+    // Arithmetic rather than bitwise ops: the hash is wider than 32 bits
+    hash = hash * 4 + (Math.floor(x / 2 ** bit) % 2) * 2 + (Math.floor(y / 2 ** bit) % 2);
+  }
+  return hash;
+}
+
+/** Same value as `poi_geohash(lat, lng)` in the database */
+export function encodeGeohash(lat: number, lng: number): number {
+  return interleave(toGrid(lng, -180, 360), toGrid(lat, -90, 180), GEOHASH_BITS);
+}
+
+/**
+ * Inclusive geohash ranges covering the bounds, merged where adjacent.
+ * Uses the finest cell size that needs at most MAX_COVER_CELLS cells.
+ */
+export function geohashRanges(bounds: Bounds): [number, number][] {
+  const minX = toGrid(bounds.minLng, -180, 360);
+  const maxX = toGrid(bounds.maxLng, -180, 360);
+  const minY = toGrid(bounds.minLat, -90, 180);
+  const maxY = toGrid(bounds.maxLat, -90, 180);
+
+  let level = GEOHASH_BITS;
+  let shift = 1;
+  while (
+    level > 0 &&
+    (Math.floor(maxX / shift) - Math.floor(minX / shift) + 1) *
+      (Math.floor(maxY / shift) - Math.floor(minY / shift) + 1) >
+      MAX_COVER_CELLS
+  ) {
+    level--;
+    shift *= 2;
+  }
+
+  // Every cell at this level spans this many full-precision hashes
+  const cellSize = shift * shift;
+  const starts: number[] = [];
+  for (let x = Math.floor(minX / shift); x <= Math.floor(maxX / shift); x++) {
+    for (let y = Math.floor(minY / shift); y <= Math.floor(maxY / shift); y++) {
+      starts.push(interleave(x, y, level) * cellSize);
+    }
+  }
+  starts.sort((a, b) => a - b);
+
+  const ranges: [number, number][] = [];
+  for (const start of starts) {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] + 1 === start) {
+      last[1] = start + cellSize - 1;
+    } else {
+      ranges.push([start, start + cellSize - 1]);
+    }
+  }
+  return ranges;
+}
+
+/**
+ * POIs inside the bounds: geohash ranges for the index scan, plus the exact
+ * lat/lng check since the cover is larger than the box.
+ */
+export function poiWithinBounds(bounds: Bounds): SQL {
+  const ranges = geohashRanges(bounds).map(([start, end]) =>
+    between(overturePois.geohash, start, end)
+  );
+
+  return and(
+    ranges.length === 1 ? ranges[0] : or(...ranges),
+    gte(overturePois.lat, bounds.minLat),
+    lte(overturePois.lat, bounds.maxLat),
+    gte(overturePois.lng, bounds.minLng),
+    lte(overturePois.lng, bounds.maxLng)
+  )!;
+}
+
+/** Bounds of a radius (meters) around a point */
+export function radiusBounds(lat: number, lng: number, radius: number): Bounds {
+  const latDelta = radius / 111320;
+  const lngDelta = radius / (111320 * Math.cos((lat * Math.PI) / 180));
+  return {
+    minLat: lat - latDelta,
+    maxLat: lat + latDelta,
+    minLng: lng - lngDelta,
+    maxLng: lng + lngDelta,
+  };
+}
@@ -0,0 +1,15 @@
+CREATE TABLE "walk_edges" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"from_node" bigint NOT NULL,
+	"to_node" bigint NOT NULL,
+	"from_lat" real NOT NULL,
+	"from_lng" real NOT NULL,
+	"to_lat" real NOT NULL,
+	"to_lng" real NOT NULL,
+	"length" real NOT NULL,
+	"imported_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "walk_edges_nodes_idx" ON "walk_edges" USING btree ("from_node","to_node");--> statement-breakpoint
+CREATE INDEX "walk_edges_from_location_idx" ON "walk_edges" USING btree ("from_lat","from_lng");--> statement-breakpoint
+CREATE INDEX "walk_edges_to_location_idx" ON "walk_edges" USING btree ("to_lat","to_lng");
\ No newline at end of file
@@ -0,0 +1,51 @@
+CREATE TABLE "gtfs_feeds" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"min_lat" real NOT NULL,
+	"max_lat" real NOT NULL,
+	"min_lng" real NOT NULL,
+	"max_lng" real NOT NULL,
+	"service_date" varchar(8),
+	"imported_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "gtfs_feeds_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE "gtfs_routes" (
+	"id" text PRIMARY KEY NOT NULL,
+	"feed_id" integer NOT NULL,
+	"route_id" text NOT NULL,
+	"short_name" text,
+	"long_name" text,
+	"route_type" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "gtfs_stop_times" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"feed_id" integer NOT NULL,
+	"trip_id" text NOT NULL,
+	"route_id" text NOT NULL,
+	"service_id" text NOT NULL,
+	"stop_id" text NOT NULL,
+	"stop_sequence" integer NOT NULL,
+	"departure_time" integer
+);
+--> statement-breakpoint
+CREATE TABLE "gtfs_stops" (
+	"id" text PRIMARY KEY NOT NULL,
+	"feed_id" integer NOT NULL,
+	"stop_id" text NOT NULL,
+	"name" text,
+	"lat" real NOT NULL,
+	"lng" real NOT NULL,
+	"route_type" integer,
+	"departures_per_hour" real DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "gtfs_routes" ADD CONSTRAINT "gtfs_routes_feed_id_gtfs_feeds_id_fk" FOREIGN KEY ("feed_id") REFERENCES "public"."gtfs_feeds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gtfs_stop_times" ADD CONSTRAINT "gtfs_stop_times_feed_id_gtfs_feeds_id_fk" FOREIGN KEY ("feed_id") REFERENCES "public"."gtfs_feeds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gtfs_stops" ADD CONSTRAINT "gtfs_stops_feed_id_gtfs_feeds_id_fk" FOREIGN KEY ("feed_id") REFERENCES "public"."gtfs_feeds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "gtfs_routes_feed_idx" ON "gtfs_routes" USING btree ("feed_id");--> statement-breakpoint
+CREATE INDEX "gtfs_stop_times_stop_idx" ON "gtfs_stop_times" USING btree ("feed_id","stop_id");--> statement-breakpoint
+CREATE INDEX "gtfs_stop_times_trip_idx" ON "gtfs_stop_times" USING btree ("feed_id","trip_id");--> statement-breakpoint
+CREATE INDEX "gtfs_stops_location_idx" ON "gtfs_stops" USING btree ("lat","lng");--> statement-breakpoint
+CREATE INDEX "gtfs_stops_feed_idx" ON "gtfs_stops" USING btree ("feed_id");
\ No newline at end of file
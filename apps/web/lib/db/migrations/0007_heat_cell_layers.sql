@@ -0,0 +1,3 @@
+DROP INDEX "heat_cells_coords_step_idx";--> statement-breakpoint
+ALTER TABLE "heat_cells" ADD COLUMN "layer" varchar(50) DEFAULT 'overall' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "heat_cells_coords_step_layer_idx" ON "heat_cells" USING btree ("lat","lng","grid_step","layer");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "city_stats" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"city_id" integer NOT NULL,
+	"overall" jsonb NOT NULL,
+	"categories" jsonb NOT NULL,
+	"sample_count" integer NOT NULL,
+	"computed_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "city_stats_city_id_unique" UNIQUE("city_id")
+);
+--> statement-breakpoint
+ALTER TABLE "city_stats" ADD CONSTRAINT "city_stats_city_id_cities_id_fk" FOREIGN KEY ("city_id") REFERENCES "public"."cities"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "districts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"city_id" integer NOT NULL,
+	"slug" varchar(255) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"admin_level" integer,
+	"geometry" jsonb NOT NULL,
+	"min_lat" real NOT NULL,
+	"max_lat" real NOT NULL,
+	"min_lng" real NOT NULL,
+	"max_lng" real NOT NULL,
+	"scores" jsonb,
+	"scored_at" timestamp,
+	"imported_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "districts" ADD CONSTRAINT "districts_city_id_cities_id_fk" FOREIGN KEY ("city_id") REFERENCES "public"."cities"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "districts_city_slug_idx" ON "districts" USING btree ("city_id","slug");--> statement-breakpoint
+CREATE INDEX "districts_bounds_idx" ON "districts" USING btree ("min_lat","max_lat","min_lng","max_lng");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "geocode_cache" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"key" text NOT NULL,
+	"results" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "geocode_cache_key_idx" ON "geocode_cache" USING btree ("key");
\ No newline at end of file
@@ -0,0 +1,25 @@
+-- Binary geohash: 26 longitude and 26 latitude bits interleaved, longitude first.
+-- Mirrors encodeGeohash() in lib/db/geohash.ts.
+CREATE OR REPLACE FUNCTION poi_geohash(lat real, lng real) RETURNS bigint
+LANGUAGE plpgsql IMMUTABLE PARALLEL SAFE AS $$
+DECLARE
+	x bigint := least(greatest(floor((lng::double precision + 180) / 360 * 67108864), 0), 67108863);
+	y bigint := least(greatest(floor((lat::double precision + 90) / 180 * 67108864), 0), 67108863);
+BEGIN
+	-- Spread each axis to every other bit
+	x := (x | (x << 16)) & 281470681808895;
+	x := (x | (x << 8)) & 71777214294589695;
+	x := (x | (x << 4)) & 1085102592571150095;
+	x := (x | (x << 2)) & 3689348814741910323;
+	x := (x | (x << 1)) & 6148914691236517205;
+	y := (y | (y << 16)) & 281470681808895;
+	y := (y | (y << 8)) & 71777214294589695;
+	y := (y | (y << 4)) & 1085102592571150095;
+	y := (y | (y << 2)) & 3689348814741910323;
+	y := (y | (y << 1)) & 6148914691236517205;
+	RETURN (x << 1) | y;
+END;
+$$;--> statement-breakpoint
+DROP INDEX "overture_pois_category_location_idx";--> statement-breakpoint
+ALTER TABLE "overture_pois" ADD COLUMN "geohash" bigint GENERATED ALWAYS AS (poi_geohash(lat, lng)) STORED;--> statement-breakpoint
+CREATE INDEX "overture_pois_category_geohash_idx" ON "overture_pois" USING btree ("category","geohash");
\ No newline at end of file
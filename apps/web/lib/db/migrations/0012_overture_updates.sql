@@ -0,0 +1,19 @@
+CREATE TABLE "import_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source" varchar(50) NOT NULL,
+	"release" varchar(50) NOT NULL,
+	"bbox" varchar(100) NOT NULL,
+	"status" varchar(20) DEFAULT 'running' NOT NULL,
+	"added" integer DEFAULT 0 NOT NULL,
+	"changed" integer DEFAULT 0 NOT NULL,
+	"removed" integer DEFAULT 0 NOT NULL,
+	"stale_cells" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "heat_cells" ADD COLUMN "stale" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "overture_pois" ADD COLUMN "updated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "overture_pois" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+CREATE INDEX "heat_cells_stale_idx" ON "heat_cells" USING btree ("layer") WHERE stale;
\ No newline at end of file
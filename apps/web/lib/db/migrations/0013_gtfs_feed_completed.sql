@@ -0,0 +1,5 @@
+ALTER TABLE "gtfs_feeds" DROP CONSTRAINT "gtfs_feeds_name_unique";--> statement-breakpoint
+ALTER TABLE "gtfs_feeds" ADD COLUMN "completed" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+-- Feeds imported before this migration are complete
+UPDATE "gtfs_feeds" SET "completed" = true;--> statement-breakpoint
+CREATE UNIQUE INDEX "gtfs_feeds_name_completed_idx" ON "gtfs_feeds" USING btree ("name") WHERE completed;
\ No newline at end of file
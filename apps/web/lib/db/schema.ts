@@ -4,12 +4,15 @@ import {
   varchar,
   text,
   integer,
+  bigint,
   real,
   timestamp,
   index,
   uniqueIndex,
   jsonb,
+  boolean,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 
 // Cities table - stores city metadata for SEO pages
 export const cities = pgTable(
@@ -56,6 +59,20 @@ export const pointScoreCache = pgTable(
   ]
 );
 
+// Geocode cache - search and reverse geocoding results per provider
+// Keys: "<provider>:search:<normalized query>" or "<provider>:reverse:<lat>,<lng>" (snapped)
+export const geocodeCache = pgTable(
+  "geocode_cache",
+  {
+    id: serial("id").primaryKey(),
+    key: text("key").notNull(),
+    results: jsonb("results").notNull(), // GeocodingResult[] (empty = nothing found)
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+  },
+  (table) => [uniqueIndex("geocode_cache_key_idx").on(table.key)]
+);
+
 // Heat cells - precomputed heatmap data for visualization
 export const heatCells = pgTable(
   "heat_cells",
@@ -63,16 +80,61 @@ export const heatCells = pgTable(
     id: serial("id").primaryKey(),
     lat: real("lat").notNull(),
     lng: real("lng").notNull(),
-    score: integer("score").notNull(), // Grocery-only score for MVP
+    score: integer("score").notNull(),
+    // "overall" (groceries + restaurants + parks) or a single category ID, e.g. "transit"
+    layer: varchar("layer", { length: 50 }).notNull().default("overall"),
     gridStep: real("grid_step").notNull().default(0.01), // Grid resolution in degrees
     cityId: integer("city_id").references(() => cities.id),
+    // POIs within reach changed since the score was computed (see lib/overture/update.ts)
+    stale: boolean("stale").notNull().default(false),
     computedAt: timestamp("computed_at").defaultNow().notNull(),
   },
   (table) => [
     index("heat_cells_bounds_idx").on(table.lat, table.lng),
     index("heat_cells_city_idx").on(table.cityId),
-    // Unique constraint includes gridStep to support multiple resolutions
-    uniqueIndex("heat_cells_coords_step_idx").on(table.lat, table.lng, table.gridStep),
+    index("heat_cells_stale_idx").on(table.layer).where(sql`stale`),
+    // Unique constraint includes gridStep and layer to support multiple resolutions and layers
+    uniqueIndex("heat_cells_coords_step_layer_idx").on(table.lat, table.lng, table.gridStep, table.layer),
+  ]
+);
+
+// City stats - score distribution over sampled locations, written by the city_stats job
+export const cityStats = pgTable("city_stats", {
+  id: serial("id").primaryKey(),
+  cityId: integer("city_id")
+    .references(() => cities.id, { onDelete: "cascade" })
+    .notNull()
+    .unique(),
+  overall: jsonb("overall").notNull(), // ScoreDistribution
+  categories: jsonb("categories").notNull(), // Record<categoryId, ScoreDistribution>
+  sampleCount: integer("sample_count").notNull(),
+  computedAt: timestamp("computed_at").defaultNow().notNull(),
+});
+
+// Districts - neighborhood/borough polygons of a city, scored from heat cells
+export const districts = pgTable(
+  "districts",
+  {
+    id: serial("id").primaryKey(),
+    cityId: integer("city_id")
+      .references(() => cities.id, { onDelete: "cascade" })
+      .notNull(),
+    slug: varchar("slug", { length: 255 }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    adminLevel: integer("admin_level"), // OSM admin_level, when known
+    geometry: jsonb("geometry").notNull(), // GeoJSON MultiPolygon coordinates ([lng, lat])
+    // Bounding box of the geometry
+    minLat: real("min_lat").notNull(),
+    maxLat: real("max_lat").notNull(),
+    minLng: real("min_lng").notNull(),
+    maxLng: real("max_lng").notNull(),
+    scores: jsonb("scores"), // Record<layer, { score, cells }>, null until scored
+    scoredAt: timestamp("scored_at"),
+    importedAt: timestamp("imported_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("districts_city_slug_idx").on(table.cityId, table.slug),
+    index("districts_bounds_idx").on(table.minLat, table.maxLat, table.minLng, table.maxLng),
   ]
 );
 
@@ -81,7 +143,7 @@ export const jobs = pgTable(
   "jobs",
   {
     id: serial("id").primaryKey(),
-    type: varchar("type", { length: 50 }).notNull(), // 'heatmap_compute', 'cache_refresh'
+    type: varchar("type", { length: 50 }).notNull(), // 'heatmap_compute', 'city_stats'
     status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, running, completed, failed
     cityId: integer("city_id").references(() => cities.id),
     progress: integer("progress").default(0),
@@ -108,15 +170,134 @@ export const overturePois = pgTable(
     subcategory: text("subcategory"),           // "supermarket", "convenience", etc.
     lat: real("lat").notNull(),
     lng: real("lng").notNull(),
+    // Binary geohash for spatial lookups (see lib/db/geohash.ts)
+    geohash: bigint("geohash", { mode: "number" }).generatedAlwaysAs(sql`poi_geohash(lat, lng)`),
     confidence: real("confidence"),
     source: text("source"),                     // "meta", "microsoft", "osm"
     tags: jsonb("tags"),                        // Additional metadata
     importedAt: timestamp("imported_at").defaultNow(),
+    updatedAt: timestamp("updated_at"),         // Last change by a release update
+    deletedAt: timestamp("deleted_at"),         // Missing from a later release (soft delete)
   },
   (table) => [
     index("overture_pois_location_idx").on(table.lat, table.lng),
     index("overture_pois_category_idx").on(table.category),
-    index("overture_pois_category_location_idx").on(table.category, table.lat, table.lng),
+    index("overture_pois_category_geohash_idx").on(table.category, table.geohash),
+  ]
+);
+
+// Import runs - one row per Overture release update (scripts/setup-overture.ts --update)
+export const importRuns = pgTable("import_runs", {
+  id: serial("id").primaryKey(),
+  source: varchar("source", { length: 50 }).notNull(), // "overture"
+  release: varchar("release", { length: 50 }).notNull(), // e.g. "2025-01-22.0"
+  bbox: varchar("bbox", { length: 100 }).notNull(), // minLng,minLat,maxLng,maxLat
+  status: varchar("status", { length: 20 }).notNull().default("running"), // running, completed, failed
+  added: integer("added").notNull().default(0),
+  changed: integer("changed").notNull().default(0),
+  removed: integer("removed").notNull().default(0),
+  staleCells: integer("stale_cells").notNull().default(0),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Walk edges - pedestrian road graph imported from OpenStreetMap
+// Each row is one undirected segment between two OSM nodes
+export const walkEdges = pgTable(
+  "walk_edges",
+  {
+    id: serial("id").primaryKey(),
+    fromNode: bigint("from_node", { mode: "number" }).notNull(), // OSM node ID
+    toNode: bigint("to_node", { mode: "number" }).notNull(),
+    fromLat: real("from_lat").notNull(),
+    fromLng: real("from_lng").notNull(),
+    toLat: real("to_lat").notNull(),
+    toLng: real("to_lng").notNull(),
+    length: real("length").notNull(), // meters
+    importedAt: timestamp("imported_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("walk_edges_nodes_idx").on(table.fromNode, table.toNode),
+    index("walk_edges_from_location_idx").on(table.fromLat, table.fromLng),
+    index("walk_edges_to_location_idx").on(table.toLat, table.toLng),
+  ]
+);
+
+// GTFS feeds - one row per imported transit feed (re-import replaces its rows)
+export const gtfsFeeds = pgTable(
+  "gtfs_feeds",
+  {
+    id: serial("id").primaryKey(),
+    name: varchar("name", { length: 255 }).notNull(),
+    // Bounding box of the feed's stops - GTFS stops replace Overture stations inside it
+    minLat: real("min_lat").notNull(),
+    maxLat: real("max_lat").notNull(),
+    minLng: real("min_lng").notNull(),
+    maxLng: real("max_lng").notNull(),
+    serviceDate: varchar("service_date", { length: 8 }), // YYYYMMDD used for frequencies, null = weekly calendar
+    // False while importing; readers skip the feed and its stops until then
+    completed: boolean("completed").notNull().default(false),
+    importedAt: timestamp("imported_at").defaultNow().notNull(),
+  },
+  // One completed feed per name; a re-import runs next to it until it completes
+  (table) => [uniqueIndex("gtfs_feeds_name_completed_idx").on(table.name).where(sql`completed`)]
+);
+
+// GTFS stops with precomputed service frequency
+export const gtfsStops = pgTable(
+  "gtfs_stops",
+  {
+    id: text("id").primaryKey(), // "{feedId}:{stop_id}"
+    feedId: integer("feed_id")
+      .references(() => gtfsFeeds.id, { onDelete: "cascade" })
+      .notNull(),
+    stopId: text("stop_id").notNull(),
+    name: text("name"),
+    lat: real("lat").notNull(),
+    lng: real("lng").notNull(),
+    routeType: integer("route_type"), // GTFS route_type of the busiest route serving the stop
+    departuresPerHour: real("departures_per_hour").notNull().default(0), // weekday average, 06:00-22:00
+  },
+  (table) => [
+    index("gtfs_stops_location_idx").on(table.lat, table.lng),
+    index("gtfs_stops_feed_idx").on(table.feedId),
+  ]
+);
+
+export const gtfsRoutes = pgTable(
+  "gtfs_routes",
+  {
+    id: text("id").primaryKey(), // "{feedId}:{route_id}"
+    feedId: integer("feed_id")
+      .references(() => gtfsFeeds.id, { onDelete: "cascade" })
+      .notNull(),
+    routeId: text("route_id").notNull(),
+    shortName: text("short_name"),
+    longName: text("long_name"),
+    routeType: integer("route_type").notNull(),
+  },
+  (table) => [index("gtfs_routes_feed_idx").on(table.feedId)]
+);
+
+// Scheduled departures - trips are flattened in (route_id copied from trips.txt)
+export const gtfsStopTimes = pgTable(
+  "gtfs_stop_times",
+  {
+    id: serial("id").primaryKey(),
+    feedId: integer("feed_id")
+      .references(() => gtfsFeeds.id, { onDelete: "cascade" })
+      .notNull(),
+    tripId: text("trip_id").notNull(),
+    routeId: text("route_id").notNull(),
+    serviceId: text("service_id").notNull(),
+    stopId: text("stop_id").notNull(),
+    stopSequence: integer("stop_sequence").notNull(),
+    departureTime: integer("departure_time"), // seconds after midnight, may exceed 24h
+  },
+  (table) => [
+    index("gtfs_stop_times_stop_idx").on(table.feedId, table.stopId),
+    index("gtfs_stop_times_trip_idx").on(table.feedId, table.tripId),
   ]
 );
 
@@ -164,9 +345,18 @@ export type NewCity = typeof cities.$inferInsert;
 export type PointScoreCache = typeof pointScoreCache.$inferSelect;
 export type NewPointScoreCache = typeof pointScoreCache.$inferInsert;
 
+export type GeocodeCache = typeof geocodeCache.$inferSelect;
+export type NewGeocodeCache = typeof geocodeCache.$inferInsert;
+
 export type HeatCell = typeof heatCells.$inferSelect;
 export type NewHeatCell = typeof heatCells.$inferInsert;
 
+export type CityStatsRow = typeof cityStats.$inferSelect;
+export type NewCityStats = typeof cityStats.$inferInsert;
+
+export type District = typeof districts.$inferSelect;
+export type NewDistrict = typeof districts.$inferInsert;
+
 export type Job = typeof jobs.$inferSelect;
 export type NewJob = typeof jobs.$inferInsert;
 
@@ -176,5 +366,20 @@ export type NewRateLimit = typeof rateLimits.$inferInsert;
 export type OverturePoi = typeof overturePois.$inferSelect;
 export type NewOverturePoi = typeof overturePois.$inferInsert;
 
+export type ImportRun = typeof importRuns.$inferSelect;
+export type NewImportRun = typeof importRuns.$inferInsert;
+
+export type WalkEdgeRow = typeof walkEdges.$inferSelect;
+export type NewWalkEdge = typeof walkEdges.$inferInsert;
+
+export type GtfsFeed = typeof gtfsFeeds.$inferSelect;
+export type NewGtfsFeed = typeof gtfsFeeds.$inferInsert;
+
+export type GtfsStop = typeof gtfsStops.$inferSelect;
+export type NewGtfsStop = typeof gtfsStops.$inferInsert;
+
+export type NewGtfsRoute = typeof gtfsRoutes.$inferInsert;
+export type NewGtfsStopTime = typeof gtfsStopTimes.$inferInsert;
+
 export type VibeCache = typeof vibeCache.$inferSelect;
 export type NewVibeCache = typeof vibeCache.$inferInsert;
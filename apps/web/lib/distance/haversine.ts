@@ -0,0 +1,35 @@
+import type { DistanceModel, RegionDistances } from "./types";
+
+export const EARTH_RADIUS_M = 6371000;
+
+/**
+ * Great-circle distance in meters
+ */
+export function haversineDistance(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): number {
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLng = ((lng2 - lng1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS_M * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+const haversineRegion: RegionDistances = {
+  fromOrigin: (lat, lng) => (poiLat, poiLng) => haversineDistance(lat, lng, poiLat, poiLng),
+};
+
+/** Straight-line distances; needs no data and is the fallback for every other model */
+export class HaversineDistanceModel implements DistanceModel {
+  readonly type = "haversine" as const;
+
+  async loadRegion(): Promise<RegionDistances> {
+    return haversineRegion;
+  }
+}
@@ -0,0 +1,91 @@
+import { getDb } from "@/lib/db/client";
+import { walkEdges, type NewWalkEdge } from "@/lib/db/schema";
+import { haversineDistance } from "./haversine";
+
+// OSM highway values a pedestrian can use. Motorways and trunks are excluded
+// unless explicitly tagged foot=yes.
+export const WALKABLE_HIGHWAYS = new Set([
+  "footway",
+  "pedestrian",
+  "path",
+  "steps",
+  "corridor",
+  "living_street",
+  "residential",
+  "service",
+  "unclassified",
+  "track",
+  "cycleway",
+  "tertiary",
+  "tertiary_link",
+  "secondary",
+  "secondary_link",
+  "primary",
+  "primary_link",
+]);
+
+const INSERT_BATCH_SIZE = 1000;
+
+export function isWalkableWay(tags: Record<string, string>): boolean {
+  const highway = tags.highway;
+  if (!highway) return false;
+  if (tags.foot === "no" || tags.foot === "private") return false;
+  if (tags.access === "no" || tags.access === "private") {
+    return tags.foot === "yes" || tags.foot === "designated";
+  }
+  if (tags.foot === "yes" || tags.foot === "designated") return true;
+  return WALKABLE_HIGHWAYS.has(highway);
+}
+
+/**
+ * Split a way into one edge per consecutive node pair.
+ * Node pairs are stored with the lower ID first so each segment is unique.
+ * Nodes missing from `nodes` (outside the extract) are skipped.
+ */
+export function wayToEdges(
+  nodeIds: number[],
+  nodes: Map<number, { lat: number; lng: number }>
+): NewWalkEdge[] {
+  const edges: NewWalkEdge[] = [];
+
+  for (let i = 0; i < nodeIds.length - 1; i++) {
+    const a = nodes.get(nodeIds[i]);
+    const b = nodes.get(nodeIds[i + 1]);
+    if (!a || !b || nodeIds[i] === nodeIds[i + 1]) continue;
+
+    const [fromId, from, toId, to] =
+      nodeIds[i] < nodeIds[i + 1]
+        ? [nodeIds[i], a, nodeIds[i + 1], b]
+        : [nodeIds[i + 1], b, nodeIds[i], a];
+
+    edges.push({
+      fromNode: fromId,
+      toNode: toId,
+      fromLat: from.lat,
+      fromLng: from.lng,
+      toLat: to.lat,
+      toLng: to.lng,
+      length: haversineDistance(from.lat, from.lng, to.lat, to.lng),
+    });
+  }
+
+  return edges;
+}
+
+/**
+ * Insert edges in batches. Existing segments are kept (safe to re-run).
+ *
+ * @returns Number of edges written
+ */
+export async function saveWalkEdges(edges: NewWalkEdge[]): Promise<number> {
+  const db = getDb();
+  let saved = 0;
+
+  for (let i = 0; i < edges.length; i += INSERT_BATCH_SIZE) {
+    const batch = edges.slice(i, i + INSERT_BATCH_SIZE);
+    await db.insert(walkEdges).values(batch).onConflictDoNothing();
+    saved += batch.length;
+  }
+
+  return saved;
+}
@@ -0,0 +1,64 @@
+export * from "./types";
+export { haversineDistance, HaversineDistanceModel } from "./haversine";
+export { WalkingDistanceModel, loadWalkGraph } from "./walking";
+export { WalkGraph } from "./walk-graph";
+export {
+  computeCatchment,
+  parseIsochrone,
+  formatIsochrone,
+  pointInPolygon,
+  TRAVEL_SPEEDS,
+} from "./isochrone";
+
+import type { Bounds, DistanceFn, DistanceModel, DistanceModelType } from "./types";
+import { HaversineDistanceModel } from "./haversine";
+import { WalkingDistanceModel } from "./walking";
+
+const MODEL_TYPE = (process.env.DISTANCE_MODEL || "haversine") as DistanceModelType;
+
+let model: DistanceModel | null = null;
+
+export function getDistanceModel(): DistanceModel {
+  if (!model) {
+    model = createDistanceModel(MODEL_TYPE);
+  }
+  return model;
+}
+
+export function createDistanceModel(type: DistanceModelType): DistanceModel {
+  switch (type) {
+    case "haversine":
+      return new HaversineDistanceModel();
+    case "walking":
+      return new WalkingDistanceModel();
+    default:
+      throw new Error(`Unknown distance model: ${type}`);
+  }
+}
+
+/**
+ * Bounding box that contains every point within radius meters of (lat, lng)
+ */
+export function boundsAround(lat: number, lng: number, radius: number): Bounds {
+  const latDelta = radius / 111320;
+  const lngDelta = radius / (111320 * Math.cos((lat * Math.PI) / 180));
+  return {
+    minLat: lat - latDelta,
+    maxLat: lat + latDelta,
+    minLng: lng - lngDelta,
+    maxLng: lng + lngDelta,
+  };
+}
+
+/**
+ * Re-measure POIs with a distance function and keep those within radius
+ */
+export function measureWithin<T extends { lat: number; lng: number; distance?: number }>(
+  pois: T[],
+  distanceTo: DistanceFn,
+  radius: number
+): T[] {
+  return pois
+    .map((poi) => ({ ...poi, distance: distanceTo(poi.lat, poi.lng) }))
+    .filter((poi) => poi.distance <= radius);
+}
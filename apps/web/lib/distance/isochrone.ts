@@ -0,0 +1,146 @@
+import { haversineDistance } from "./haversine";
+import { loadWalkGraph, MAX_SNAP_DISTANCE } from "./walking";
+import type { Catchment, IsochroneSpec, TravelMode } from "./types";
+
+// Average speeds in meters per minute (~4.8 km/h walking, ~15 km/h cycling)
+export const TRAVEL_SPEEDS: Record<TravelMode, number> = {
+  walk: 80,
+  bike: 250,
+};
+
+export const ISOCHRONE_MINUTES = { min: 1, max: 30 } as const;
+
+// Largest budget routed over the street graph: a 30-minute walk (2.4 km). Longer
+// bike rides would load and search a graph ~15 km across on every uncached
+// score, so they get the circular catchment
+export const MAX_ROUTED_BUDGET = TRAVEL_SPEEDS.walk * ISOCHRONE_MINUTES.max;
+
+// Angular resolution of the catchment polygon
+const SECTORS = 36;
+// Reached nodes are padded so POIs just off the last street corner still count
+const NODE_BUFFER = 50;
+// Without a street graph, routes are typically ~1.3x longer than straight-line
+export const DETOUR_FACTOR = 1.3;
+
+/**
+ * Parse "walk:15" / "bike:10". Returns null for anything else.
+ */
+export function parseIsochrone(value: string | null | undefined): IsochroneSpec | null {
+  if (!value) return null;
+
+  const match = /^(walk|bike):(\d+)$/.exec(value);
+  if (!match) return null;
+
+  const minutes = parseInt(match[2], 10);
+  if (minutes < ISOCHRONE_MINUTES.min || minutes > ISOCHRONE_MINUTES.max) return null;
+
+  return { mode: match[1] as TravelMode, minutes };
+}
+
+export function formatIsochrone(spec: IsochroneSpec): string {
+  return `${spec.mode}:${spec.minutes}`;
+}
+
+/** Point at a distance (meters) and bearing (radians, 0 = north) from the origin */
+function offset(lat: number, lng: number, distance: number, bearing: number): [number, number] {
+  const dLat = (distance * Math.cos(bearing)) / 111320;
+  const dLng = (distance * Math.sin(bearing)) / (111320 * Math.cos((lat * Math.PI) / 180));
+  return [lng + dLng, lat + dLat];
+}
+
+function bearingTo(lat: number, lng: number, toLat: number, toLng: number): number {
+  const x = (toLng - lng) * Math.cos((lat * Math.PI) / 180);
+  const y = toLat - lat;
+  const bearing = Math.atan2(x, y);
+  return bearing < 0 ? bearing + 2 * Math.PI : bearing;
+}
+
+/** Polygon with one vertex per sector at the given distance */
+function sectorPolygon(lat: number, lng: number, distances: number[]): [number, number][] {
+  const ring = distances.map((distance, i) =>
+    offset(lat, lng, distance, ((i + 0.5) * 2 * Math.PI) / SECTORS)
+  );
+  ring.push(ring[0]);
+  return ring;
+}
+
+/**
+ * Compute the area reachable within the given travel time.
+ *
+ * Runs Dijkstra over the imported street graph (walk_edges) with a budget of
+ * speed × minutes, then builds a star-shaped polygon from the farthest reached
+ * node in each angular sector. Falls back to a circle when the area has no graph
+ * or the budget is over MAX_ROUTED_BUDGET.
+ *
+ * Bikes are routed on the same pedestrian graph: footways and paths count, and
+ * one-way streets can be ridden both ways, so bike catchments are approximate.
+ */
+export async function computeCatchment(
+  lat: number,
+  lng: number,
+  spec: IsochroneSpec
+): Promise<Catchment> {
+  const budget = TRAVEL_SPEEDS[spec.mode] * spec.minutes;
+  const latDelta = budget / 111320;
+  const lngDelta = budget / (111320 * Math.cos((lat * Math.PI) / 180));
+
+  let graph = null;
+  if (budget <= MAX_ROUTED_BUDGET) {
+    try {
+      graph = await loadWalkGraph({
+        minLat: lat - latDelta,
+        maxLat: lat + latDelta,
+        minLng: lng - lngDelta,
+        maxLng: lng + lngDelta,
+      });
+    } catch (error) {
+      console.error("Walk graph load failed, using circular catchment:", error);
+    }
+  }
+
+  const origin = graph?.nearestNode(lat, lng, MAX_SNAP_DISTANCE);
+
+  if (!graph || !origin) {
+    const radius = budget / DETOUR_FACTOR;
+    return {
+      ...spec,
+      polygon: sectorPolygon(lat, lng, new Array(SECTORS).fill(radius)),
+      reach: radius,
+      routed: false,
+    };
+  }
+
+  const reached = graph.shortestPaths(origin.node, budget - origin.distance);
+  const sectorReach = new Array(SECTORS).fill(NODE_BUFFER);
+
+  for (const node of reached.keys()) {
+    const position = graph.nodePosition(node);
+    const distance = haversineDistance(lat, lng, position.lat, position.lng) + NODE_BUFFER;
+    const sector = Math.floor(
+      (bearingTo(lat, lng, position.lat, position.lng) / (2 * Math.PI)) * SECTORS
+    ) % SECTORS;
+    sectorReach[sector] = Math.max(sectorReach[sector], distance);
+  }
+
+  return {
+    ...spec,
+    polygon: sectorPolygon(lat, lng, sectorReach),
+    reach: Math.max(...sectorReach),
+    routed: true,
+  };
+}
+
+/**
+ * Ray-casting point-in-polygon test for a [lng, lat] ring
+ */
+export function pointInPolygon(lat: number, lng: number, polygon: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
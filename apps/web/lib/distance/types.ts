@@ -0,0 +1,45 @@
+export type DistanceModelType = "haversine" | "walking";
+
+export interface Bounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+/** Distance in meters from a fixed origin; Infinity when unreachable within the limit */
+export type DistanceFn = (lat: number, lng: number) => number;
+
+/** Distances for origins inside a preloaded region */
+export interface RegionDistances {
+  /**
+   * Bind an origin. Destinations further than maxDistance may be reported as Infinity.
+   */
+  fromOrigin(lat: number, lng: number, maxDistance: number): DistanceFn;
+}
+
+export interface DistanceModel {
+  readonly type: DistanceModelType;
+  /**
+   * Load whatever the model needs for a region (e.g. the walking graph) once.
+   * Bounds must already include the search radius around the origins.
+   */
+  loadRegion(bounds: Bounds): Promise<RegionDistances>;
+}
+
+export type TravelMode = "walk" | "bike";
+
+export interface IsochroneSpec {
+  mode: TravelMode;
+  minutes: number;
+}
+
+/** Area reachable from a point within a travel time */
+export interface Catchment extends IsochroneSpec {
+  /** Closed polygon ring of [lng, lat] pairs (GeoJSON order) */
+  polygon: [number, number][];
+  /** Farthest polygon vertex from the origin in meters */
+  reach: number;
+  /** False when no street graph was available and a circle was used */
+  routed: boolean;
+}
@@ -0,0 +1,181 @@
+import { haversineDistance } from "./haversine";
+
+export interface WalkEdge {
+  fromNode: number;
+  toNode: number;
+  fromLat: number;
+  fromLng: number;
+  toLat: number;
+  toLng: number;
+  /** Edge length in meters */
+  length: number;
+}
+
+// Spatial grid cell size for nearest-node lookups (~200m)
+const GRID_CELL_DEGREES = 0.002;
+
+/** Binary min-heap of [node, distance] pairs for Dijkstra */
+class MinHeap {
+  private nodes: number[] = [];
+  private dists: number[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, dist: number): void {
+    this.nodes.push(node);
+    this.dists.push(dist);
+    let i = this.nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.dists[parent] <= this.dists[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): [number, number] {
+    const top: [number, number] = [this.nodes[0], this.dists[0]];
+    const lastNode = this.nodes.pop()!;
+    const lastDist = this.dists.pop()!;
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.dists[0] = lastDist;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.nodes.length && this.dists[left] < this.dists[smallest]) smallest = left;
+        if (right < this.nodes.length && this.dists[right] < this.dists[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.dists[a], this.dists[b]] = [this.dists[b], this.dists[a]];
+  }
+}
+
+/**
+ * In-memory undirected walking graph.
+ *
+ * Nodes are stored densely (index 0..n-1); OSM node IDs are only used while
+ * building. A coarse grid index makes nearest-node lookups cheap enough to
+ * snap every POI of a heatmap job.
+ */
+export class WalkGraph {
+  private lats: number[] = [];
+  private lngs: number[] = [];
+  private adjacency: { to: number; length: number }[][] = [];
+  private grid = new Map<string, number[]>();
+
+  constructor(edges: WalkEdge[]) {
+    const nodeIndex = new Map<number, number>();
+
+    const addNode = (osmId: number, lat: number, lng: number): number => {
+      let index = nodeIndex.get(osmId);
+      if (index === undefined) {
+        index = this.lats.length;
+        nodeIndex.set(osmId, index);
+        this.lats.push(lat);
+        this.lngs.push(lng);
+        this.adjacency.push([]);
+
+        const key = this.cellKey(lat, lng);
+        if (!this.grid.has(key)) this.grid.set(key, []);
+        this.grid.get(key)!.push(index);
+      }
+      return index;
+    };
+
+    for (const edge of edges) {
+      const from = addNode(edge.fromNode, edge.fromLat, edge.fromLng);
+      const to = addNode(edge.toNode, edge.toLat, edge.toLng);
+      // Pedestrians can walk both ways
+      this.adjacency[from].push({ to, length: edge.length });
+      this.adjacency[to].push({ to: from, length: edge.length });
+    }
+  }
+
+  get nodeCount(): number {
+    return this.lats.length;
+  }
+
+  nodePosition(node: number): { lat: number; lng: number } {
+    return { lat: this.lats[node], lng: this.lngs[node] };
+  }
+
+  private cellKey(lat: number, lng: number): string {
+    return `${Math.floor(lat / GRID_CELL_DEGREES)}:${Math.floor(lng / GRID_CELL_DEGREES)}`;
+  }
+
+  /**
+   * Find the closest graph node within maxDistance meters
+   */
+  nearestNode(
+    lat: number,
+    lng: number,
+    maxDistance: number
+  ): { node: number; distance: number } | null {
+    // Longitude cells are the narrower side, so size the search ring by them
+    const cellMeters = GRID_CELL_DEGREES * 111320 * Math.cos((lat * Math.PI) / 180);
+    const rings = Math.ceil(maxDistance / cellMeters);
+    const cellLat = Math.floor(lat / GRID_CELL_DEGREES);
+    const cellLng = Math.floor(lng / GRID_CELL_DEGREES);
+
+    let best: { node: number; distance: number } | null = null;
+
+    for (let dLat = -rings; dLat <= rings; dLat++) {
+      for (let dLng = -rings; dLng <= rings; dLng++) {
+        const candidates = this.grid.get(`${cellLat + dLat}:${cellLng + dLng}`);
+        if (!candidates) continue;
+
+        for (const node of candidates) {
+          const distance = haversineDistance(lat, lng, this.lats[node], this.lngs[node]);
+          if (distance <= maxDistance && (!best || distance < best.distance)) {
+            best = { node, distance };
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Dijkstra from a source node, stopping at maxDistance meters
+   *
+   * @returns Path length for every node reached within maxDistance
+   */
+  shortestPaths(source: number, maxDistance: number): Map<number, number> {
+    const settled = new Map<number, number>();
+    const best = new Map<number, number>([[source, 0]]);
+    const heap = new MinHeap();
+    heap.push(source, 0);
+
+    while (heap.size > 0) {
+      const [node, dist] = heap.pop();
+      if (settled.has(node)) continue;
+      settled.set(node, dist);
+
+      for (const { to, length } of this.adjacency[node]) {
+        const next = dist + length;
+        if (next > maxDistance || settled.has(to)) continue;
+        const known = best.get(to);
+        if (known === undefined || next < known) {
+          best.set(to, next);
+          heap.push(to, next);
+        }
+      }
+    }
+
+    return settled;
+  }
+}
@@ -0,0 +1,93 @@
+import { getDb } from "@/lib/db/client";
+import { walkEdges } from "@/lib/db/schema";
+import { and, gte, lte, or } from "drizzle-orm";
+import { haversineDistance, HaversineDistanceModel } from "./haversine";
+import { WalkGraph } from "./walk-graph";
+import type { Bounds, DistanceModel, RegionDistances } from "./types";
+
+// Points further than this from any walkable way are treated as outside the
+// imported graph and measured in a straight line instead
+export const MAX_SNAP_DISTANCE = 250;
+
+/**
+ * Load the walking graph for a region from walk_edges.
+ * Returns null when no edges were imported there.
+ */
+export async function loadWalkGraph(bounds: Bounds): Promise<WalkGraph | null> {
+  const db = getDb();
+
+  const rows = await db
+    .select({
+      fromNode: walkEdges.fromNode,
+      toNode: walkEdges.toNode,
+      fromLat: walkEdges.fromLat,
+      fromLng: walkEdges.fromLng,
+      toLat: walkEdges.toLat,
+      toLng: walkEdges.toLng,
+      length: walkEdges.length,
+    })
+    .from(walkEdges)
+    .where(
+      or(
+        and(
+          gte(walkEdges.fromLat, bounds.minLat),
+          lte(walkEdges.fromLat, bounds.maxLat),
+          gte(walkEdges.fromLng, bounds.minLng),
+          lte(walkEdges.fromLng, bounds.maxLng)
+        ),
+        and(
+          gte(walkEdges.toLat, bounds.minLat),
+          lte(walkEdges.toLat, bounds.maxLat),
+          gte(walkEdges.toLng, bounds.minLng),
+          lte(walkEdges.toLng, bounds.maxLng)
+        )
+      )
+    );
+
+  return rows.length > 0 ? new WalkGraph(rows) : null;
+}
+
+/**
+ * Routed walking distances over the imported OSM pedestrian graph (walk_edges).
+ *
+ * distance = origin → nearest node + shortest path + nearest node → POI
+ *
+ * Falls back to haversine where the graph has no coverage, so enabling it
+ * before importing a region changes nothing there.
+ */
+export class WalkingDistanceModel implements DistanceModel {
+  readonly type = "walking" as const;
+  private fallback = new HaversineDistanceModel();
+
+  async loadRegion(bounds: Bounds): Promise<RegionDistances> {
+    const graph = await loadWalkGraph(bounds);
+
+    if (!graph) {
+      return this.fallback.loadRegion();
+    }
+
+    return {
+      fromOrigin: (lat, lng, maxDistance) => {
+        const origin = graph.nearestNode(lat, lng, MAX_SNAP_DISTANCE);
+        if (!origin) {
+          return (poiLat, poiLng) => haversineDistance(lat, lng, poiLat, poiLng);
+        }
+
+        const reached = graph.shortestPaths(origin.node, maxDistance - origin.distance);
+
+        return (poiLat, poiLng) => {
+          const straight = haversineDistance(lat, lng, poiLat, poiLng);
+          const target = graph.nearestNode(poiLat, poiLng, MAX_SNAP_DISTANCE);
+          // POI away from any mapped way (e.g. inside a large park) - don't drop it
+          if (!target) return straight;
+
+          const path = reached.get(target.node);
+          if (path === undefined) return Infinity;
+
+          // Snapping can cut corners; walking is never shorter than straight-line
+          return Math.max(straight, origin.distance + path + target.distance);
+        };
+      },
+    };
+  }
+}
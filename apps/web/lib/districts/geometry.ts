@@ -0,0 +1,133 @@
+import { pointInPolygon, type Bounds } from "@/lib/distance";
+
+/**
+ * District geometry is stored as GeoJSON MultiPolygon coordinates:
+ * polygons of rings of [lng, lat] pairs, the first ring the outline,
+ * the others holes.
+ */
+
+export type Ring = [number, number][];
+export type MultiPolygonCoordinates = Ring[][];
+
+// Douglas-Peucker tolerance in degrees (~10m): district boundaries from OSM
+// carry far more detail than 250m heat cells or a city-wide map need
+const SIMPLIFY_TOLERANCE = 0.0001;
+
+export function pointInMultiPolygon(lat: number, lng: number, geometry: MultiPolygonCoordinates): boolean {
+  return geometry.some(
+    ([outer, ...holes]) =>
+      pointInPolygon(lat, lng, outer) && !holes.some((hole) => pointInPolygon(lat, lng, hole))
+  );
+}
+
+export function geometryBounds(geometry: MultiPolygonCoordinates): Bounds {
+  const bounds = { minLat: Infinity, maxLat: -Infinity, minLng: Infinity, maxLng: -Infinity };
+  for (const polygon of geometry) {
+    // Holes lie inside the outline
+    for (const [lng, lat] of polygon[0]) {
+      bounds.minLat = Math.min(bounds.minLat, lat);
+      bounds.maxLat = Math.max(bounds.maxLat, lat);
+      bounds.minLng = Math.min(bounds.minLng, lng);
+      bounds.maxLng = Math.max(bounds.maxLng, lng);
+    }
+  }
+  return bounds;
+}
+
+/**
+ * Squared distance from p to segment a-b (planar, fine at district scale)
+ */
+function segmentDistanceSq(p: [number, number], a: [number, number], b: [number, number]): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq));
+  const x = a[0] + t * dx - p[0];
+  const y = a[1] + t * dy - p[1];
+  return x * x + y * y;
+}
+
+function simplifyRing(ring: Ring, tolerance: number): Ring {
+  if (ring.length <= 4) return ring;
+
+  const keep = new Uint8Array(ring.length);
+  keep[0] = keep[ring.length - 1] = 1;
+  const toleranceSq = tolerance * tolerance;
+
+  // Iterative Douglas-Peucker (boundaries can have tens of thousands of points)
+  const stack: [number, number][] = [[0, ring.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const distance = segmentDistanceSq(ring[i], ring[first], ring[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > toleranceSq) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return ring.filter((_, i) => keep[i]);
+}
+
+/**
+ * Simplify every ring, dropping rings that collapse below a triangle
+ */
+export function simplifyGeometry(
+  geometry: MultiPolygonCoordinates,
+  tolerance: number = SIMPLIFY_TOLERANCE
+): MultiPolygonCoordinates {
+  return geometry
+    .map((polygon) => polygon.map((ring) => simplifyRing(ring, tolerance)).filter((ring) => ring.length >= 4))
+    .filter((polygon) => polygon.length > 0);
+}
+
+/**
+ * Join the member ways of an OSM multipolygon into closed rings.
+ * Ways are node ID lists that may run in either direction; ways that
+ * never close (clipped at the extract edge) are dropped.
+ */
+export function joinWays(ways: number[][]): number[][] {
+  const remaining = ways.filter((way) => way.length >= 2);
+  const rings: number[][] = [];
+
+  while (remaining.length > 0) {
+    const ring = [...remaining.pop()!];
+
+    while (ring[0] !== ring[ring.length - 1]) {
+      const end = ring[ring.length - 1];
+      const next = remaining.findIndex((way) => way[0] === end || way[way.length - 1] === end);
+      if (next === -1) break;
+
+      const [way] = remaining.splice(next, 1);
+      const oriented = way[0] === end ? way : [...way].reverse();
+      ring.push(...oriented.slice(1));
+    }
+
+    if (ring.length >= 4 && ring[0] === ring[ring.length - 1]) {
+      rings.push(ring);
+    }
+  }
+
+  return rings;
+}
+
+/**
+ * Group outer and inner rings into polygons: each hole goes to the
+ * outline that contains its first point
+ */
+export function buildMultiPolygon(outers: Ring[], inners: Ring[]): MultiPolygonCoordinates {
+  const polygons: MultiPolygonCoordinates = outers.map((outer) => [outer]);
+  for (const inner of inners) {
+    const [lng, lat] = inner[0];
+    const polygon = polygons.find(([outer]) => pointInPolygon(lat, lng, outer));
+    polygon?.push(inner);
+  }
+  return polygons;
+}
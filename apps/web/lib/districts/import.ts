@@ -0,0 +1,177 @@
+import { eq } from "drizzle-orm";
+import { getDb } from "@/lib/db/client";
+import { districts, type NewDistrict } from "@/lib/db/schema";
+import { slugify } from "@/lib/cities/import";
+import type { CityBounds } from "@/lib/cities";
+import type { OsmRelation, OsmTags } from "@/lib/osm/pbf";
+import {
+  buildMultiPolygon,
+  geometryBounds,
+  joinWays,
+  simplifyGeometry,
+  type MultiPolygonCoordinates,
+  type Ring,
+} from "./geometry";
+
+/**
+ * Parsing for `pnpm districts:import`.
+ *
+ * Two sources are accepted:
+ * - GeoJSON with Polygon/MultiPolygon features and a name property
+ * - OSM boundary relations (boundary=administrative at one admin_level)
+ *   from a .osm.pbf extract, assembled from their member ways
+ */
+
+const INSERT_BATCH_SIZE = 100; // Geometries make rows large
+
+export interface DistrictRecord {
+  name: string;
+  adminLevel: number | null;
+  geometry: MultiPolygonCoordinates;
+}
+
+function optionalInteger(value: unknown): number | null {
+  const n = typeof value === "number" ? value : parseInt(String(value ?? ""), 10);
+  return isNaN(n) ? null : n;
+}
+
+/**
+ * Parse a GeoJSON FeatureCollection (or single Feature).
+ * Features without a name or polygon geometry are skipped.
+ */
+export function parseGeoJSON(text: string, nameProperty: string = "name"): DistrictRecord[] {
+  const json = JSON.parse(text) as GeoJSON.FeatureCollection | GeoJSON.Feature;
+  const features = json.type === "FeatureCollection" ? json.features : [json];
+  const records: DistrictRecord[] = [];
+
+  for (const feature of features) {
+    const name = feature.properties?.[nameProperty];
+    if (typeof name !== "string" || !name.trim()) continue;
+
+    let geometry: MultiPolygonCoordinates;
+    if (feature.geometry?.type === "Polygon") {
+      geometry = [feature.geometry.coordinates as Ring[]];
+    } else if (feature.geometry?.type === "MultiPolygon") {
+      geometry = feature.geometry.coordinates as MultiPolygonCoordinates;
+    } else {
+      continue;
+    }
+
+    records.push({
+      name: name.trim(),
+      adminLevel: optionalInteger(feature.properties?.admin_level),
+      geometry,
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Whether an OSM relation is a named administrative boundary at the given level
+ */
+export function isDistrictRelation(tags: OsmTags, adminLevel: number): boolean {
+  return (
+    tags.boundary === "administrative" &&
+    tags.admin_level === String(adminLevel) &&
+    Boolean(tags.name)
+  );
+}
+
+/**
+ * Assemble a boundary relation into a MultiPolygon.
+ * Returns null when no outer ring closes (relation clipped by the extract).
+ */
+export function relationGeometry(
+  relation: OsmRelation,
+  wayRefs: Map<number, number[]>,
+  coords: Map<number, { lat: number; lng: number }>
+): MultiPolygonCoordinates | null {
+  const waysWithRole = (roles: string[]) =>
+    relation.members
+      .filter((m) => m.type === "way" && roles.includes(m.role) && wayRefs.has(m.ref))
+      .map((m) => wayRefs.get(m.ref)!);
+
+  // Rings with a node outside the extract are dropped
+  const toRings = (nodeRings: number[][]): Ring[] =>
+    nodeRings.flatMap((ring) => {
+      const points: Ring = [];
+      for (const id of ring) {
+        const node = coords.get(id);
+        if (!node) return [];
+        points.push([node.lng, node.lat]);
+      }
+      return [points];
+    });
+
+  // Untagged members are treated as outer, as many boundary relations omit the role
+  const outers = toRings(joinWays(waysWithRole(["outer", ""])));
+  const inners = toRings(joinWays(waysWithRole(["inner"])));
+  if (outers.length === 0) return null;
+
+  return buildMultiPolygon(outers, inners);
+}
+
+/**
+ * Turn parsed records into rows for a city: geometry is simplified, districts
+ * whose bounding box center lies outside the city bounds are skipped, and
+ * slugs are made unique within the city.
+ */
+export function toDistrictRows(
+  records: DistrictRecord[],
+  cityId: number,
+  cityBounds: CityBounds
+): { rows: NewDistrict[]; skipped: number } {
+  const used = new Set<string>();
+  const rows: NewDistrict[] = [];
+  let skipped = 0;
+
+  for (const record of records) {
+    const geometry = simplifyGeometry(record.geometry);
+    if (geometry.length === 0) {
+      skipped++;
+      continue;
+    }
+
+    const bounds = geometryBounds(geometry);
+    const centerLat = (bounds.minLat + bounds.maxLat) / 2;
+    const centerLng = (bounds.minLng + bounds.maxLng) / 2;
+    const inCity =
+      centerLat >= cityBounds.minLat &&
+      centerLat <= cityBounds.maxLat &&
+      centerLng >= cityBounds.minLng &&
+      centerLng <= cityBounds.maxLng;
+    const base = slugify(record.name);
+    if (!inCity || !base) {
+      skipped++;
+      continue;
+    }
+
+    let slug = base;
+    for (let n = 2; used.has(slug); n++) slug = `${base}-${n}`;
+    used.add(slug);
+
+    rows.push({
+      cityId,
+      slug,
+      name: record.name,
+      adminLevel: record.adminLevel,
+      geometry,
+      ...bounds,
+    });
+  }
+
+  return { rows, skipped };
+}
+
+/**
+ * Replace the districts of a city
+ */
+export async function saveDistricts(cityId: number, rows: NewDistrict[]): Promise<number> {
+  const db = getDb();
+  await db.delete(districts).where(eq(districts.cityId, cityId));
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db.insert(districts).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+  }
+  return rows.length;
+}
@@ -0,0 +1,67 @@
+import { asc, eq } from "drizzle-orm";
+import { getDb, isDbConfigured } from "@/lib/db/client";
+import { cities, districts, type District } from "@/lib/db/schema";
+import type { MultiPolygonCoordinates } from "./geometry";
+import type { DistrictLayerScore, DistrictWithGeometry } from "./types";
+
+/**
+ * Districts of the cities in the registry (filled by `pnpm districts:import`)
+ */
+
+export type { DistrictLayerScore, DistrictSummary, DistrictWithGeometry, RankedDistrict } from "./types";
+export { rankDistricts } from "./ranking";
+
+function toDistrict(row: District): DistrictWithGeometry {
+  return {
+    slug: row.slug,
+    name: row.name,
+    scores: (row.scores as Record<string, DistrictLayerScore> | null) ?? {},
+    geometry: row.geometry as MultiPolygonCoordinates,
+  };
+}
+
+/**
+ * All districts of a city, by name. Empty when the database is not configured.
+ */
+export async function listDistricts(cityId: number): Promise<DistrictWithGeometry[]> {
+  if (!isDbConfigured()) return [];
+
+  const rows = await getDb()
+    .select()
+    .from(districts)
+    .where(eq(districts.cityId, cityId))
+    .orderBy(asc(districts.name));
+
+  return rows.map(toDistrict);
+}
+
+/**
+ * City and district slugs of every district page (for the sitemap)
+ */
+export async function listDistrictPages(): Promise<{ citySlug: string; slug: string }[]> {
+  if (!isDbConfigured()) return [];
+
+  return getDb()
+    .select({ citySlug: cities.slug, slug: districts.slug })
+    .from(districts)
+    .innerJoin(cities, eq(districts.cityId, cities.id))
+    .orderBy(asc(cities.slug), asc(districts.slug));
+}
+
+/**
+ * Districts as GeoJSON for the map, with one property per scored layer
+ */
+export function toFeatureCollection(list: DistrictWithGeometry[]): GeoJSON.FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: list.map((district) => ({
+      type: "Feature",
+      properties: {
+        slug: district.slug,
+        name: district.name,
+        ...Object.fromEntries(Object.entries(district.scores).map(([layer, s]) => [layer, s.score])),
+      },
+      geometry: { type: "MultiPolygon", coordinates: district.geometry },
+    })),
+  };
+}
@@ -0,0 +1,20 @@
+import type { DistrictSummary, RankedDistrict } from "./types";
+
+/**
+ * Order districts by their score in a heat layer, best first.
+ * Districts without cells for the layer come last, unranked.
+ * Kept free of database imports so the ranking can re-sort in the browser.
+ */
+export function rankDistricts(districts: DistrictSummary[], layer: string): RankedDistrict[] {
+  const scored = districts
+    .filter((d) => d.scores[layer]?.cells > 0)
+    .sort((a, b) => b.scores[layer].score - a.scores[layer].score || a.name.localeCompare(b.name));
+  const unscored = districts
+    .filter((d) => !(d.scores[layer]?.cells > 0))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return [
+    ...scored.map((d, i) => ({ ...d, rank: i + 1, score: d.scores[layer].score })),
+    ...unscored.map((d) => ({ ...d, rank: null, score: null })),
+  ];
+}
@@ -0,0 +1,93 @@
+import { and, eq, gte, lte } from "drizzle-orm";
+import { getDb } from "@/lib/db/client";
+import { districts, heatCells, type District } from "@/lib/db/schema";
+import { HEATMAP_GRID_STEP } from "@/lib/constants";
+import type { Bounds } from "@/lib/distance";
+import { pointInMultiPolygon, type MultiPolygonCoordinates } from "./geometry";
+import type { DistrictLayerScore } from "./types";
+
+/**
+ * District scores: the mean of the base grid heat cells whose center lies
+ * inside the district, per heat layer. Cells are matched by position, so
+ * cells from regional jobs (no city_id) count as well.
+ */
+
+async function scoreDistrict(district: District): Promise<Record<string, DistrictLayerScore>> {
+  const geometry = district.geometry as MultiPolygonCoordinates;
+
+  const cells = await getDb()
+    .select({ lat: heatCells.lat, lng: heatCells.lng, score: heatCells.score, layer: heatCells.layer })
+    .from(heatCells)
+    .where(
+      and(
+        gte(heatCells.lat, district.minLat),
+        lte(heatCells.lat, district.maxLat),
+        gte(heatCells.lng, district.minLng),
+        lte(heatCells.lng, district.maxLng),
+        eq(heatCells.gridStep, HEATMAP_GRID_STEP)
+      )
+    );
+
+  // The same position appears once per layer - test it once
+  const inside = new Map<string, boolean>();
+  const sums = new Map<string, { total: number; cells: number }>();
+
+  for (const cell of cells) {
+    const key = `${cell.lat.toFixed(5)},${cell.lng.toFixed(5)}`;
+    let isInside = inside.get(key);
+    if (isInside === undefined) {
+      isInside = pointInMultiPolygon(cell.lat, cell.lng, geometry);
+      inside.set(key, isInside);
+    }
+    if (!isInside) continue;
+
+    const sum = sums.get(cell.layer) ?? { total: 0, cells: 0 };
+    sum.total += cell.score;
+    sum.cells++;
+    sums.set(cell.layer, sum);
+  }
+
+  const scores: Record<string, DistrictLayerScore> = {};
+  for (const [layer, sum] of sums) {
+    scores[layer] = { score: Math.round(sum.total / sum.cells), cells: sum.cells };
+  }
+  return scores;
+}
+
+async function scoreAll(rows: District[]): Promise<number> {
+  const database = getDb();
+  for (const district of rows) {
+    const scores = await scoreDistrict(district);
+    await database
+      .update(districts)
+      .set({ scores, scoredAt: new Date() })
+      .where(eq(districts.id, district.id));
+  }
+  return rows.length;
+}
+
+/**
+ * Re-score every district of a city
+ */
+export async function refreshCityDistrictScores(cityId: number): Promise<number> {
+  const rows = await getDb().select().from(districts).where(eq(districts.cityId, cityId));
+  return scoreAll(rows);
+}
+
+/**
+ * Re-score districts overlapping an area, e.g. after a heatmap job filled it in
+ */
+export async function refreshDistrictScoresInBounds(bounds: Bounds): Promise<number> {
+  const rows = await getDb()
+    .select()
+    .from(districts)
+    .where(
+      and(
+        lte(districts.minLat, bounds.maxLat),
+        gte(districts.maxLat, bounds.minLat),
+        lte(districts.minLng, bounds.maxLng),
+        gte(districts.maxLng, bounds.minLng)
+      )
+    );
+  return scoreAll(rows);
+}
@@ -0,0 +1,24 @@
+import type { MultiPolygonCoordinates } from "./geometry";
+
+/** Mean score of the base heat cells inside a district, per heat layer */
+export interface DistrictLayerScore {
+  score: number;
+  cells: number;
+}
+
+export interface DistrictSummary {
+  slug: string;
+  name: string;
+  /** Keyed by heat layer ("overall" or a category ID); empty until scored */
+  scores: Record<string, DistrictLayerScore>;
+}
+
+export interface DistrictWithGeometry extends DistrictSummary {
+  geometry: MultiPolygonCoordinates;
+}
+
+export interface RankedDistrict extends DistrictSummary {
+  /** 1-based, null when the layer has no cells in the district */
+  rank: number | null;
+  score: number | null;
+}
@@ -0,0 +1,137 @@
+import Pbf from "pbf";
+
+/**
+ * Minimal Mapbox Vector Tile encoder for heatmap grid cells.
+ *
+ * Every cell becomes one square polygon with a single "score" property.
+ * Spec: https://github.com/mapbox/vector-tile-spec/tree/master/2.1
+ */
+
+export const MVT_EXTENT = 4096;
+
+export interface TileCoords {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface TileCell {
+  /** South-west corner */
+  lat: number;
+  lng: number;
+  /** Edge length in degrees */
+  size: number;
+  score: number;
+}
+
+interface EncodedFeature {
+  valueIndex: number;
+  geometry: number[];
+}
+
+interface EncodedLayer {
+  name: string;
+  features: EncodedFeature[];
+  values: number[];
+}
+
+const MOVE_TO = 1;
+const LINE_TO = 2;
+const CLOSE_PATH = 7;
+const POLYGON = 3;
+
+/**
+ * Geographic bounds of a slippy-map tile (Web Mercator)
+ */
+export function tileBounds({ z, x, y }: TileCoords) {
+  const n = 2 ** z;
+  const toLat = (ty: number) => (Math.atan(Math.sinh(Math.PI * (1 - (2 * ty) / n))) * 180) / Math.PI;
+  return {
+    minLat: toLat(y + 1),
+    maxLat: toLat(y),
+    minLng: (x / n) * 360 - 180,
+    maxLng: ((x + 1) / n) * 360 - 180,
+  };
+}
+
+/**
+ * Project a coordinate into the tile's integer grid (0..MVT_EXTENT, y down)
+ */
+function project(lat: number, lng: number, { z, x, y }: TileCoords): [number, number] {
+  const n = 2 ** z;
+  const sin = Math.sin((lat * Math.PI) / 180);
+  const mercY = 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI);
+  const mercX = (lng + 180) / 360;
+  return [Math.round((mercX * n - x) * MVT_EXTENT), Math.round((mercY * n - y) * MVT_EXTENT)];
+}
+
+const command = (id: number, count: number) => (id & 0x7) | (count << 3);
+const zigzag = (n: number) => (n << 1) ^ (n >> 31);
+
+/**
+ * Square ring, clockwise in tile coordinates (exterior ring per the spec)
+ */
+function cellGeometry(cell: TileCell, tile: TileCoords): number[] | null {
+  const [left, bottom] = project(cell.lat, cell.lng, tile);
+  const [right, top] = project(cell.lat + cell.size, cell.lng + cell.size, tile);
+  if (right === left || bottom === top) return null; // Smaller than a tile unit
+
+  const ring = [
+    [left, top],
+    [right, top],
+    [right, bottom],
+    [left, bottom],
+  ];
+
+  const geometry = [command(MOVE_TO, 1), zigzag(ring[0][0]), zigzag(ring[0][1]), command(LINE_TO, 3)];
+  for (let i = 1; i < ring.length; i++) {
+    geometry.push(zigzag(ring[i][0] - ring[i - 1][0]), zigzag(ring[i][1] - ring[i - 1][1]));
+  }
+  geometry.push(command(CLOSE_PATH, 1));
+  return geometry;
+}
+
+function writeValue(value: number, pbf: Pbf) {
+  pbf.writeVarintField(5, value); // uint_value
+}
+
+function writeFeature(feature: EncodedFeature, pbf: Pbf) {
+  pbf.writePackedVarint(2, [0, feature.valueIndex]); // tags: "score" = value
+  pbf.writeVarintField(3, POLYGON);
+  pbf.writePackedVarint(4, feature.geometry);
+}
+
+function writeLayer(layer: EncodedLayer, pbf: Pbf) {
+  pbf.writeVarintField(15, 2); // version
+  pbf.writeStringField(1, layer.name);
+  for (const feature of layer.features) pbf.writeMessage(2, writeFeature, feature);
+  pbf.writeStringField(3, "score");
+  for (const value of layer.values) pbf.writeMessage(4, writeValue, value);
+  pbf.writeVarintField(5, MVT_EXTENT);
+}
+
+/**
+ * Encode cells as a single-layer vector tile. Scores are rounded to integers.
+ */
+export function encodeCellTile(cells: TileCell[], tile: TileCoords, layerName: string): Uint8Array {
+  const valueIndexes = new Map<number, number>();
+  const layer: EncodedLayer = { name: layerName, features: [], values: [] };
+
+  for (const cell of cells) {
+    const geometry = cellGeometry(cell, tile);
+    if (!geometry) continue;
+
+    const score = Math.round(cell.score);
+    let valueIndex = valueIndexes.get(score);
+    if (valueIndex === undefined) {
+      valueIndex = layer.values.length;
+      valueIndexes.set(score, valueIndex);
+      layer.values.push(score);
+    }
+    layer.features.push({ valueIndex, geometry });
+  }
+
+  const pbf = new Pbf();
+  pbf.writeMessage(3, writeLayer, layer);
+  return pbf.finish();
+}
@@ -0,0 +1,126 @@
+import { getDb } from "@/lib/db/client";
+import { heatCells, type NewHeatCell } from "@/lib/db/schema";
+import { and, eq, gte, inArray, lt, sql, type SQL } from "drizzle-orm";
+import { HEATMAP_GRID_STEP, HEATMAP_MAX_RESPONSE_CELLS, HEATMAP_PYRAMID } from "@/lib/constants";
+import type { Bounds } from "@/lib/distance";
+
+const BATCH_SIZE = 1000;
+
+/**
+ * Pyramid level for a heatmap request: by map zoom when given, otherwise the
+ * finest level that keeps the bbox under HEATMAP_MAX_RESPONSE_CELLS
+ */
+export function pickGridStep(bounds: Bounds, zoom?: number): number {
+  if (zoom !== undefined) {
+    const level = HEATMAP_PYRAMID.find((l) => zoom >= l.minZoom);
+    return (level ?? HEATMAP_PYRAMID[HEATMAP_PYRAMID.length - 1]).gridStep;
+  }
+
+  const latRange = bounds.maxLat - bounds.minLat;
+  const lngRange = bounds.maxLng - bounds.minLng;
+  const level = HEATMAP_PYRAMID.find(
+    (l) => (latRange / l.gridStep) * (lngRange / l.gridStep) <= HEATMAP_MAX_RESPONSE_CELLS
+  );
+  return (level ?? HEATMAP_PYRAMID[HEATMAP_PYRAMID.length - 1]).gridStep;
+}
+
+/**
+ * Coarsest pyramid level whose cells are no larger than the given size
+ */
+export function pyramidSourceStep(size: number): number {
+  let step = HEATMAP_GRID_STEP;
+  for (const level of HEATMAP_PYRAMID) {
+    if (level.gridStep <= size * (1 + 1e-9)) step = Math.max(step, level.gridStep);
+  }
+  return step;
+}
+
+/**
+ * SQL for the index of the square of the given size a cell of sourceStep falls into.
+ *
+ * Coordinates are stored as float4 (~1e-5° off at longitude 180), so the cell
+ * is first rounded to its index on its own grid. Numbers are inlined so the
+ * expression is identical in SELECT and GROUP BY.
+ */
+export function gridIndex(
+  column: typeof heatCells.lat | typeof heatCells.lng,
+  sourceStep: number,
+  size: number
+) {
+  const ratio = Math.round(size / sourceStep);
+  return sql<number>`floor(round(${column} / ${sql.raw(String(sourceStep))}) / ${sql.raw(String(ratio))})::int`;
+}
+
+/**
+ * Cells of sourceStep inside bounds snapped outwards to squares of the given size
+ */
+export function withinSquares(bounds: Bounds, sourceStep: number, size: number): SQL | undefined {
+  // Half a source cell of slack absorbs the float4 noise
+  const margin = sourceStep / 2;
+  return and(
+    gte(heatCells.lat, Math.floor(bounds.minLat / size) * size - margin),
+    lt(heatCells.lat, Math.ceil(bounds.maxLat / size) * size - margin),
+    gte(heatCells.lng, Math.floor(bounds.minLng / size) * size - margin),
+    lt(heatCells.lng, Math.ceil(bounds.maxLng / size) * size - margin),
+    eq(heatCells.gridStep, sourceStep)
+  );
+}
+
+/**
+ * Rebuild the coarser pyramid levels inside bounds by averaging base grid cells.
+ * Bounds are snapped outwards to each level's grid so edge cells average all of
+ * their base cells. Returns the number of coarse cells written.
+ */
+export async function buildHeatmapPyramid(
+  bounds: Bounds,
+  layers?: string[],
+  cityId: number | null = null
+): Promise<number> {
+  const database = getDb();
+  let written = 0;
+
+  for (const { gridStep } of HEATMAP_PYRAMID) {
+    if (gridStep === HEATMAP_GRID_STEP) continue;
+
+    const row = gridIndex(heatCells.lat, HEATMAP_GRID_STEP, gridStep);
+    const col = gridIndex(heatCells.lng, HEATMAP_GRID_STEP, gridStep);
+    const score = sql<number>`avg(${heatCells.score})::float8`;
+
+    const squares = await database
+      .select({ row, col, layer: heatCells.layer, score })
+      .from(heatCells)
+      .where(
+        and(
+          withinSquares(bounds, HEATMAP_GRID_STEP, gridStep),
+          layers ? inArray(heatCells.layer, layers) : undefined
+        )
+      )
+      .groupBy(row, col, heatCells.layer);
+
+    const values: NewHeatCell[] = squares.map((s) => ({
+      lat: Math.round(s.row * gridStep * 100000) / 100000,
+      lng: Math.round(s.col * gridStep * 100000) / 100000,
+      score: Math.round(s.score),
+      layer: s.layer,
+      gridStep,
+      cityId,
+      computedAt: new Date(),
+    }));
+
+    for (let i = 0; i < values.length; i += BATCH_SIZE) {
+      await database
+        .insert(heatCells)
+        .values(values.slice(i, i + BATCH_SIZE))
+        .onConflictDoUpdate({
+          target: [heatCells.lat, heatCells.lng, heatCells.gridStep, heatCells.layer],
+          set: {
+            score: sql`excluded.score`,
+            computedAt: sql`excluded.computed_at`,
+          },
+        });
+    }
+    written += values.length;
+  }
+
+  return written;
+}
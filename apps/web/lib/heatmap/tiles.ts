@@ -0,0 +1,50 @@
+import { getDb } from "@/lib/db/client";
+import { heatCells } from "@/lib/db/schema";
+import { and, eq, gte, sql } from "drizzle-orm";
+import {
+  HEATMAP_GRID_STEP,
+  HEATMAP_MIN_VISIBLE_SCORE,
+  HEATMAP_TILE_MAX_CELLS_ACROSS,
+} from "@/lib/constants";
+import { tileBounds, type TileCell, type TileCoords } from "./mvt";
+import { gridIndex, pyramidSourceStep, withinSquares } from "./pyramid";
+
+/**
+ * How many grid cells (per side) are averaged into one tile cell at a zoom level
+ */
+export function tileAggregationFactor(z: number): number {
+  const cellsAcross = 360 / 2 ** z / HEATMAP_GRID_STEP;
+  let factor = 1;
+  while (cellsAcross / factor > HEATMAP_TILE_MAX_CELLS_ACROSS) factor *= 2;
+  return factor;
+}
+
+/**
+ * Heat cells of a layer inside a tile, averaged into larger squares at low zooms.
+ * Squares are averaged from the coarsest pyramid level that fits into them.
+ * Bounds are snapped outwards to the aggregated grid, so a square always
+ * averages the same cells regardless of which tile requests it.
+ */
+export async function queryTileCells(tile: TileCoords, layer: string): Promise<TileCell[]> {
+  const bounds = tileBounds(tile);
+  const size = HEATMAP_GRID_STEP * tileAggregationFactor(tile.z);
+  const sourceStep = pyramidSourceStep(size);
+
+  const row = gridIndex(heatCells.lat, sourceStep, size);
+  const col = gridIndex(heatCells.lng, sourceStep, size);
+  const score = sql<number>`avg(${heatCells.score})::float8`;
+
+  const rows = await getDb()
+    .select({ row, col, score })
+    .from(heatCells)
+    .where(
+      and(
+        withinSquares(bounds, sourceStep, size),
+        eq(heatCells.layer, layer)
+      )
+    )
+    .groupBy(row, col)
+    .having(gte(score, HEATMAP_MIN_VISIBLE_SCORE));
+
+  return rows.map((r) => ({ lat: r.row * size, lng: r.col * size, size, score: r.score }));
+}
@@ -9,17 +9,45 @@
 
 import { getDb } from "@/lib/db/client";
 import { overturePois } from "@/lib/db/schema";
-import { and, gte, lte, inArray } from "drizzle-orm";
+import { and, gte, inArray, isNull, or } from "drizzle-orm";
+import { poiWithinBounds } from "@/lib/db/geohash";
 import { categories, getCategoryById } from "@/lib/score/categories";
+import { buildCategoryResult, calculateOverallScore, scoreCategory } from "@/lib/score/engine";
+import { POI_MIN_CONFIDENCE, confidenceWeight, summarizeDataQuality } from "@/lib/score/confidence";
+import type { ScoreResult, CategoryDefinition } from "@/lib/score/types";
+import type { POIQueryResult } from "@/lib/providers/poi/types";
+import { HEATMAP_OVERALL_LAYER, HEATMAP_OVERALL_CATEGORIES } from "@/lib/constants";
+import {
+  getDistanceModel,
+  haversineDistance,
+  HaversineDistanceModel,
+  measureWithin,
+  type DistanceFn,
+  type RegionDistances,
+} from "@/lib/distance";
 import {
   categoryIdsToOvertureCategories,
+  osmTagsToOvertureCategories,
   overtureCategoryToCategoryId,
+  overtureCategoryToOsmTag,
 } from "@/lib/providers/poi/category-map";
+import { isGTFSTransitEnabled, nearestWithinRadius } from "@/lib/providers/poi";
+import {
+  loadFeeds,
+  isCoveredByFeeds,
+  loadServedStops,
+  stopToPOI,
+  MAX_GTFS_STOPS,
+} from "@/lib/transit";
+import type { GtfsFeed, GtfsStop } from "@/lib/db/schema";
 
 interface POI {
+  id: string;
   lat: number;
   lng: number;
+  name: string | null;
   category: string; // overture category
+  confidence: number | null;
 }
 
 interface Bounds {
@@ -30,26 +58,33 @@ interface Bounds {
 }
 
 interface BatchCalculator {
+  /** Overall score only (heatmap cells) */
   calculateScore: (lat: number, lng: number) => number;
+  /** Full score with per-category results, same shape as calculateScore() in the engine */
+  calculateScoreResult: (lat: number, lng: number) => ScoreResult;
+  /**
+   * Score per heat layer: "overall" is the heatmap score of the overall categories,
+   * a category ID gets the same category score as /api/score
+   */
+  calculateLayerScores: (lat: number, lng: number, layers: string[]) => Record<string, number>;
   poiCount: number;
 }
 
-// Default categories for heatmap: groceries, restaurants, parks
-const DEFAULT_HEATMAP_CATEGORIES = ["groceries", "restaurants", "parks"];
-
 /**
  * Create a batch calculator that pre-loads all POIs for a region
  *
  * @param bounds - The region to process
  * @param categoryIds - Which categories to include (default: groceries, restaurants, parks)
- * @param buffer - Extra buffer in meters around bounds (default: 1500m for largest radius)
+ * @param options.buffer - Extra buffer in meters around bounds (default: 1500m for largest radius)
+ * @param options.verbose - Log what is loaded (heatmap jobs; off for API requests)
  */
 export async function createBatchCalculator(
   bounds: Bounds,
-  categoryIds: string[] = DEFAULT_HEATMAP_CATEGORIES,
-  buffer: number = 1500
+  categoryIds: string[] = HEATMAP_OVERALL_CATEGORIES,
+  { buffer = 1500, verbose = false }: { buffer?: number; verbose?: boolean } = {}
 ): Promise<BatchCalculator> {
   const db = getDb();
+  const log = verbose ? console.log : () => {};
 
   // Get category configs
   const selectedCategories = categoryIds
@@ -79,31 +114,34 @@ export async function createBatchCalculator(
   // Get all Overture categories for selected category IDs
   const overtureCategories = categoryIdsToOvertureCategories(categoryIds);
 
-  console.log(
+  log(
     `Loading POIs for region: ${expandedBounds.minLat.toFixed(4)},${expandedBounds.minLng.toFixed(4)} to ${expandedBounds.maxLat.toFixed(4)},${expandedBounds.maxLng.toFixed(4)}`
   );
-  console.log(`Categories: ${categoryIds.join(", ")}`);
-  console.log(`Overture categories: ${overtureCategories.length} types`);
+  log(`Categories: ${categoryIds.join(", ")}`);
+  log(`Overture categories: ${overtureCategories.length} types`);
 
   // Load ALL POIs for selected categories in ONE query
   const pois = await db
     .select({
+      id: overturePois.id,
       lat: overturePois.lat,
       lng: overturePois.lng,
+      name: overturePois.name,
       category: overturePois.category,
+      confidence: overturePois.confidence,
     })
     .from(overturePois)
     .where(
       and(
-        gte(overturePois.lat, expandedBounds.minLat),
-        lte(overturePois.lat, expandedBounds.maxLat),
-        gte(overturePois.lng, expandedBounds.minLng),
-        lte(overturePois.lng, expandedBounds.maxLng),
-        inArray(overturePois.category, overtureCategories)
+        inArray(overturePois.category, overtureCategories),
+        poiWithinBounds(expandedBounds),
+        isNull(overturePois.deletedAt),
+        // Same confidence threshold as LocalDBProvider
+        or(isNull(overturePois.confidence), gte(overturePois.confidence, POI_MIN_CONFIDENCE))
       )
     );
 
-  console.log(`Loaded ${pois.length} POIs into memory`);
+  log(`Loaded ${pois.length} POIs into memory`);
 
   // Group POIs by our category ID
   const poisByCategory = new Map<string, POI[]>();
@@ -119,21 +157,31 @@ export async function createBatchCalculator(
   }
 
   for (const [catId, catPois] of poisByCategory) {
-    console.log(`  ${catId}: ${catPois.length} POIs`);
+    log(`  ${catId}: ${catPois.length} POIs`);
   }
 
-  // Haversine distance calculation
-  const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-    const R = 6371000;
-    const dLat = ((lat2 - lat1) * Math.PI) / 180;
-    const dLng = ((lng2 - lng1) * Math.PI) / 180;
-    const a =
-      Math.sin(dLat / 2) ** 2 +
-      Math.cos((lat1 * Math.PI) / 180) *
-        Math.cos((lat2 * Math.PI) / 180) *
-        Math.sin(dLng / 2) ** 2;
-    return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  };
+  // GTFS stops replace Overture stations for transit inside imported feeds,
+  // same as the GTFS provider used by /api/score
+  let transitFeeds: GtfsFeed[] = [];
+  let transitStops: GtfsStop[] = [];
+  if (isGTFSTransitEnabled() && categoryIds.includes("transit")) {
+    transitFeeds = await loadFeeds(expandedBounds);
+    if (transitFeeds.length > 0) {
+      transitStops = await loadServedStops(expandedBounds);
+      log(`  transit: ${transitStops.length} GTFS stops from ${transitFeeds.length} feed(s)`);
+    }
+  }
+
+  // Load the distance model's data (e.g. walking graph) for the whole region once
+  const distanceModel = getDistanceModel();
+  let regionDistances: RegionDistances;
+  try {
+    regionDistances = await distanceModel.loadRegion(expandedBounds);
+  } catch (error) {
+    console.error(`${distanceModel.type} distance model failed, using haversine:`, error);
+    regionDistances = await new HaversineDistanceModel().loadRegion();
+  }
+  const routed = distanceModel.type !== "haversine";
 
   // Compress raw scores to 0-100 using exponential curve for values above 60.
   // Must match engine.ts compressScore() function!
@@ -147,7 +195,8 @@ export async function createBatchCalculator(
   const calculateCategoryScore = (
     lat: number,
     lng: number,
-    categoryId: string
+    categoryId: string,
+    distanceTo: DistanceFn
   ): number => {
     const categoryConfig = getCategoryById(categoryId);
     if (!categoryConfig) return 0;
@@ -173,13 +222,17 @@ export async function createBatchCalculator(
     );
 
     // Calculate actual distances for nearby POIs
-    const distances = nearby.map((poi) => calculateDistance(lat, lng, poi.lat, poi.lng));
-    const withinRadius = distances.filter((d) => d <= radius);
-
-    const count = withinRadius.length;
-    if (count === 0) return 0;
-
-    const nearestDistance = Math.min(...withinRadius);
+    const withinRadius = nearby
+      .map((poi) => ({ poi, distance: distanceTo(poi.lat, poi.lng) }))
+      .filter(({ distance }) => distance <= radius);
+    if (withinRadius.length === 0) return 0;
+
+    // Confidence-weighted, as in the engine
+    const count = withinRadius.reduce(
+      (sum, { poi }) => sum + confidenceWeight({ confidence: poi.confidence ?? undefined }),
+      0
+    );
+    const nearestDistance = Math.min(...withinRadius.map(({ distance }) => distance));
 
     // Count score (0-60 points)
     const countScore = (60 * Math.log(1 + count * k)) / logMax;
@@ -206,24 +259,133 @@ export async function createBatchCalculator(
     return rawScore;
   };
 
-  // Calculate total weight for selected categories
-  const totalWeight = selectedCategories.reduce((sum, c) => sum + c.weight, 0);
+  // Group POIs the way LocalDBProvider matches them (by each category's OSM tags),
+  // so full results line up with single-point scores from /api/score
+  const poisByCategoryTags = new Map<string, POI[]>();
+  for (const category of selectedCategories) {
+    const overtureSet = new Set(osmTagsToOvertureCategories(category.overpassTags));
+    poisByCategoryTags.set(
+      category.id,
+      pois.filter((poi) => overtureSet.has(poi.category))
+    );
+  }
+
+  // POIs the live engine would score for a category at a point
+  const categoryPois = (
+    category: CategoryDefinition,
+    lat: number,
+    lng: number,
+    distanceTo: DistanceFn
+  ): POIQueryResult => {
+    const dLat = category.radius / 111320;
+    const dLng = category.radius / (111320 * Math.cos((lat * Math.PI) / 180));
+    const inBox = (poi: { lat: number; lng: number }) =>
+      poi.lat >= lat - dLat &&
+      poi.lat <= lat + dLat &&
+      poi.lng >= lng - dLng &&
+      poi.lng <= lng + dLng;
+
+    // Same match, radius and cap as GTFSProvider / LocalDBProvider.queryPOIs()
+    const nearby =
+      category.id === "transit" && isCoveredByFeeds(lat, lng, transitFeeds)
+        ? nearestWithinRadius(
+            transitStops
+              .filter(inBox)
+              .map((stop) => stopToPOI(stop, lat, lng))
+              .filter((poi) => category.overpassTags.includes(poi.category)),
+            category.radius,
+            MAX_GTFS_STOPS
+          )
+        : nearestWithinRadius(
+            (poisByCategoryTags.get(category.id) || []).filter(inBox).map((poi) => ({
+              id: poi.id,
+              lat: poi.lat,
+              lng: poi.lng,
+              name: poi.name,
+              category:
+                overtureCategoryToOsmTag(poi.category, category.overpassTags) || poi.category,
+              tags: {},
+              distance: haversineDistance(lat, lng, poi.lat, poi.lng),
+              ...(poi.confidence !== null && { confidence: poi.confidence }),
+            })),
+            category.radius
+          );
+
+    // Same as calculateScore() in the engine: routed models re-measure and filter by radius
+    if (!routed) return nearby;
+    const measured = measureWithin(nearby.pois, distanceTo, category.radius);
+    return { pois: measured, totalCount: nearby.totalCount - nearby.pois.length + measured.length };
+  };
+
+  // Heatmap overall score of a set of categories
+  const overallScore = (
+    lat: number,
+    lng: number,
+    scoredCategories: CategoryDefinition[],
+    distanceTo: DistanceFn
+  ): number => {
+    const totalWeight = scoredCategories.reduce((sum, c) => sum + c.weight, 0);
+    let weightedSum = 0;
+
+    for (const category of scoredCategories) {
+      const score = calculateCategoryScore(lat, lng, category.id, distanceTo);
+      weightedSum += score * category.weight;
+    }
+
+    // Weighted average, then compress overall score
+    const avgScore = weightedSum / totalWeight;
+    return compressScore(Math.round(avgScore));
+  };
+
+  const overallCategories = selectedCategories.filter((c) =>
+    HEATMAP_OVERALL_CATEGORIES.includes(c.id)
+  );
 
   // Return calculator function that uses in-memory POIs
   return {
     poiCount: pois.length,
     calculateScore: (lat: number, lng: number): number => {
-      // Calculate score for each category
-      let weightedSum = 0;
-
-      for (const category of selectedCategories) {
-        const score = calculateCategoryScore(lat, lng, category.id);
-        weightedSum += score * category.weight;
+      const distanceTo = regionDistances.fromOrigin(lat, lng, maxRadius);
+      return overallScore(lat, lng, selectedCategories, distanceTo);
+    },
+    calculateLayerScores: (lat: number, lng: number, layers: string[]): Record<string, number> => {
+      const distanceTo = regionDistances.fromOrigin(lat, lng, maxRadius);
+      const scores: Record<string, number> = {};
+
+      for (const layer of layers) {
+        if (layer === HEATMAP_OVERALL_LAYER) {
+          if (overallCategories.length !== HEATMAP_OVERALL_CATEGORIES.length) {
+            throw new Error("Overall layer needs all overall categories loaded");
+          }
+          scores[layer] = overallScore(lat, lng, overallCategories, distanceTo);
+          continue;
+        }
+
+        const category = selectedCategories.find((c) => c.id === layer);
+        if (!category) throw new Error(`Category not loaded for layer: ${layer}`);
+        const { pois: nearby, totalCount } = categoryPois(category, lat, lng, distanceTo);
+        scores[layer] = scoreCategory(category, nearby, totalCount);
       }
 
-      // Weighted average, then compress overall score
-      const avgScore = weightedSum / totalWeight;
-      return compressScore(Math.round(avgScore));
+      return scores;
+    },
+    calculateScoreResult: (lat: number, lng: number): ScoreResult => {
+      const distanceTo = regionDistances.fromOrigin(lat, lng, maxRadius);
+
+      const categoryResults = selectedCategories.map((category) => {
+        const { pois: nearby, totalCount } = categoryPois(category, lat, lng, distanceTo);
+        return buildCategoryResult(category, nearby, false, totalCount);
+      });
+
+      const dataQuality = summarizeDataQuality(categoryResults);
+      return {
+        lat,
+        lng,
+        overall: calculateOverallScore(categoryResults, selectedCategories),
+        categories: categoryResults,
+        computedAt: new Date().toISOString(),
+        ...(dataQuality && { dataQuality }),
+      };
     },
   };
 }
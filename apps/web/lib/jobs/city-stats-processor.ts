@@ -0,0 +1,101 @@
+import { sql } from "drizzle-orm";
+import { getDb } from "@/lib/db/client";
+import { cityStats, type Job } from "@/lib/db/schema";
+import { calculateScore } from "@/lib/score/engine";
+import { summarizeScores, type ScoreDistribution } from "@/lib/city-scores";
+import { updateJobProgress, markJobCompleted, markJobFailed } from "./scheduler";
+import type { CityStatsJobMetadata } from "./types";
+import type { ProcessResult } from "./heatmap-processor";
+
+// Each sample runs the full live scoring (one POI query per category)
+const DEFAULT_CHUNK_SIZE = parseInt(process.env.CITY_STATS_CHUNK_SIZE || "10", 10);
+
+/**
+ * Store the distribution of all sample scores for the job's city
+ */
+async function saveCityStats(cityId: number, scores: CityStatsJobMetadata["scores"]): Promise<void> {
+  const overall = summarizeScores(scores.map((s) => s.overall));
+
+  const categoryScores = new Map<string, number[]>();
+  for (const sample of scores) {
+    for (const [id, score] of Object.entries(sample.categories)) {
+      const values = categoryScores.get(id) ?? [];
+      values.push(score);
+      categoryScores.set(id, values);
+    }
+  }
+  const categories: Record<string, ScoreDistribution> = {};
+  for (const [id, values] of categoryScores) {
+    categories[id] = summarizeScores(values);
+  }
+
+  await getDb()
+    .insert(cityStats)
+    .values({ cityId, overall, categories, sampleCount: scores.length, computedAt: new Date() })
+    .onConflictDoUpdate({
+      target: cityStats.cityId,
+      set: {
+        overall: sql`excluded.overall`,
+        categories: sql`excluded.categories`,
+        sampleCount: sql`excluded.sample_count`,
+        computedAt: sql`excluded.computed_at`,
+      },
+    });
+}
+
+/**
+ * Score a chunk of a city_stats job's samples.
+ * When the last chunk is done, the distribution is written to city_stats.
+ */
+export async function processCityStatsChunk(
+  job: Job,
+  chunkSize: number = DEFAULT_CHUNK_SIZE
+): Promise<ProcessResult> {
+  const metadata = job.metadata as CityStatsJobMetadata;
+
+  if (!job.cityId || !metadata?.samples?.length) {
+    await markJobFailed(job.id, "Job metadata missing city or samples");
+    return { processed: 0, errors: 1, hasMore: false, progress: 0 };
+  }
+
+  const startIndex = metadata.lastProcessedIndex ?? 0;
+  const endIndex = Math.min(startIndex + chunkSize, metadata.samples.length);
+  const scores = [...(metadata.scores ?? [])];
+
+  let processed = 0;
+  let errors = 0;
+
+  for (const sample of metadata.samples.slice(startIndex, endIndex)) {
+    try {
+      const result = await calculateScore(sample.lat, sample.lng);
+      scores.push({
+        overall: result.overall,
+        categories: Object.fromEntries(result.categories.map((c) => [c.id, c.score])),
+      });
+      processed++;
+    } catch (error) {
+      errors++;
+      console.error(`Error at ${sample.lat},${sample.lng}:`, error);
+    }
+  }
+
+  const hasMore = endIndex < metadata.samples.length;
+  const progress = Math.round((endIndex / metadata.samples.length) * 100);
+
+  await updateJobProgress(job.id, progress, {
+    ...metadata,
+    scores,
+    lastProcessedIndex: endIndex,
+  });
+
+  if (!hasMore) {
+    if (scores.length === 0) {
+      await markJobFailed(job.id, "No sample could be scored");
+      return { processed, errors, hasMore, progress };
+    }
+    await saveCityStats(job.cityId, scores);
+    await markJobCompleted(job.id);
+  }
+
+  return { processed, errors, hasMore, progress };
+}
@@ -1,20 +1,21 @@
 import { getDb } from "@/lib/db/client";
 import { heatCells, type Job } from "@/lib/db/schema";
-import { sql, and, gte, lte, eq } from "drizzle-orm";
-import { calculateGroceryScore } from "@/lib/score/engine";
+import { sql, and, gte, lte, eq, inArray } from "drizzle-orm";
 import {
   updateJobProgress,
   markJobCompleted,
   markJobFailed,
 } from "./scheduler";
-import type { HeatmapJobMetadata } from "./types";
+import { getJobLayers, layerCategoryIds, type HeatmapJobMetadata } from "./types";
 import { createBatchCalculator } from "./batch-score-calculator";
+import { buildHeatmapPyramid } from "@/lib/heatmap/pyramid";
+import { refreshDistrictScoresInBounds } from "@/lib/districts/scores";
 
 const DEFAULT_CHUNK_SIZE = parseInt(process.env.HEATMAP_CHUNK_SIZE || "100", 10);
 const BATCH_SIZE = 1000; // Large batches for fewer DB round-trips
 const BATCH_DELAY_MS = 0; // No delay needed for local DB
 
-// Cache for batch calculator (one per job bounds)
+// Cache for batch calculator (one per job bounds and category set)
 let cachedCalculator: {
   boundsKey: string;
   calculator: Awaited<ReturnType<typeof createBatchCalculator>>;
@@ -69,30 +70,33 @@ function generateGridPoints(
 }
 
 /**
- * Get or create a batch calculator for the given job bounds
+ * Get or create a batch calculator for the given job bounds and layers
  * Caches the calculator to avoid reloading POIs on every chunk
  */
-async function getBatchCalculator(bounds: HeatmapJobMetadata["bounds"]) {
-  const boundsKey = `${bounds.minLat},${bounds.minLng},${bounds.maxLat},${bounds.maxLng}`;
+async function getBatchCalculator(bounds: HeatmapJobMetadata["bounds"], layers: string[]) {
+  const categoryIds = layerCategoryIds(layers);
+  const boundsKey = `${bounds.minLat},${bounds.minLng},${bounds.maxLat},${bounds.maxLng}:${categoryIds.join(",")}`;
 
   if (cachedCalculator && cachedCalculator.boundsKey === boundsKey) {
     return cachedCalculator.calculator;
   }
 
   console.log("Creating batch calculator (loading POIs into memory)...");
-  const calculator = await createBatchCalculator(bounds);
+  const calculator = await createBatchCalculator(bounds, categoryIds, { verbose: true });
   cachedCalculator = { boundsKey, calculator };
   return calculator;
 }
 
 /**
- * Filter out points that already have computed cells in the database
+ * Filter out points that already have up-to-date cells in the database.
+ * Each remaining point lists the layers it is still missing or has stale.
  */
 async function filterExistingCells(
   points: Array<{ lat: number; lng: number; index: number }>,
-  gridStep: number
-): Promise<Array<{ lat: number; lng: number; index: number }>> {
-  if (points.length === 0) return points;
+  gridStep: number,
+  layers: string[]
+): Promise<Array<{ lat: number; lng: number; index: number; layers: string[] }>> {
+  if (points.length === 0) return [];
 
   const database = getDb();
 
@@ -104,9 +108,9 @@ async function filterExistingCells(
   const minLng = Math.min(...lngs);
   const maxLng = Math.max(...lngs);
 
-  // Query existing cells in this batch's bounds
+  // Query existing cells in this batch's bounds; stale ones are computed again
   const existingCells = await database
-    .select({ lat: heatCells.lat, lng: heatCells.lng })
+    .select({ lat: heatCells.lat, lng: heatCells.lng, layer: heatCells.layer })
     .from(heatCells)
     .where(
       and(
@@ -114,19 +118,26 @@ async function filterExistingCells(
         lte(heatCells.lat, maxLat + 0.0001),
         gte(heatCells.lng, minLng - 0.0001),
         lte(heatCells.lng, maxLng + 0.0001),
-        eq(heatCells.gridStep, gridStep)
+        eq(heatCells.gridStep, gridStep),
+        inArray(heatCells.layer, layers),
+        eq(heatCells.stale, false)
       )
     );
 
   // Create lookup set (round to avoid floating point issues)
   const existingSet = new Set(
-    existingCells.map(c => `${c.lat.toFixed(5)},${c.lng.toFixed(5)}`)
+    existingCells.map(c => `${c.lat.toFixed(5)},${c.lng.toFixed(5)},${c.layer}`)
   );
 
-  // Filter out existing points
-  return points.filter(p =>
-    !existingSet.has(`${p.lat.toFixed(5)},${p.lng.toFixed(5)}`)
-  );
+  // Keep points with at least one missing layer
+  return points
+    .map(p => ({
+      ...p,
+      layers: layers.filter(
+        (layer) => !existingSet.has(`${p.lat.toFixed(5)},${p.lng.toFixed(5)},${layer}`)
+      ),
+    }))
+    .filter(p => p.layers.length > 0);
 }
 
 /**
@@ -149,7 +160,8 @@ export async function processHeatmapChunk(
   }
 
   // Get batch calculator (loads POIs into memory on first call)
-  const batchCalculator = await getBatchCalculator(metadata.bounds);
+  const layers = getJobLayers(metadata);
+  const batchCalculator = await getBatchCalculator(metadata.bounds, layers);
 
   const allPoints = generateGridPoints(metadata.bounds, metadata.gridStep);
   const startIndex = metadata.lastProcessedIndex ?? 0;
@@ -159,7 +171,8 @@ export async function processHeatmapChunk(
   // Filter out cells that already exist in the database
   const newPointsToProcess = await filterExistingCells(
     pointsToProcess,
-    metadata.gridStep
+    metadata.gridStep,
+    layers
   );
 
   // Log skip count
@@ -178,18 +191,18 @@ export async function processHeatmapChunk(
     // Calculate scores in memory (no await needed - synchronous)
     const results = batch.map((point) => {
       try {
-        const score = batchCalculator.calculateScore(point.lat, point.lng);
+        const scores = batchCalculator.calculateLayerScores(point.lat, point.lng, point.layers);
         return {
           lat: point.lat,
           lng: point.lng,
-          score: Math.round(score),
+          scores,
           error: null as string | null,
         };
       } catch (error) {
         return {
           lat: point.lat,
           lng: point.lng,
-          score: 0,
+          scores: {} as Record<string, number>,
           error: error instanceof Error ? error.message : "Unknown error",
         };
       }
@@ -208,23 +221,27 @@ export async function processHeatmapChunk(
     // Batch insert all successful results
     if (successfulResults.length > 0) {
       try {
-        const values = successfulResults.map((result) => ({
-          lat: result.lat,
-          lng: result.lng,
-          score: result.score,
-          gridStep: metadata.gridStep,
-          cityId: job.cityId,
-          computedAt: new Date(),
-        }));
-
-        // Use ON CONFLICT to upsert (requires unique index on lat, lng, gridStep)
+        const values = successfulResults.flatMap((result) =>
+          Object.entries(result.scores).map(([layer, score]) => ({
+            lat: result.lat,
+            lng: result.lng,
+            score: Math.round(score),
+            layer,
+            gridStep: metadata.gridStep,
+            cityId: job.cityId,
+            computedAt: new Date(),
+          }))
+        );
+
+        // Use ON CONFLICT to upsert (requires unique index on lat, lng, gridStep, layer)
         await database
           .insert(heatCells)
           .values(values)
           .onConflictDoUpdate({
-            target: [heatCells.lat, heatCells.lng, heatCells.gridStep],
+            target: [heatCells.lat, heatCells.lng, heatCells.gridStep, heatCells.layer],
             set: {
               score: sql`excluded.score`,
+              stale: false,
               computedAt: sql`excluded.computed_at`,
             },
           });
@@ -242,6 +259,25 @@ export async function processHeatmapChunk(
     }
   }
 
+  // Refresh the coarser levels for the rows this chunk touched, so zoomed-out
+  // views fill in while the job runs
+  if (pointsToProcess.length > 0) {
+    try {
+      await buildHeatmapPyramid(
+        {
+          minLat: pointsToProcess[0].lat,
+          maxLat: pointsToProcess[pointsToProcess.length - 1].lat,
+          minLng: metadata.bounds.minLng,
+          maxLng: metadata.bounds.maxLng,
+        },
+        layers,
+        job.cityId
+      );
+    } catch (dbError) {
+      console.error(`Pyramid build error:`, dbError);
+    }
+  }
+
   const newIndex = endIndex;
   const hasMore = newIndex < allPoints.length;
   const progress = Math.round((newIndex / allPoints.length) * 100);
@@ -257,6 +293,13 @@ export async function processHeatmapChunk(
     await markJobCompleted(job.id);
     // Clear the cached calculator when job completes
     cachedCalculator = null;
+
+    // District rankings average the cells this job filled in
+    try {
+      await refreshDistrictScoresInBounds(metadata.bounds);
+    } catch (dbError) {
+      console.error(`District score error:`, dbError);
+    }
   }
 
   return {
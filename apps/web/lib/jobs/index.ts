@@ -1,3 +1,4 @@
 export * from "./types";
 export * from "./scheduler";
 export * from "./heatmap-processor";
+export * from "./city-stats-processor";
@@ -1,9 +1,16 @@
 import { getDb } from "@/lib/db/client";
-import { jobs, cities, heatCells, overturePois } from "@/lib/db/schema";
-import { eq, and, lt, asc, sql, or, gte, lte } from "drizzle-orm";
-import { JOB_TYPES, JOB_STATUS, type HeatmapJobMetadata } from "./types";
-import { getCityBounds, type CityBounds } from "@/lib/cities/bounds";
-import { HEATMAP_GRID_STEP } from "@/lib/constants";
+import { jobs, heatCells, overturePois } from "@/lib/db/schema";
+import { eq, and, lt, asc, sql, or, gte, lte, isNull } from "drizzle-orm";
+import {
+  JOB_TYPES,
+  JOB_STATUS,
+  type HeatmapJobMetadata,
+  type CityStatsJobMetadata,
+  type JobMetadata,
+} from "./types";
+import { getCity, cityBounds, type CityBounds } from "@/lib/cities";
+import { sampleCityPoints } from "@/lib/cities/sampling";
+import { HEATMAP_GRID_STEP, HEATMAP_OVERALL_LAYER, CITY_STATS_SAMPLE_COUNT } from "@/lib/constants";
 const REGION_SIZE = 0.15; // ~15km region for auto-scheduled jobs
 const STALE_JOB_MINUTES = 10;
 const MAX_CONCURRENT_JOBS = parseInt(process.env.MAX_CONCURRENT_JOBS || "4", 10);
@@ -14,31 +21,33 @@ export interface ScheduleResult {
   isNew: boolean;
 }
 
+// Jobs created before heat layers have no "layers" and compute the overall layer
+function jobHasLayer(layer: string) {
+  return layer === HEATMAP_OVERALL_LAYER
+    ? sql`(${jobs.metadata}->'layers' IS NULL OR ${jobs.metadata}->'layers' ? ${layer})`
+    : sql`${jobs.metadata}->'layers' ? ${layer}`;
+}
+
 /**
  * Schedule a heatmap computation job for a city
  */
 export async function scheduleHeatmapJob(
   citySlug: string,
-  bounds?: CityBounds
+  bounds?: CityBounds,
+  layer: string = HEATMAP_OVERALL_LAYER
 ): Promise<ScheduleResult | null> {
   const database = getDb();
 
-  // Get bounds from static config if not provided
-  const jobBounds = bounds ?? getCityBounds(citySlug);
+  // Get bounds from the city registry if not provided
+  const city = await getCity(citySlug);
+  const jobBounds = bounds ?? (city ? cityBounds(city) : null);
   if (!jobBounds) {
     return null;
   }
 
-  // Check if city exists in database (only need id)
-  const [city] = await database
-    .select({ id: cities.id })
-    .from(cities)
-    .where(eq(cities.slug, citySlug))
-    .limit(1);
-
   const cityId = city?.id ?? null;
 
-  // Check for existing pending or running job for this city with same grid step
+  // Check for existing pending or running job for this city with same grid step and layer
   const existingJob = await database
     .select()
     .from(jobs)
@@ -50,7 +59,8 @@ export async function scheduleHeatmapJob(
           eq(jobs.status, JOB_STATUS.RUNNING)
         ),
         cityId ? eq(jobs.cityId, cityId) : sql`1=1`,
-        sql`(metadata->>'gridStep')::float = ${HEATMAP_GRID_STEP}`
+        sql`(metadata->>'gridStep')::float = ${HEATMAP_GRID_STEP}`,
+        jobHasLayer(layer)
       )
     )
     .limit(1);
@@ -71,6 +81,7 @@ export async function scheduleHeatmapJob(
   const metadata: HeatmapJobMetadata = {
     bounds: jobBounds,
     gridStep: HEATMAP_GRID_STEP,
+    layers: [layer],
     lastProcessedIndex: 0,
   };
 
@@ -94,6 +105,74 @@ export async function scheduleHeatmapJob(
   };
 }
 
+/**
+ * Schedule a city_stats job: score sampled locations across a city
+ * and store the score distribution
+ */
+export async function scheduleCityStatsJob(
+  citySlug: string,
+  sampleCount: number = CITY_STATS_SAMPLE_COUNT
+): Promise<ScheduleResult | null> {
+  const database = getDb();
+
+  const city = await getCity(citySlug);
+  const bounds = city ? cityBounds(city) : null;
+  if (!city || !bounds) {
+    return null;
+  }
+
+  // Check for existing pending or running job for this city
+  const existingJob = await database
+    .select()
+    .from(jobs)
+    .where(
+      and(
+        eq(jobs.type, JOB_TYPES.CITY_STATS),
+        or(
+          eq(jobs.status, JOB_STATUS.PENDING),
+          eq(jobs.status, JOB_STATUS.RUNNING)
+        ),
+        eq(jobs.cityId, city.id)
+      )
+    )
+    .limit(1);
+
+  if (existingJob.length > 0) {
+    return {
+      jobId: existingJob[0].id,
+      status: existingJob[0].status,
+      isNew: false,
+    };
+  }
+
+  // Seeded by city ID, so re-computing draws the same locations
+  const samples = await sampleCityPoints(bounds, sampleCount, city.id);
+
+  const metadata: CityStatsJobMetadata = {
+    samples,
+    scores: [],
+    lastProcessedIndex: 0,
+  };
+
+  const [newJob] = await database
+    .insert(jobs)
+    .values({
+      type: JOB_TYPES.CITY_STATS,
+      status: JOB_STATUS.PENDING,
+      cityId: city.id,
+      progress: 0,
+      totalItems: samples.length,
+      metadata,
+    })
+    .returning();
+
+  return {
+    jobId: newJob.id,
+    status: newJob.status,
+    isNew: true,
+  };
+}
+
 /**
  * Get count of currently running jobs
  */
@@ -240,7 +319,7 @@ export async function markJobFailed(jobId: number, error: string): Promise<void>
 export async function updateJobProgress(
   jobId: number,
   progress: number,
-  metadata?: Partial<HeatmapJobMetadata>
+  metadata?: Partial<JobMetadata>
 ): Promise<void> {
   const database = getDb();
 
@@ -253,7 +332,7 @@ export async function updateJobProgress(
       .from(jobs)
       .where(eq(jobs.id, jobId));
 
-    const currentMetadata = (currentJob?.metadata as HeatmapJobMetadata) ?? {};
+    const currentMetadata = (currentJob?.metadata as JobMetadata) ?? {};
     updates.metadata = { ...currentMetadata, ...metadata };
   }
 
@@ -313,7 +392,8 @@ export async function canStartNewJob(): Promise<boolean> {
  */
 export async function hasHeatmapCoverage(
   lat: number,
-  lng: number
+  lng: number,
+  layer: string = HEATMAP_OVERALL_LAYER
 ): Promise<boolean> {
   const database = getDb();
 
@@ -327,7 +407,8 @@ export async function hasHeatmapCoverage(
         lte(heatCells.lat, lat + HEATMAP_GRID_STEP),
         gte(heatCells.lng, lng - HEATMAP_GRID_STEP),
         lte(heatCells.lng, lng + HEATMAP_GRID_STEP),
-        eq(heatCells.gridStep, HEATMAP_GRID_STEP)
+        eq(heatCells.gridStep, HEATMAP_GRID_STEP),
+        eq(heatCells.layer, layer)
       )
     )
     .limit(1);
@@ -353,7 +434,8 @@ async function hasPoisInRegion(
         gte(overturePois.lat, lat - radiusDegrees),
         lte(overturePois.lat, lat + radiusDegrees),
         gte(overturePois.lng, lng - radiusDegrees),
-        lte(overturePois.lng, lng + radiusDegrees)
+        lte(overturePois.lng, lng + radiusDegrees),
+        isNull(overturePois.deletedAt)
       )
     )
     .limit(1);
@@ -362,9 +444,9 @@ async function hasPoisInRegion(
 }
 
 /**
- * Check if there's already a pending/running job that covers a point
+ * Check if there's already a pending/running job that covers a point for a layer
  */
-async function hasOverlappingJob(lat: number, lng: number): Promise<boolean> {
+async function hasOverlappingJob(lat: number, lng: number, layer: string): Promise<boolean> {
   const database = getDb();
 
   const activeJobs = await database
@@ -376,7 +458,8 @@ async function hasOverlappingJob(lat: number, lng: number): Promise<boolean> {
         or(
           eq(jobs.status, JOB_STATUS.PENDING),
           eq(jobs.status, JOB_STATUS.RUNNING)
-        )
+        ),
+        jobHasLayer(layer)
       )
     );
 
@@ -394,21 +477,24 @@ async function hasOverlappingJob(lat: number, lng: number): Promise<boolean> {
 }
 
 /**
- * Schedule a heatmap job for a region around a point (auto-triggered)
+ * Schedule a heatmap job for a region around a point (auto-triggered).
+ * With `requirePois` false, regions without POIs are scheduled too.
  */
 export async function scheduleRegionalHeatmapJob(
   lat: number,
-  lng: number
+  lng: number,
+  layer: string = HEATMAP_OVERALL_LAYER,
+  requirePois: boolean = true
 ): Promise<ScheduleResult | null> {
   const database = getDb();
 
   // Check if there's already a job covering this area
-  if (await hasOverlappingJob(lat, lng)) {
+  if (await hasOverlappingJob(lat, lng, layer)) {
     return null;
   }
 
   // Skip remote areas with no POIs (oceans, deserts, etc.)
-  if (!(await hasPoisInRegion(lat, lng))) {
+  if (requirePois && !(await hasPoisInRegion(lat, lng))) {
     console.log(
       `[auto-schedule] Skipped remote area (${lat.toFixed(4)}, ${lng.toFixed(4)}) - no POIs found`
     );
@@ -432,6 +518,7 @@ export async function scheduleRegionalHeatmapJob(
   const metadata: HeatmapJobMetadata = {
     bounds,
     gridStep: HEATMAP_GRID_STEP,
+    layers: [layer],
     lastProcessedIndex: 0,
   };
 
@@ -449,7 +536,7 @@ export async function scheduleRegionalHeatmapJob(
     .returning();
 
   console.log(
-    `[auto-schedule] Created heatmap job #${newJob.id} for region around (${lat.toFixed(4)}, ${lng.toFixed(4)}) - ${totalItems} cells`
+    `[auto-schedule] Created ${layer} heatmap job #${newJob.id} for region around (${lat.toFixed(4)}, ${lng.toFixed(4)}) - ${totalItems} cells`
   );
 
   return {
@@ -476,3 +563,37 @@ export async function ensureHeatmapCoverage(
     console.error("[auto-schedule] Error:", error);
   }
 }
+
+/**
+ * Schedule regional heatmap jobs for stale cells (marked by an Overture release
+ * update), one per REGION_SIZE region and layer. Returns the number of new jobs.
+ */
+export async function scheduleStaleHeatmapJobs(): Promise<number> {
+  const database = getDb();
+
+  // Numbers are inlined so SELECT and GROUP BY expressions match exactly
+  const regionSize = sql.raw(String(REGION_SIZE));
+  const row = sql`floor(${heatCells.lat} / ${regionSize})::int`;
+  const col = sql`floor(${heatCells.lng} / ${regionSize})::int`;
+
+  const regions = await database
+    .select({ row: sql<number>`${row}`, col: sql<number>`${col}`, layer: heatCells.layer })
+    .from(heatCells)
+    .where(and(eq(heatCells.stale, true), eq(heatCells.gridStep, HEATMAP_GRID_STEP)))
+    .groupBy(row, col, heatCells.layer);
+
+  let scheduled = 0;
+  for (const region of regions) {
+    // Centered on the region, so the job covers exactly its cells. Scheduled
+    // even if the release removed all of its POIs: the cells then drop to 0
+    const job = await scheduleRegionalHeatmapJob(
+      (Number(region.row) + 0.5) * REGION_SIZE,
+      (Number(region.col) + 0.5) * REGION_SIZE,
+      region.layer,
+      false
+    );
+    if (job) scheduled++;
+  }
+
+  return scheduled;
+}
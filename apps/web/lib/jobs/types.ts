@@ -1,5 +1,9 @@
+import { HEATMAP_OVERALL_LAYER, HEATMAP_OVERALL_CATEGORIES } from "@/lib/constants";
+import { getCategoryById } from "@/lib/score/categories";
+
 export const JOB_TYPES = {
   HEATMAP_COMPUTE: "heatmap_compute",
+  CITY_STATS: "city_stats",
 } as const;
 
 export const JOB_STATUS = {
@@ -20,5 +24,35 @@ export interface HeatmapJobMetadata {
     maxLng: number;
   };
   gridStep: number;
+  /** Heat layers to compute ("overall" or category IDs). Older jobs without it compute "overall" */
+  layers?: string[];
+  lastProcessedIndex?: number;
+}
+
+export interface CityStatsJobMetadata {
+  /** Locations to score, drawn when the job is scheduled */
+  samples: Array<{ lat: number; lng: number }>;
+  /** Scores of the samples processed so far */
+  scores: Array<{ overall: number; categories: Record<string, number> }>;
   lastProcessedIndex?: number;
 }
+
+export type JobMetadata = HeatmapJobMetadata | CityStatsJobMetadata;
+
+export function isHeatmapLayer(layer: string): boolean {
+  return layer === HEATMAP_OVERALL_LAYER || getCategoryById(layer) !== undefined;
+}
+
+export function getJobLayers(metadata: HeatmapJobMetadata): string[] {
+  return metadata.layers?.length ? metadata.layers : [HEATMAP_OVERALL_LAYER];
+}
+
+/**
+ * Categories the batch calculator has to load for the given layers
+ */
+export function layerCategoryIds(layers: string[]): string[] {
+  const ids = layers.flatMap((layer) =>
+    layer === HEATMAP_OVERALL_LAYER ? HEATMAP_OVERALL_CATEGORIES : [layer]
+  );
+  return [...new Set(ids)];
+}
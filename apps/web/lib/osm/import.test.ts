@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readOsmPbf, type OsmTags } from "./pbf";
+import { matchPoiTag, osmPoiRow, wayCentroid } from "./import";
+
+// Dense nodes (pharmacy, supermarket, bus stop, bench, untagged way nodes),
+// a plain playground node, a park way and an unmatched building way
+const FIXTURE = new URL("./__fixtures__/pois.osm.pbf", import.meta.url).pathname;
+
+async function importFixture() {
+  const rows: Record<string, { category: string; subcategory: string | null | undefined; name: string | null | undefined }> = {};
+  const coords = new Map<number, { lat: number; lng: number }>();
+  const ways: { id: number; refs: number[]; tags: OsmTags; tag: string }[] = [];
+
+  const bbox = await readOsmPbf(FIXTURE, {
+    node: (node) => {
+      coords.set(node.id, { lat: node.lat, lng: node.lng });
+      const tag = matchPoiTag(node.tags);
+      const row = tag && osmPoiRow("node", node.id, node.lat, node.lng, node.tags, tag);
+      if (row) rows[row.id] = { category: row.category, subcategory: row.subcategory, name: row.name };
+    },
+    way: (way) => {
+      const tag = matchPoiTag(way.tags);
+      if (tag) ways.push({ ...way, tag });
+    },
+  });
+
+  const centroids: Record<string, { lat: number; lng: number }> = {};
+  for (const way of ways) {
+    const center = wayCentroid(way.refs, coords);
+    const row = center && osmPoiRow("way", way.id, center.lat, center.lng, way.tags, way.tag);
+    if (row) {
+      rows[row.id] = { category: row.category, subcategory: row.subcategory, name: row.name };
+      centroids[row.id] = center;
+    }
+  }
+
+  return { rows, centroids, bbox };
+}
+
+test("maps scoring tags to Overture categories", async () => {
+  const { rows } = await importFixture();
+
+  assert.deepEqual(rows, {
+    "osm:node/1": { category: "pharmacy", subcategory: "amenity=pharmacy", name: "Adler Apotheke" },
+    "osm:node/2": { category: "supermarket", subcategory: "shop=supermarket", name: "Lidl" },
+    "osm:node/6": { category: "bus_stop", subcategory: "highway=bus_stop", name: "Alexanderplatz" },
+    "osm:node/8": { category: "playground", subcategory: "leisure=playground", name: null },
+    "osm:way/100": { category: "park", subcategory: "leisure=park", name: "Monbijoupark" },
+  });
+});
+
+test("places closed ways at the centroid of their nodes", async () => {
+  const { centroids } = await importFixture();
+  const park = centroids["osm:way/100"];
+
+  // Nodes 3, 4 and 5; the closing node is counted once
+  assert.ok(Math.abs(park.lat - (52.522 + 52.523 + 52.523) / 3) < 1e-9);
+  assert.ok(Math.abs(park.lng - (13.407 + 13.407 + 13.408) / 3) < 1e-9);
+});
+
+test("reads the header bounding box", async () => {
+  const { bbox } = await importFixture();
+
+  assert.ok(bbox);
+  assert.ok(Math.abs(bbox.minLat - 52.51) < 1e-9 && Math.abs(bbox.maxLat - 52.53) < 1e-9);
+  assert.ok(Math.abs(bbox.minLng - 13.4) < 1e-9 && Math.abs(bbox.maxLng - 13.42) < 1e-9);
+});
+
+test("ignores elements without a scoring tag", () => {
+  assert.equal(matchPoiTag({ amenity: "bench" }), null);
+  assert.equal(matchPoiTag({ building: "yes" }), null);
+  assert.equal(matchPoiTag({ shop: "supermarket", name: "Lidl" }), "shop=supermarket");
+});
@@ -0,0 +1,169 @@
+import { inArray, sql } from "drizzle-orm";
+import { getDb } from "@/lib/db/client";
+import { overturePois, type NewOverturePoi } from "@/lib/db/schema";
+import { categories } from "@/lib/score/categories";
+import { osmTagToOvertureCategory } from "@/lib/providers/poi/category-map";
+import { isDuplicate } from "@/lib/providers/poi/composite";
+import { POI_DEDUPE_DISTANCE, POI_DEDUPE_UNNAMED_DISTANCE } from "@/lib/constants";
+import type { OsmTags } from "./pbf";
+
+const INSERT_BATCH_SIZE = 1000;
+
+// Search box half-size (degrees of latitude) for Overture rows that may be the same place
+const DEDUPE_DELTA = Math.max(POI_DEDUPE_DISTANCE, POI_DEDUPE_UNNAMED_DISTANCE) / 111320;
+
+// Every OSM tag used by a scoring category, in category order
+export const POI_TAGS = [...new Set(categories.flatMap((c) => c.overpassTags))];
+
+/**
+ * First scoring tag the element carries (e.g. "amenity=pharmacy"), or null
+ * when it is not a POI we score
+ */
+export function matchPoiTag(tags: OsmTags): string | null {
+  for (const tag of POI_TAGS) {
+    const [key, value] = tag.split("=");
+    if (tags[key] === value) return tag;
+  }
+  return null;
+}
+
+/**
+ * Build an overture_pois row for an OSM element. The category is the Overture
+ * category mapped from the OSM tag, so providers and the batch calculator
+ * treat OSM and Overture rows the same way.
+ */
+export function osmPoiRow(
+  type: "node" | "way",
+  id: number,
+  lat: number,
+  lng: number,
+  tags: OsmTags,
+  matchedTag: string
+): NewOverturePoi | null {
+  const category = osmTagToOvertureCategory(matchedTag);
+  if (!category) return null;
+
+  return {
+    id: `osm:${type}/${id}`,
+    name: tags.name || null,
+    category,
+    subcategory: matchedTag,
+    lat,
+    lng,
+    confidence: null,
+    source: "osm",
+    tags,
+  };
+}
+
+/**
+ * Centroid of a way's nodes (closing node counted once).
+ * Returns null when none of the nodes were found.
+ */
+export function wayCentroid(
+  refs: number[],
+  coords: Map<number, { lat: number; lng: number }>
+): { lat: number; lng: number } | null {
+  const closed = refs.length > 2 && refs[0] === refs[refs.length - 1];
+  const nodeIds = closed ? refs.slice(0, -1) : refs;
+
+  let lat = 0;
+  let lng = 0;
+  let found = 0;
+  for (const ref of nodeIds) {
+    const coord = coords.get(ref);
+    if (!coord) continue;
+    lat += coord.lat;
+    lng += coord.lng;
+    found++;
+  }
+
+  return found > 0 ? { lat: lat / found, lng: lng / found } : null;
+}
+
+/**
+ * IDs of OSM rows that are already in overture_pois as an Overture place
+ * (same rule as the composite provider: close with a similar name, or very
+ * close with the same category when unnamed)
+ */
+async function findOvertureDuplicates(rows: NewOverturePoi[]): Promise<Set<string>> {
+  const values = rows.map(
+    (r) => sql`(${r.id}::text, ${r.lat}::double precision, ${r.lng}::double precision)`
+  );
+
+  // One index probe per row: Overture rows in a small box around it
+  const candidates = await getDb().execute<{
+    osm_id: string;
+    name: string | null;
+    category: string;
+    lat: number;
+    lng: number;
+  }>(sql`
+    SELECT v.id AS osm_id, p.name, p.category, p.lat, p.lng
+    FROM (VALUES ${sql.join(values, sql`, `)}) AS v (id, lat, lng)
+    JOIN overture_pois p
+      ON p.lat BETWEEN v.lat - ${DEDUPE_DELTA} AND v.lat + ${DEDUPE_DELTA}
+      AND p.lng BETWEEN v.lng - ${DEDUPE_DELTA} / cos(radians(v.lat))
+                    AND v.lng + ${DEDUPE_DELTA} / cos(radians(v.lat))
+    WHERE p.source IS DISTINCT FROM 'osm' AND p.deleted_at IS NULL
+  `);
+
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  const duplicates = new Set<string>();
+  for (const candidate of candidates) {
+    const row = byId.get(candidate.osm_id);
+    if (row && isDuplicate({ ...row, name: row.name ?? null }, candidate)) {
+      duplicates.add(candidate.osm_id);
+    }
+  }
+  return duplicates;
+}
+
+/**
+ * Buffers POI rows and upserts them in batches.
+ * Re-importing an updated extract refreshes existing OSM rows.
+ *
+ * Places Overture already has are skipped, so LocalDBProvider and the batch
+ * calculator don't count them twice. An OSM row from an earlier import that
+ * Overture now covers is deleted.
+ */
+export class OsmPoiWriter {
+  private buffer: NewOverturePoi[] = [];
+  saved = 0;
+  skipped = 0;
+
+  async add(row: NewOverturePoi): Promise<void> {
+    this.buffer.push(row);
+    if (this.buffer.length >= INSERT_BATCH_SIZE) await this.flush();
+  }
+
+  async flush(): Promise<void> {
+    if (this.buffer.length === 0) return;
+    const duplicates = await findOvertureDuplicates(this.buffer);
+    const batch = this.buffer.filter((row) => !duplicates.has(row.id));
+    this.buffer = [];
+
+    if (duplicates.size > 0) {
+      await getDb().delete(overturePois).where(inArray(overturePois.id, [...duplicates]));
+      this.skipped += duplicates.size;
+    }
+    if (batch.length === 0) return;
+
+    await getDb()
+      .insert(overturePois)
+      .values(batch)
+      .onConflictDoUpdate({
+        target: overturePois.id,
+        set: {
+          name: sql`excluded.name`,
+          category: sql`excluded.category`,
+          subcategory: sql`excluded.subcategory`,
+          lat: sql`excluded.lat`,
+          lng: sql`excluded.lng`,
+          tags: sql`excluded.tags`,
+          importedAt: sql`now()`,
+        },
+      });
+    this.saved += batch.length;
+  }
+}
@@ -0,0 +1,258 @@
+import { open } from "fs/promises";
+import { inflateSync } from "zlib";
+import Pbf from "pbf";
+
+/**
+ * Minimal streaming reader for OpenStreetMap .osm.pbf extracts.
+ *
+ * Decodes nodes (plain and dense), ways, relations and their tags block by
+ * block, so memory stays flat regardless of the extract size. Metadata
+ * (versions, users) and non-zlib compression are not supported.
+ * Format: https://wiki.openstreetmap.org/wiki/PBF_Format
+ */
+
+export type OsmTags = Record<string, string>;
+
+export interface OsmNode {
+  id: number;
+  lat: number;
+  lng: number;
+  tags: OsmTags;
+}
+
+export interface OsmWay {
+  id: number;
+  refs: number[];
+  tags: OsmTags;
+}
+
+export type OsmMemberType = "node" | "way" | "relation";
+
+export interface OsmRelation {
+  id: number;
+  members: { type: OsmMemberType; ref: number; role: string }[];
+  tags: OsmTags;
+}
+
+export interface OsmBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export interface PbfHandlers {
+  node?: (node: OsmNode) => void | Promise<void>;
+  way?: (way: OsmWay) => void | Promise<void>;
+  relation?: (relation: OsmRelation) => void | Promise<void>;
+}
+
+interface PrimitiveBlock {
+  strings: string[];
+  groups: Pbf[];
+  granularity: number;
+  latOffset: number;
+  lonOffset: number;
+}
+
+const NANO = 1e-9;
+const MEMBER_TYPES: OsmMemberType[] = ["node", "way", "relation"];
+const decoder = new TextDecoder();
+
+function readBlobHeader(tag: number, header: { type: string; datasize: number }, pbf: Pbf) {
+  if (tag === 1) header.type = pbf.readString();
+  else if (tag === 3) header.datasize = pbf.readVarint();
+}
+
+function readBlob(tag: number, blob: { raw?: Uint8Array; zlib?: Uint8Array; other?: boolean }, pbf: Pbf) {
+  if (tag === 1) blob.raw = pbf.readBytes();
+  else if (tag === 3) blob.zlib = pbf.readBytes();
+  else if (tag === 4 || tag === 6 || tag === 7) blob.other = true; // lzma, lz4, zstd
+}
+
+function decodeBlob(buf: Uint8Array): Uint8Array {
+  const blob = new Pbf(buf).readFields(readBlob, {} as { raw?: Uint8Array; zlib?: Uint8Array; other?: boolean });
+  if (blob.raw) return blob.raw;
+  if (blob.zlib) return inflateSync(blob.zlib);
+  throw new Error(blob.other ? "Unsupported PBF compression (only zlib is supported)" : "Empty PBF blob");
+}
+
+function readHeaderBlock(tag: number, header: { bbox: OsmBounds | null }, pbf: Pbf) {
+  if (tag !== 1) return;
+  const box = { left: 0, right: 0, top: 0, bottom: 0 };
+  pbf.readMessage((t, b, p) => {
+    if (t === 1) b.left = p.readSVarint();
+    else if (t === 2) b.right = p.readSVarint();
+    else if (t === 3) b.top = p.readSVarint();
+    else if (t === 4) b.bottom = p.readSVarint();
+  }, box);
+  header.bbox = {
+    minLng: box.left * NANO,
+    maxLng: box.right * NANO,
+    maxLat: box.top * NANO,
+    minLat: box.bottom * NANO,
+  };
+}
+
+function readPrimitiveBlock(tag: number, block: PrimitiveBlock, pbf: Pbf) {
+  if (tag === 1) {
+    pbf.readMessage((t, strings, p) => {
+      if (t === 1) strings.push(decoder.decode(p.readBytes()));
+    }, block.strings);
+  } else if (tag === 2) {
+    // Groups reference the string table, which may come later - decode afterwards
+    block.groups.push(new Pbf(pbf.readBytes()));
+  } else if (tag === 17) {
+    block.granularity = pbf.readVarint();
+  } else if (tag === 19) {
+    block.latOffset = pbf.readVarint(true);
+  } else if (tag === 20) {
+    block.lonOffset = pbf.readVarint(true);
+  }
+}
+
+function tagsFrom(keys: number[], vals: number[], strings: string[]): OsmTags {
+  const tags: OsmTags = {};
+  for (let i = 0; i < keys.length; i++) {
+    tags[strings[keys[i]]] = strings[vals[i]];
+  }
+  return tags;
+}
+
+async function decodeGroup(group: Pbf, block: PrimitiveBlock, handlers: PbfHandlers) {
+  const { strings, granularity, latOffset, lonOffset } = block;
+  const toLat = (raw: number) => (latOffset + granularity * raw) * NANO;
+  const toLng = (raw: number) => (lonOffset + granularity * raw) * NANO;
+
+  const nodes: OsmNode[] = [];
+  const ways: OsmWay[] = [];
+  const relations: OsmRelation[] = [];
+
+  group.readFields((tag, _, pbf) => {
+    if (tag === 1 && handlers.node) {
+      const raw = { id: 0, keys: [] as number[], vals: [] as number[], lat: 0, lon: 0 };
+      pbf.readMessage((t, n, p) => {
+        if (t === 1) n.id = p.readSVarint();
+        else if (t === 2) p.readPackedVarint(n.keys);
+        else if (t === 3) p.readPackedVarint(n.vals);
+        else if (t === 8) n.lat = p.readSVarint();
+        else if (t === 9) n.lon = p.readSVarint();
+      }, raw);
+      nodes.push({ id: raw.id, lat: toLat(raw.lat), lng: toLng(raw.lon), tags: tagsFrom(raw.keys, raw.vals, strings) });
+    } else if (tag === 2 && handlers.node) {
+      const dense = { ids: [] as number[], lats: [] as number[], lons: [] as number[], keysVals: [] as number[] };
+      pbf.readMessage((t, d, p) => {
+        if (t === 1) p.readPackedSVarint(d.ids);
+        else if (t === 8) p.readPackedSVarint(d.lats);
+        else if (t === 9) p.readPackedSVarint(d.lons);
+        else if (t === 10) p.readPackedVarint(d.keysVals);
+      }, dense);
+
+      // Delta-coded; tags are key/value string indexes, each node terminated by 0
+      let id = 0;
+      let lat = 0;
+      let lon = 0;
+      let kv = 0;
+      for (let i = 0; i < dense.ids.length; i++) {
+        id += dense.ids[i];
+        lat += dense.lats[i];
+        lon += dense.lons[i];
+        const tags: OsmTags = {};
+        while (kv < dense.keysVals.length && dense.keysVals[kv] !== 0) {
+          tags[strings[dense.keysVals[kv]]] = strings[dense.keysVals[kv + 1]];
+          kv += 2;
+        }
+        kv++;
+        nodes.push({ id, lat: toLat(lat), lng: toLng(lon), tags });
+      }
+    } else if (tag === 3 && handlers.way) {
+      const raw = { id: 0, keys: [] as number[], vals: [] as number[], refs: [] as number[] };
+      pbf.readMessage((t, w, p) => {
+        if (t === 1) w.id = p.readVarint(true);
+        else if (t === 2) p.readPackedVarint(w.keys);
+        else if (t === 3) p.readPackedVarint(w.vals);
+        else if (t === 8) p.readPackedSVarint(w.refs);
+      }, raw);
+      let ref = 0;
+      const refs = raw.refs.map((delta) => (ref += delta));
+      ways.push({ id: raw.id, refs, tags: tagsFrom(raw.keys, raw.vals, strings) });
+    } else if (tag === 4 && handlers.relation) {
+      const raw = {
+        id: 0,
+        keys: [] as number[],
+        vals: [] as number[],
+        roles: [] as number[],
+        memids: [] as number[],
+        types: [] as number[],
+      };
+      pbf.readMessage((t, r, p) => {
+        if (t === 1) r.id = p.readVarint(true);
+        else if (t === 2) p.readPackedVarint(r.keys);
+        else if (t === 3) p.readPackedVarint(r.vals);
+        else if (t === 8) p.readPackedVarint(r.roles);
+        else if (t === 9) p.readPackedSVarint(r.memids);
+        else if (t === 10) p.readPackedVarint(r.types);
+      }, raw);
+      // Member IDs are delta-coded
+      let ref = 0;
+      const members = raw.memids.map((delta, i) => ({
+        type: MEMBER_TYPES[raw.types[i]] ?? "node",
+        ref: (ref += delta),
+        role: strings[raw.roles[i]] ?? "",
+      }));
+      relations.push({ id: raw.id, members, tags: tagsFrom(raw.keys, raw.vals, strings) });
+    }
+  }, null);
+
+  for (const node of nodes) await handlers.node!(node);
+  for (const way of ways) await handlers.way!(way);
+  for (const relation of relations) await handlers.relation!(relation);
+}
+
+/**
+ * Stream every node, way and relation of a .osm.pbf file through the handlers
+ *
+ * @returns Bounding box from the file header, if present
+ */
+export async function readOsmPbf(path: string, handlers: PbfHandlers): Promise<OsmBounds | null> {
+  const file = await open(path, "r");
+  let bbox: OsmBounds | null = null;
+
+  try {
+    const { size } = await file.stat();
+    let position = 0;
+
+    const read = async (length: number): Promise<Buffer> => {
+      const buf = Buffer.alloc(length);
+      const { bytesRead } = await file.read(buf, 0, length, position);
+      if (bytesRead !== length) throw new Error(`Truncated PBF file at byte ${position}`);
+      position += length;
+      return buf;
+    };
+
+    while (position < size) {
+      const headerLength = (await read(4)).readUInt32BE(0);
+      const header = new Pbf(await read(headerLength)).readFields(readBlobHeader, { type: "", datasize: 0 });
+      const data = decodeBlob(await read(header.datasize));
+
+      if (header.type === "OSMHeader") {
+        bbox = new Pbf(data).readFields(readHeaderBlock, { bbox: null as OsmBounds | null }).bbox;
+      } else if (header.type === "OSMData") {
+        const block = new Pbf(data).readFields(readPrimitiveBlock, {
+          strings: [],
+          groups: [],
+          granularity: 100,
+          latOffset: 0,
+          lonOffset: 0,
+        } as PrimitiveBlock);
+        for (const group of block.groups) {
+          await decodeGroup(group, block, handlers);
+        }
+      }
+    }
+  } finally {
+    await file.close();
+  }
+
+  return bbox;
+}
@@ -0,0 +1,222 @@
+import { eq, sql } from "drizzle-orm";
+import { getDb } from "@/lib/db/client";
+import { importRuns } from "@/lib/db/schema";
+import { categories } from "@/lib/score/categories";
+import { HEATMAP_GRID_STEP } from "@/lib/constants";
+import type { Bounds } from "@/lib/distance/types";
+
+/**
+ * Incremental Overture release updates (scripts/setup-overture.ts --update).
+ *
+ * Each tile of the new release is staged in a temporary table and diffed
+ * against overture_pois by id, in one transaction per tile:
+ *   - ids not in overture_pois are inserted (added)
+ *   - rows whose fields differ, or that were soft-deleted, are updated (changed)
+ *   - Overture rows inside the tile that the release no longer has get
+ *     `deleted_at` set (removed). OSM rows (source = "osm") are never removed.
+ *
+ * Old and new positions of every touched row are collected, and base heat
+ * cells within reach of one are marked stale so heatmap jobs compute them again.
+ */
+
+const STAGE_BATCH_SIZE = 1000;
+
+// Heat cells farther than this from a POI don't count it
+const STALE_RADIUS = Math.max(...categories.map((c) => c.radius));
+
+type Transaction = Parameters<Parameters<ReturnType<typeof getDb>["transaction"]>[0]>[0];
+
+/** One place from an Overture release, as selected from the parquet file */
+export interface OverturePoiRow {
+  id: string;
+  name: string | null;
+  category: string;
+  subcategory: string | null;
+  lat: number;
+  lng: number;
+  confidence: number | null;
+  source: string | null;
+}
+
+export interface ReleaseChanges {
+  added: number;
+  changed: number;
+  removed: number;
+  staleCells: number;
+}
+
+/**
+ * Whether the tile owns a point, compared at the precision overture_pois stores
+ * (real). Removal uses the same bounds, so a place is only removed by a tile
+ * whose download could have contained it.
+ */
+export function tileOwnsPoint(tile: Bounds, lat: number, lng: number): boolean {
+  const storedLat = Math.fround(lat);
+  const storedLng = Math.fround(lng);
+  return (
+    storedLat >= tile.minLat &&
+    storedLat <= tile.maxLat &&
+    storedLng >= tile.minLng &&
+    storedLng <= tile.maxLng
+  );
+}
+
+async function stageRows(tx: Transaction, rows: OverturePoiRow[]): Promise<void> {
+  for (let i = 0; i < rows.length; i += STAGE_BATCH_SIZE) {
+    const values = rows
+      .slice(i, i + STAGE_BATCH_SIZE)
+      .map(
+        (r) =>
+          sql`(${r.id}, ${r.name}, ${r.category}, ${r.subcategory}, ${r.lat}, ${r.lng}, ${r.confidence}, ${r.source})`
+      );
+
+    // Releases can list an id twice; the first one wins
+    await tx.execute(sql`
+      INSERT INTO overture_release (id, name, category, subcategory, lat, lng, confidence, source)
+      VALUES ${sql.join(values, sql`, `)}
+      ON CONFLICT (id) DO NOTHING
+    `);
+  }
+}
+
+/**
+ * Diff one tile of a release against overture_pois. `load` streams the tile's
+ * places into the staging table through `stage`; if it throws, the transaction
+ * rolls back and nothing is changed or removed.
+ */
+export async function applyReleaseTile(
+  tile: Bounds,
+  load: (stage: (rows: OverturePoiRow[]) => Promise<void>) => Promise<unknown>
+): Promise<ReleaseChanges> {
+  return getDb().transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TEMP TABLE overture_release (
+        id text PRIMARY KEY,
+        name text,
+        category text NOT NULL,
+        subcategory text,
+        lat real NOT NULL,
+        lng real NOT NULL,
+        confidence real,
+        source text
+      ) ON COMMIT DROP
+    `);
+    await tx.execute(sql`CREATE TEMP TABLE overture_affected (lat real, lng real) ON COMMIT DROP`);
+
+    await load((rows) => stageRows(tx, rows));
+
+    const differs = sql`(
+      p.deleted_at IS NOT NULL OR
+      (p.name, p.category, p.subcategory, p.lat, p.lng, p.confidence, p.source) IS DISTINCT FROM
+      (r.name, r.category, r.subcategory, r.lat, r.lng, r.confidence, r.source)
+    )`;
+
+    // Old positions of changed rows, before they are overwritten
+    await tx.execute(sql`
+      INSERT INTO overture_affected
+      SELECT p.lat, p.lng FROM overture_pois p JOIN overture_release r ON r.id = p.id
+      WHERE ${differs}
+    `);
+
+    const changed = await tx.execute(sql`
+      WITH changed AS (
+        UPDATE overture_pois p
+        SET name = r.name, category = r.category, subcategory = r.subcategory,
+            lat = r.lat, lng = r.lng, confidence = r.confidence, source = r.source,
+            deleted_at = NULL, updated_at = now()
+        FROM overture_release r
+        WHERE r.id = p.id AND ${differs}
+        RETURNING p.lat, p.lng
+      )
+      INSERT INTO overture_affected SELECT lat, lng FROM changed
+    `);
+
+    const added = await tx.execute(sql`
+      WITH added AS (
+        INSERT INTO overture_pois (id, name, category, subcategory, lat, lng, confidence, source)
+        SELECT r.id, r.name, r.category, r.subcategory, r.lat, r.lng, r.confidence, r.source
+        FROM overture_release r
+        WHERE NOT EXISTS (SELECT 1 FROM overture_pois p WHERE p.id = r.id)
+        RETURNING lat, lng
+      )
+      INSERT INTO overture_affected SELECT lat, lng FROM added
+    `);
+
+    const removed = await tx.execute(sql`
+      WITH removed AS (
+        UPDATE overture_pois p
+        SET deleted_at = now(), updated_at = now()
+        WHERE p.deleted_at IS NULL
+          AND p.source IS DISTINCT FROM 'osm'
+          -- Double precision, as tileOwnsPoint() compares the stored reals
+          AND p.lat BETWEEN ${tile.minLat}::double precision AND ${tile.maxLat}::double precision
+          AND p.lng BETWEEN ${tile.minLng}::double precision AND ${tile.maxLng}::double precision
+          AND NOT EXISTS (SELECT 1 FROM overture_release r WHERE r.id = p.id)
+        RETURNING p.lat, p.lng
+      )
+      INSERT INTO overture_affected SELECT lat, lng FROM removed
+    `);
+
+    // Longitude degrees shrink towards the poles; clamp to keep the box finite
+    const latBuffer = STALE_RADIUS / 111320;
+    const stale = await tx.execute(sql`
+      UPDATE heat_cells h
+      SET stale = true
+      FROM (
+        SELECT DISTINCT lat, lng, ${latBuffer} / greatest(cos(radians(lat)), 0.01) AS lng_buffer
+        FROM overture_affected
+      ) a
+      WHERE h.grid_step = ${HEATMAP_GRID_STEP}
+        AND NOT h.stale
+        AND h.lat BETWEEN a.lat - ${latBuffer} AND a.lat + ${latBuffer}
+        AND h.lng BETWEEN a.lng - a.lng_buffer AND a.lng + a.lng_buffer
+    `);
+
+    return {
+      added: added.count,
+      changed: changed.count,
+      removed: removed.count,
+      staleCells: stale.count,
+    };
+  });
+}
+
+/**
+ * Record the start of a release update; returns the import run ID
+ */
+export async function startImportRun(release: string, bbox: string): Promise<number> {
+  const [run] = await getDb()
+    .insert(importRuns)
+    .values({ source: "overture", release, bbox })
+    .returning({ id: importRuns.id });
+  return run.id;
+}
+
+/**
+ * Add a tile's changes to the run's counts
+ */
+export async function recordImportChanges(runId: number, changes: ReleaseChanges): Promise<void> {
+  await getDb()
+    .update(importRuns)
+    .set({
+      added: sql`${importRuns.added} + ${changes.added}`,
+      changed: sql`${importRuns.changed} + ${changes.changed}`,
+      removed: sql`${importRuns.removed} + ${changes.removed}`,
+      staleCells: sql`${importRuns.staleCells} + ${changes.staleCells}`,
+    })
+    .where(eq(importRuns.id, runId));
+}
+
+/**
+ * Mark the run completed, or failed with the error
+ */
+export async function finishImportRun(runId: number, error?: string): Promise<void> {
+  await getDb()
+    .update(importRuns)
+    .set({
+      status: error ? "failed" : "completed",
+      error: error ?? null,
+      completedAt: new Date(),
+    })
+    .where(eq(importRuns.id, runId));
+}
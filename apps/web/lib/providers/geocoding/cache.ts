@@ -0,0 +1,85 @@
+import { getDb } from "@/lib/db/client";
+import { geocodeCache } from "@/lib/db/schema";
+import { and, eq, gt } from "drizzle-orm";
+import { GEOCODE_CACHE_GRID_STEP, GEOCODE_CACHE_TTL_HOURS } from "@/lib/constants";
+import type { GeocodingProvider, GeocodingResult } from "./types";
+
+/**
+ * Read-through cache in front of another geocoding provider. Search results
+ * are keyed by the normalized query, reverse results by the coordinates snapped
+ * to a ~10m grid. Empty results are cached too, so misses don't hit the provider.
+ * Cache errors never fail a lookup.
+ */
+export class CachedGeocodingProvider implements GeocodingProvider {
+  constructor(
+    private provider: GeocodingProvider,
+    /** Part of every key, so switching providers doesn't serve stale formats */
+    private providerType: string
+  ) {}
+
+  async search(query: string): Promise<GeocodingResult[]> {
+    const key = `${this.providerType}:search:${normalizeQuery(query)}`;
+
+    const cached = await readCache(key);
+    if (cached) return cached;
+
+    const results = await this.provider.search(query);
+    writeCache(key, results).catch(() => {});
+    return results;
+  }
+
+  async reverse(lat: number, lng: number): Promise<GeocodingResult | null> {
+    const snappedLat = snapToGeocodeGrid(lat);
+    const snappedLng = snapToGeocodeGrid(lng);
+    const key = `${this.providerType}:reverse:${snappedLat},${snappedLng}`;
+
+    const cached = await readCache(key);
+    if (cached) return cached[0] ?? null;
+
+    const result = await this.provider.reverse(snappedLat, snappedLng);
+    writeCache(key, result ? [result] : []).catch(() => {});
+    return result;
+  }
+}
+
+/** Lower case, single spaces, Unicode-normalized: "  Berlin  Mitte" = "berlin mitte" */
+export function normalizeQuery(query: string): string {
+  return query.normalize("NFKC").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function snapToGeocodeGrid(value: number): number {
+  const snapped = Math.round(value / GEOCODE_CACHE_GRID_STEP) * GEOCODE_CACHE_GRID_STEP;
+  return Math.round(snapped * 100000) / 100000;
+}
+
+async function readCache(key: string): Promise<GeocodingResult[] | null> {
+  try {
+    const [row] = await getDb()
+      .select()
+      .from(geocodeCache)
+      .where(and(eq(geocodeCache.key, key), gt(geocodeCache.expiresAt, new Date())))
+      .limit(1);
+
+    return row ? (row.results as GeocodingResult[]) : null;
+  } catch (error) {
+    console.error("Geocode cache read error:", error);
+    return null;
+  }
+}
+
+async function writeCache(key: string, results: GeocodingResult[]): Promise<void> {
+  const createdAt = new Date();
+  const expiresAt = new Date(createdAt.getTime() + GEOCODE_CACHE_TTL_HOURS * 60 * 60 * 1000);
+
+  try {
+    await getDb()
+      .insert(geocodeCache)
+      .values({ key, results, createdAt, expiresAt })
+      .onConflictDoUpdate({
+        target: geocodeCache.key,
+        set: { results, createdAt, expiresAt },
+      });
+  } catch (error) {
+    console.error("Geocode cache write error:", error);
+  }
+}
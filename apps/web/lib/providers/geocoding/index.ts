@@ -1,13 +1,55 @@
 export * from "./types";
 export { NominatimProvider } from "./nominatim";
+export { PhotonProvider } from "./photon";
+export { PeliasProvider } from "./pelias";
+export { LocalDBGeocodingProvider } from "./localdb";
+export { CachedGeocodingProvider } from "./cache";
 
+import { isDbConfigured } from "@/lib/db/client";
+import type { GeocodingProvider } from "./types";
 import { NominatimProvider } from "./nominatim";
+import { PhotonProvider } from "./photon";
+import { PeliasProvider } from "./pelias";
+import { LocalDBGeocodingProvider } from "./localdb";
+import { CachedGeocodingProvider } from "./cache";
 
-let geocodingProvider: NominatimProvider | null = null;
+export type GeocodingProviderType = "nominatim" | "photon" | "pelias" | "localdb";
 
-export function getGeocodingProvider(): NominatimProvider {
+const PROVIDER_TYPE = (process.env.GEOCODING_PROVIDER || "nominatim") as GeocodingProviderType;
+
+let geocodingProvider: GeocodingProvider | null = null;
+
+/**
+ * The configured provider. External providers are cached in the database when
+ * one is configured; localdb already reads from it.
+ */
+export function getGeocodingProvider(): GeocodingProvider {
   if (!geocodingProvider) {
-    geocodingProvider = new NominatimProvider();
+    const provider = createGeocodingProvider(PROVIDER_TYPE);
+    geocodingProvider =
+      PROVIDER_TYPE !== "localdb" && isDbConfigured()
+        ? new CachedGeocodingProvider(provider, PROVIDER_TYPE)
+        : provider;
   }
   return geocodingProvider;
 }
+
+export function createGeocodingProvider(type: GeocodingProviderType): GeocodingProvider {
+  switch (type) {
+    case "nominatim":
+      return new NominatimProvider();
+    case "photon":
+      return new PhotonProvider();
+    case "pelias":
+      return new PeliasProvider();
+    case "localdb":
+      return new LocalDBGeocodingProvider();
+    default:
+      throw new Error(`Unknown geocoding provider: ${type}`);
+  }
+}
+
+// For testing or explicit provider selection
+export function setGeocodingProvider(p: GeocodingProvider): void {
+  geocodingProvider = p;
+}
@@ -0,0 +1,112 @@
+import { getDb } from "@/lib/db/client";
+import { cities, overturePois, type City } from "@/lib/db/schema";
+import { and, ilike, isNotNull, isNull, lte, sql } from "drizzle-orm";
+import { distanceFrom } from "@/lib/db/distance";
+import { poiWithinBounds, radiusBounds } from "@/lib/db/geohash";
+import { findCityForPoint } from "@/lib/cities";
+import type { GeocodingProvider, GeocodingResult, StructuredAddress } from "./types";
+
+const SEARCH_LIMIT = 5;
+
+// Reverse geocoding names a point after a POI only when one is this close
+const REVERSE_POI_RADIUS = 100;
+
+/**
+ * Geocoding from imported data only (`cities` and `overture_pois` names), for
+ * deployments without access to an external geocoder. Finds cities and named
+ * places, not street addresses.
+ */
+export class LocalDBGeocodingProvider implements GeocodingProvider {
+  async search(query: string): Promise<GeocodingResult[]> {
+    const db = getDb();
+    const pattern = escapeLike(query);
+
+    const cityRows = await db
+      .select()
+      .from(cities)
+      .where(ilike(cities.name, `${pattern}%`))
+      .orderBy(sql`${cities.population} DESC NULLS LAST`)
+      .limit(SEARCH_LIMIT);
+
+    const cityResults = cityRows.map((city) => ({
+      lat: city.lat,
+      lng: city.lng,
+      displayName: `${city.name}, ${city.country}`,
+      type: "city",
+      importance: cityImportance(city),
+      address: cityAddress(city),
+    }));
+
+    if (cityResults.length >= SEARCH_LIMIT) return cityResults;
+
+    // Unindexed substring match; fine for a city-sized import
+    const poiRows = await db
+      .select()
+      .from(overturePois)
+      .where(and(ilike(overturePois.name, `%${pattern}%`), isNull(overturePois.deletedAt)))
+      .limit(SEARCH_LIMIT - cityResults.length);
+
+    const poiResults = await Promise.all(
+      poiRows.map(async (poi) => {
+        const city = await findCityForPoint(poi.lat, poi.lng);
+        return {
+          lat: poi.lat,
+          lng: poi.lng,
+          displayName: [poi.name, city?.name, city?.country].filter(Boolean).join(", "),
+          type: poi.category,
+          importance: 0.1,
+          ...(city && { address: cityAddress(city) }),
+        };
+      })
+    );
+
+    return [...cityResults, ...poiResults];
+  }
+
+  async reverse(lat: number, lng: number): Promise<GeocodingResult | null> {
+    const distance = distanceFrom(overturePois.lat, overturePois.lng, lat, lng);
+
+    // Nearest named POI in the radius, ordered in SQL so dense areas find it too
+    const [[nearest], city] = await Promise.all([
+      getDb()
+        .select({ name: overturePois.name, category: overturePois.category })
+        .from(overturePois)
+        .where(
+          and(
+            poiWithinBounds(radiusBounds(lat, lng, REVERSE_POI_RADIUS)),
+            lte(distance, REVERSE_POI_RADIUS),
+            isNotNull(overturePois.name),
+            isNull(overturePois.deletedAt)
+          )
+        )
+        .orderBy(distance)
+        .limit(1),
+      findCityForPoint(lat, lng),
+    ]);
+
+    if (!nearest && !city) return null;
+
+    return {
+      lat,
+      lng,
+      displayName: [nearest?.name, city?.name, city?.country].filter(Boolean).join(", "),
+      type: nearest ? nearest.category : "city",
+      importance: 0,
+      ...(city && { address: cityAddress(city) }),
+    };
+  }
+}
+
+/** Escape LIKE wildcards so the query is matched literally */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function cityAddress(city: City): StructuredAddress {
+  return { city: city.name, countryCode: city.country.toUpperCase() };
+}
+
+/** 0-1 from population: 10M+ people = 1 */
+function cityImportance(city: City): number {
+  return city.population ? Math.min(1, Math.log10(city.population) / 7) : 0.5;
+}
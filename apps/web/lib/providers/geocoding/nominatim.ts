@@ -1,4 +1,20 @@
-import type { GeocodingProvider, GeocodingResult } from "./types";
+import type { GeocodingProvider, GeocodingResult, StructuredAddress } from "./types";
+
+// Subset of the addressdetails=1 fields
+interface NominatimAddress {
+  road?: string;
+  house_number?: string;
+  neighbourhood?: string;
+  quarter?: string;
+  suburb?: string;
+  city_district?: string;
+  city?: string;
+  town?: string;
+  village?: string;
+  municipality?: string;
+  postcode?: string;
+  country_code?: string;
+}
 
 interface NominatimSearchResult {
   lat: string;
@@ -6,6 +22,7 @@ interface NominatimSearchResult {
   display_name: string;
   type: string;
   importance: number;
+  address?: NominatimAddress;
 }
 
 interface NominatimReverseResult {
@@ -13,20 +30,24 @@ interface NominatimReverseResult {
   lon: string;
   display_name: string;
   type: string;
+  address?: NominatimAddress;
 }
 
+// Public instance; its usage policy allows 1 request/s, so busy deployments should self-host
 const NOMINATIM_BASE_URL = "https://nominatim.openstreetmap.org";
 
 export class NominatimProvider implements GeocodingProvider {
   private userAgent: string;
+  private baseUrl: string;
 
-  constructor(userAgent?: string) {
+  constructor(userAgent?: string, baseUrl?: string) {
     this.userAgent =
       userAgent || process.env.NOMINATIM_USER_AGENT || "nearbyindex/1.0";
+    this.baseUrl = baseUrl || process.env.NOMINATIM_BASE_URL || NOMINATIM_BASE_URL;
   }
 
   async search(query: string): Promise<GeocodingResult[]> {
-    const url = new URL("/search", NOMINATIM_BASE_URL);
+    const url = new URL("/search", this.baseUrl);
     url.searchParams.set("q", query);
     url.searchParams.set("format", "json");
     url.searchParams.set("limit", "5");
@@ -50,14 +71,16 @@ export class NominatimProvider implements GeocodingProvider {
       displayName: r.display_name,
       type: r.type,
       importance: r.importance,
+      ...(r.address && { address: toStructuredAddress(r.address) }),
     }));
   }
 
   async reverse(lat: number, lng: number): Promise<GeocodingResult | null> {
-    const url = new URL("/reverse", NOMINATIM_BASE_URL);
+    const url = new URL("/reverse", this.baseUrl);
     url.searchParams.set("lat", lat.toString());
     url.searchParams.set("lon", lng.toString());
     url.searchParams.set("format", "json");
+    url.searchParams.set("addressdetails", "1");
 
     const response = await fetch(url.toString(), {
       headers: {
@@ -84,6 +107,19 @@ export class NominatimProvider implements GeocodingProvider {
       displayName: result.display_name,
       type: result.type,
       importance: 0,
+      ...(result.address && { address: toStructuredAddress(result.address) }),
     };
   }
 }
+
+function toStructuredAddress(address: NominatimAddress): StructuredAddress {
+  return {
+    street: address.road,
+    houseNumber: address.house_number,
+    neighbourhood:
+      address.neighbourhood ?? address.quarter ?? address.suburb ?? address.city_district,
+    city: address.city ?? address.town ?? address.village ?? address.municipality,
+    postcode: address.postcode,
+    countryCode: address.country_code?.toUpperCase(),
+  };
+}
@@ -0,0 +1,90 @@
+import type { GeocodingProvider, GeocodingResult } from "./types";
+
+interface PeliasFeature {
+  geometry: { coordinates: [number, number] };
+  properties: {
+    label: string;
+    layer: string;
+    confidence?: number;
+    street?: string;
+    housenumber?: string;
+    neighbourhood?: string;
+    borough?: string;
+    locality?: string;
+    postalcode?: string;
+    /** ISO alpha-2 (Pelias 2021+); older versions only have the alpha-3 country_a */
+    country_code?: string;
+  };
+}
+
+interface PeliasResponse {
+  features: PeliasFeature[];
+}
+
+/**
+ * Pelias geocoder (https://github.com/pelias/pelias). There is no public
+ * instance without an API key, so PELIAS_BASE_URL is required.
+ */
+export class PeliasProvider implements GeocodingProvider {
+  private baseUrl: string;
+
+  constructor(baseUrl?: string) {
+    const url = baseUrl || process.env.PELIAS_BASE_URL;
+    if (!url) {
+      throw new Error("PELIAS_BASE_URL is required for GEOCODING_PROVIDER=pelias");
+    }
+    this.baseUrl = url;
+  }
+
+  async search(query: string): Promise<GeocodingResult[]> {
+    const url = new URL("/v1/search", this.baseUrl);
+    url.searchParams.set("text", query);
+    url.searchParams.set("size", "5");
+
+    const response = await fetch(url.toString());
+
+    if (!response.ok) {
+      throw new Error(`Pelias search failed: ${response.statusText}`);
+    }
+
+    const data: PeliasResponse = await response.json();
+    return data.features.map(toResult);
+  }
+
+  async reverse(lat: number, lng: number): Promise<GeocodingResult | null> {
+    const url = new URL("/v1/reverse", this.baseUrl);
+    url.searchParams.set("point.lat", lat.toString());
+    url.searchParams.set("point.lon", lng.toString());
+    url.searchParams.set("size", "1");
+
+    const response = await fetch(url.toString());
+
+    if (!response.ok) {
+      throw new Error(`Pelias reverse failed: ${response.statusText}`);
+    }
+
+    const data: PeliasResponse = await response.json();
+    const feature = data.features[0];
+
+    return feature ? { ...toResult(feature), importance: 0 } : null;
+  }
+}
+
+function toResult(feature: PeliasFeature): GeocodingResult {
+  const [lng, lat] = feature.geometry.coordinates;
+  return {
+    lat,
+    lng,
+    displayName: feature.properties.label,
+    type: feature.properties.layer,
+    importance: feature.properties.confidence ?? 0,
+    address: {
+      street: feature.properties.street,
+      houseNumber: feature.properties.housenumber,
+      neighbourhood: feature.properties.neighbourhood ?? feature.properties.borough,
+      city: feature.properties.locality,
+      postcode: feature.properties.postalcode,
+      countryCode: feature.properties.country_code?.toUpperCase(),
+    },
+  };
+}
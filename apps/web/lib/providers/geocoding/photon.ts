@@ -0,0 +1,106 @@
+import type { GeocodingProvider, GeocodingResult, StructuredAddress } from "./types";
+
+interface PhotonFeature {
+  geometry: { coordinates: [number, number] };
+  properties: {
+    name?: string;
+    housenumber?: string;
+    street?: string;
+    postcode?: string;
+    locality?: string;
+    district?: string;
+    city?: string;
+    state?: string;
+    country?: string;
+    countrycode?: string;
+    osm_value?: string;
+    type?: string;
+  };
+}
+
+interface PhotonResponse {
+  features: PhotonFeature[];
+}
+
+const PHOTON_BASE_URL = "https://photon.komoot.io";
+
+/**
+ * Photon geocoder (https://github.com/komoot/photon), usually self-hosted
+ * next to the app. Results are GeoJSON features without a ready-made label.
+ */
+export class PhotonProvider implements GeocodingProvider {
+  private baseUrl: string;
+
+  constructor(baseUrl?: string) {
+    this.baseUrl = baseUrl || process.env.PHOTON_BASE_URL || PHOTON_BASE_URL;
+  }
+
+  async search(query: string): Promise<GeocodingResult[]> {
+    const url = new URL("/api", this.baseUrl);
+    url.searchParams.set("q", query);
+    url.searchParams.set("limit", "5");
+
+    const response = await fetch(url.toString());
+
+    if (!response.ok) {
+      throw new Error(`Photon search failed: ${response.statusText}`);
+    }
+
+    const data: PhotonResponse = await response.json();
+
+    // Photon returns results by relevance without a score; rank by position
+    return data.features.map((feature, index) => ({
+      ...toResult(feature),
+      importance: 1 - index / data.features.length,
+    }));
+  }
+
+  async reverse(lat: number, lng: number): Promise<GeocodingResult | null> {
+    const url = new URL("/reverse", this.baseUrl);
+    url.searchParams.set("lat", lat.toString());
+    url.searchParams.set("lon", lng.toString());
+    url.searchParams.set("limit", "1");
+
+    const response = await fetch(url.toString());
+
+    if (!response.ok) {
+      throw new Error(`Photon reverse failed: ${response.statusText}`);
+    }
+
+    const data: PhotonResponse = await response.json();
+    const feature = data.features[0];
+
+    return feature ? { ...toResult(feature), importance: 0 } : null;
+  }
+}
+
+/** "Name, Street 1, 10115 City, Country" from whichever parts are present */
+function displayName(properties: PhotonFeature["properties"]): string {
+  const street = [properties.street, properties.housenumber].filter(Boolean).join(" ");
+  const city = [properties.postcode, properties.city].filter(Boolean).join(" ");
+  return [properties.name, street, city, properties.country]
+    .filter((part, index, parts) => part && parts.indexOf(part) === index)
+    .join(", ");
+}
+
+function toResult(feature: PhotonFeature): Omit<GeocodingResult, "importance"> {
+  const [lng, lat] = feature.geometry.coordinates;
+  return {
+    lat,
+    lng,
+    displayName: displayName(feature.properties),
+    type: feature.properties.osm_value || feature.properties.type || "place",
+    address: toStructuredAddress(feature.properties),
+  };
+}
+
+function toStructuredAddress(properties: PhotonFeature["properties"]): StructuredAddress {
+  return {
+    street: properties.street,
+    houseNumber: properties.housenumber,
+    neighbourhood: properties.locality ?? properties.district,
+    city: properties.city,
+    postcode: properties.postcode,
+    countryCode: properties.countrycode?.toUpperCase(),
+  };
+}
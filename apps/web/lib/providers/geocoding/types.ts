@@ -1,9 +1,23 @@
+/** Address parts, as far as the provider knows them */
+export interface StructuredAddress {
+  street?: string;
+  houseNumber?: string;
+  /** Neighbourhood, quarter or suburb */
+  neighbourhood?: string;
+  /** City, town or village */
+  city?: string;
+  postcode?: string;
+  /** ISO 3166-1 alpha-2, upper case */
+  countryCode?: string;
+}
+
 export interface GeocodingResult {
   lat: number;
   lng: number;
   displayName: string;
   type: string;
   importance: number;
+  address?: StructuredAddress;
 }
 
 export interface GeocodingProvider {
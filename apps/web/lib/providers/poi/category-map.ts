@@ -14,7 +14,7 @@ export const OSM_TO_OVERTURE: Record<string, string[]> = {
 
   // Transit
   // Note: Overture POI data only has major stations, not individual bus stops
-  // For comprehensive transit coverage, consider adding GTFS or OSM transit data
+  // For comprehensive transit coverage, import GTFS feeds (TRANSIT_POI_PROVIDER=gtfs)
   "railway=station": ["train_station", "subway_station", "metro_station"],
   "railway=halt": ["train_station"],
   "railway=tram_stop": ["tram_station", "light_rail_station"],
@@ -69,6 +69,11 @@ export function osmTagsToOvertureCategories(tags: string[]): string[] {
   return tags.flatMap((tag) => OSM_TO_OVERTURE[tag] || []);
 }
 
+/** Overture category stored for a POI imported from OSM with this tag (e.g. "highway=bus_stop" → "bus_stop") */
+export function osmTagToOvertureCategory(tag: string): string | null {
+  return OSM_TO_OVERTURE[tag]?.[0] ?? null;
+}
+
 /** Maps an Overture category back to the best matching OSM tag from the given tags */
 export function overtureCategoryToOsmTag(
   overtureCategory: string,
@@ -0,0 +1,177 @@
+import { haversineDistance } from "@/lib/distance/haversine";
+import {
+  POI_DEDUPE_DISTANCE,
+  POI_DEDUPE_UNNAMED_DISTANCE,
+  POI_NAME_SIMILARITY,
+} from "@/lib/constants";
+import { MAX_POIS_PER_QUERY } from "./nearest";
+import type { POI, POIProvider, POIQueryOptions, POIQueryResult } from "./types";
+
+export interface POISource {
+  /** Recorded in `poi:source` / `poi:sources`, e.g. "localdb" */
+  name: string;
+  provider: POIProvider;
+}
+
+/** Source order per category ID; the first source wins duplicates */
+export type SourcePriority = Record<string, string[]>;
+
+/**
+ * Overture (localdb) is strong on businesses, OSM (overpass) on parks, stops
+ * and schools. Categories not listed keep the configured source order.
+ */
+export const DEFAULT_SOURCE_PRIORITY: SourcePriority = {
+  parks: ["overpass", "localdb"],
+  transit: ["overpass", "localdb"],
+  education: ["overpass", "localdb"],
+};
+
+/** Lower-case, no accents or punctuation: "Café Müller" → "cafe muller" */
+function normalizeName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function bigrams(value: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) {
+    result.push(value.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * Dice coefficient of character bigrams (0-1). A name contained in the other
+ * counts as identical ("Lidl" / "Lidl Friedrichstraße").
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (left === "" || right === "") return 0;
+  if (left.includes(right) || right.includes(left)) return 1;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) return 0;
+
+  const remaining = [...rightBigrams];
+  let shared = 0;
+  for (const bigram of leftBigrams) {
+    const index = remaining.indexOf(bigram);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (leftBigrams.length + rightBigrams.length);
+}
+
+/**
+ * Same place from two sources: named POIs within POI_DEDUPE_DISTANCE with
+ * similar names, or unnamed POIs of the same category within POI_DEDUPE_UNNAMED_DISTANCE
+ */
+export function isDuplicate(
+  a: Pick<POI, "lat" | "lng" | "name" | "category">,
+  b: Pick<POI, "lat" | "lng" | "name" | "category">
+): boolean {
+  const distance = haversineDistance(a.lat, a.lng, b.lat, b.lng);
+
+  if (a.name && b.name) {
+    return distance <= POI_DEDUPE_DISTANCE && nameSimilarity(a.name, b.name) >= POI_NAME_SIMILARITY;
+  }
+  return distance <= POI_DEDUPE_UNNAMED_DISTANCE && a.category === b.category;
+}
+
+/**
+ * Distinct POIs among those past each source's cap, which can't be matched
+ * directly. The largest remainder counts in full; the others count only the
+ * share of their returned POIs that no other source had.
+ */
+function estimateUnreturned(remainders: { unreturned: number; distinctShare: number }[]): number {
+  const sorted = [...remainders].sort((a, b) => b.unreturned - a.unreturned);
+  const [largest, ...rest] = sorted;
+  if (!largest) return 0;
+
+  return (
+    largest.unreturned +
+    Math.round(rest.reduce((sum, r) => sum + r.unreturned * r.distinctShare, 0))
+  );
+}
+
+/**
+ * POIs from several providers, merged and de-duplicated. Each POI is tagged
+ * with `poi:source` (the source it was taken from) and `poi:sources` (every
+ * source that had it, winner first).
+ *
+ * A source that fails is skipped as long as another one answers.
+ */
+export class CompositePOIProvider implements POIProvider {
+  constructor(
+    private sources: POISource[],
+    private priority: SourcePriority = DEFAULT_SOURCE_PRIORITY
+  ) {}
+
+  async queryPOIs(options: POIQueryOptions): Promise<POIQueryResult> {
+    const settled = await Promise.allSettled(
+      this.orderedSources(options.categoryId).map(async (source) => ({
+        source,
+        result: await source.provider.queryPOIs(options),
+      }))
+    );
+
+    const answered = settled.flatMap((s) => (s.status === "fulfilled" ? [s.value] : []));
+    for (const s of settled) {
+      if (s.status === "rejected") console.error("POI source failed:", s.reason);
+    }
+    if (answered.length === 0) {
+      throw new Error("All POI sources failed");
+    }
+
+    const merged: POI[] = [];
+
+    for (const { source, result } of answered) {
+      for (const poi of result.pois) {
+        const existing = merged.find((kept) => isDuplicate(kept, poi));
+        if (existing) {
+          existing.tags["poi:sources"] += `,${source.name}`;
+          continue;
+        }
+        merged.push({
+          ...poi,
+          tags: { ...poi.tags, "poi:source": source.name, "poi:sources": source.name },
+        });
+      }
+    }
+
+    // Per source: POIs past its cap, and the share of its POIs no other source had
+    const remainders = answered.map(({ source, result }) => {
+      const found = merged.filter((poi) => poi.tags["poi:sources"].split(",").includes(source.name));
+      const onlyHere = found.filter((poi) => poi.tags["poi:sources"] === source.name);
+      return {
+        unreturned: result.totalCount - result.pois.length,
+        distinctShare: found.length > 0 ? onlyHere.length / found.length : 1,
+      };
+    });
+
+    merged.sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
+    return {
+      pois: merged.slice(0, MAX_POIS_PER_QUERY),
+      totalCount: merged.length + estimateUnreturned(remainders),
+    };
+  }
+
+  /** Sources in priority order for the category: listed ones first, then the rest */
+  private orderedSources(categoryId: string | undefined): POISource[] {
+    const order = (categoryId && this.priority[categoryId]) || [];
+    const rank = (source: POISource) => {
+      const index = order.indexOf(source.name);
+      return index === -1 ? order.length : index;
+    };
+    // Stable sort keeps the configured order among unlisted sources
+    return [...this.sources].sort((a, b) => rank(a) - rank(b));
+  }
+}
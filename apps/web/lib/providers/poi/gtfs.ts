@@ -0,0 +1,34 @@
+import { boundsAround } from "@/lib/distance";
+import {
+  loadFeeds,
+  isCoveredByFeeds,
+  loadNearestServedStops,
+  stopToPOI,
+  MAX_GTFS_STOPS,
+} from "@/lib/transit";
+import type { POIProvider, POIQueryOptions, POIQueryResult } from "./types";
+
+/**
+ * Transit stops from imported GTFS feeds, with service frequency.
+ * Points outside every feed are answered by the fallback provider.
+ */
+export class GTFSProvider implements POIProvider {
+  constructor(private fallback: POIProvider) {}
+
+  async queryPOIs(options: POIQueryOptions): Promise<POIQueryResult> {
+    const { lat, lng, radius, tags } = options;
+    const feeds = await loadFeeds(boundsAround(lat, lng, radius));
+    if (!isCoveredByFeeds(lat, lng, feeds)) {
+      return this.fallback.queryPOIs(options);
+    }
+
+    // Frequency scoring sums every stop, so keep up to MAX_GTFS_STOPS
+    const { stops, totalCount } = await loadNearestServedStops(lat, lng, radius, MAX_GTFS_STOPS);
+    const pois = stops
+      .map((stop) => stopToPOI(stop, lat, lng))
+      .filter((poi) => tags.includes(poi.category));
+
+    // Stops past the cap can't be tag-checked; the ones dropped here are excluded
+    return { pois, totalCount: totalCount - (stops.length - pois.length) };
+  }
+}
@@ -1,16 +1,29 @@
 export * from "./types";
 export { OverpassProvider } from "./overpass";
 export { LocalDBProvider } from "./localdb";
+export { GTFSProvider } from "./gtfs";
+export { CompositePOIProvider, DEFAULT_SOURCE_PRIORITY } from "./composite";
+export { MAX_POIS_PER_QUERY, nearestWithinRadius } from "./nearest";
 
 import type { POIProvider } from "./types";
 import { OverpassProvider } from "./overpass";
 import { LocalDBProvider } from "./localdb";
+import { GTFSProvider } from "./gtfs";
+import { CompositePOIProvider, DEFAULT_SOURCE_PRIORITY, type SourcePriority } from "./composite";
 
-export type ProviderType = "localdb" | "overpass";
+export type ProviderType = "localdb" | "overpass" | "composite";
+export type TransitProviderType = "default" | "gtfs";
 
 const PROVIDER_TYPE = (process.env.POI_PROVIDER || "localdb") as ProviderType;
+// Composite provider: sources in default priority order, and per-category overrides
+const COMPOSITE_SOURCES = (process.env.POI_COMPOSITE_SOURCES || "localdb,overpass")
+  .split(",")
+  .map((s) => s.trim()) as ProviderType[];
+const SOURCE_PRIORITY = process.env.POI_SOURCE_PRIORITY;
+const TRANSIT_PROVIDER_TYPE = (process.env.TRANSIT_POI_PROVIDER || "default") as TransitProviderType;
 
 let provider: POIProvider | null = null;
+let transitProvider: POIProvider | null = null;
 
 export function getPOIProvider(): POIProvider {
   if (!provider) {
@@ -19,17 +32,74 @@ export function getPOIProvider(): POIProvider {
   return provider;
 }
 
+/**
+ * Provider for a scoring category. The transit category can be served from
+ * imported GTFS feeds (TRANSIT_POI_PROVIDER=gtfs); everything else uses POI_PROVIDER.
+ */
+export function getCategoryPOIProvider(categoryId: string): POIProvider {
+  if (categoryId !== "transit" || TRANSIT_PROVIDER_TYPE === "default") {
+    return getPOIProvider();
+  }
+  if (!transitProvider) {
+    transitProvider = createTransitProvider(TRANSIT_PROVIDER_TYPE);
+  }
+  return transitProvider;
+}
+
+export function isGTFSTransitEnabled(): boolean {
+  return TRANSIT_PROVIDER_TYPE === "gtfs";
+}
+
+export function createTransitProvider(type: TransitProviderType): POIProvider {
+  switch (type) {
+    case "default":
+      return getPOIProvider();
+    case "gtfs":
+      return new GTFSProvider(getPOIProvider());
+    default:
+      throw new Error(`Unknown transit POI provider: ${type}`);
+  }
+}
+
 export function createProvider(type: ProviderType): POIProvider {
   switch (type) {
     case "localdb":
       return new LocalDBProvider();
     case "overpass":
       return new OverpassProvider();
+    case "composite":
+      return new CompositePOIProvider(
+        COMPOSITE_SOURCES.map((source) => {
+          if (source === "composite") {
+            throw new Error("POI_COMPOSITE_SOURCES can't include composite");
+          }
+          return { name: source, provider: createProvider(source) };
+        }),
+        parseSourcePriority(SOURCE_PRIORITY)
+      );
     default:
       throw new Error(`Unknown POI provider: ${type}`);
   }
 }
 
+/**
+ * "parks=overpass,localdb;groceries=localdb" → source order per category,
+ * on top of DEFAULT_SOURCE_PRIORITY
+ */
+export function parseSourcePriority(value: string | undefined): SourcePriority {
+  const priority: SourcePriority = { ...DEFAULT_SOURCE_PRIORITY };
+  if (!value) return priority;
+
+  for (const entry of value.split(";")) {
+    const [categoryId, sources] = entry.split("=");
+    if (!categoryId?.trim() || !sources) {
+      throw new Error(`Invalid POI_SOURCE_PRIORITY entry: ${entry}`);
+    }
+    priority[categoryId.trim()] = sources.split(",").map((s) => s.trim());
+  }
+  return priority;
+}
+
 // For testing or explicit provider selection
 export function setProvider(p: POIProvider): void {
   provider = p;
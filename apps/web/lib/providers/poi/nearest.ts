@@ -0,0 +1,20 @@
+import type { POI, POIQueryResult } from "./types";
+
+/** Most POIs a provider returns per query; totalCount still counts the rest */
+export const MAX_POIS_PER_QUERY = 100;
+
+/**
+ * Query result from candidates loaded in memory (POIs with their distance set):
+ * only POIs inside the radius, closest first, capped at `limit`
+ */
+export function nearestWithinRadius(
+  pois: POI[],
+  radius: number,
+  limit: number = MAX_POIS_PER_QUERY
+): POIQueryResult {
+  const within = pois
+    .filter((poi) => (poi.distance ?? Infinity) <= radius)
+    .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
+
+  return { pois: within.slice(0, limit), totalCount: within.length };
+}
@@ -1,4 +1,6 @@
-import type { POIProvider, POI, POIQueryOptions } from "./types";
+import { haversineDistance } from "@/lib/distance/haversine";
+import { nearestWithinRadius } from "./nearest";
+import type { POIProvider, POI, POIQueryOptions, POIQueryResult } from "./types";
 
 interface OverpassElement {
   type: "node" | "way" | "relation";
@@ -89,7 +91,7 @@ async function sleep(ms: number): Promise<void> {
 }
 
 export class OverpassProvider implements POIProvider {
-  async queryPOIs(options: POIQueryOptions): Promise<POI[]> {
+  async queryPOIs(options: POIQueryOptions): Promise<POIQueryResult> {
     const { lat, lng, radius, tags } = options;
 
     // Build Overpass query
@@ -150,10 +152,10 @@ out center;
         markServerSuccess(server.url);
         const data: OverpassResponse = await response.json();
 
-        return data.elements.map((element): POI => {
+        const pois = data.elements.map((element): POI => {
           const poiLat = element.lat ?? element.center?.lat ?? 0;
           const poiLng = element.lon ?? element.center?.lon ?? 0;
-          const distance = this.calculateDistance(lat, lng, poiLat, poiLng);
+          const distance = haversineDistance(lat, lng, poiLat, poiLng);
           const category = this.extractCategory(element.tags || {}, tags);
 
           return {
@@ -166,6 +168,8 @@ out center;
             distance,
           };
         });
+
+        return nearestWithinRadius(pois, radius);
       } catch (error) {
         const err = error instanceof Error ? error : new Error(String(error));
 
@@ -192,29 +196,6 @@ out center;
     }));
   }
 
-  private calculateDistance(
-    lat1: number,
-    lng1: number,
-    lat2: number,
-    lng2: number
-  ): number {
-    const R = 6371000; // Earth's radius in meters
-    const dLat = this.toRad(lat2 - lat1);
-    const dLng = this.toRad(lng2 - lng1);
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRad(lat1)) *
-        Math.cos(this.toRad(lat2)) *
-        Math.sin(dLng / 2) *
-        Math.sin(dLng / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-
-  private toRad(deg: number): number {
-    return (deg * Math.PI) / 180;
-  }
-
   private extractCategory(
     tags: Record<string, string>,
     queryTags: string[]
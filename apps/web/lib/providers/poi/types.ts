@@ -6,6 +6,10 @@ export interface POI {
   category: string;
   tags: Record<string, string>;
   distance?: number;
+  /** Scheduled departures per hour (GTFS transit stops only) */
+  departuresPerHour?: number;
+  /** Source confidence that the place exists (0-1, Overture only) */
+  confidence?: number;
 }
 
 export interface POIQueryOptions {
@@ -13,8 +17,17 @@ export interface POIQueryOptions {
   lng: number;
   radius: number;
   tags: string[];
+  /** Scoring category the tags belong to (the composite provider ranks sources by it) */
+  categoryId?: string;
+}
+
+export interface POIQueryResult {
+  /** Nearest POIs inside the radius, closest first; capped, see MAX_POIS_PER_QUERY */
+  pois: POI[];
+  /** All matching POIs inside the radius, including those not returned */
+  totalCount: number;
 }
 
 export interface POIProvider {
-  queryPOIs(options: POIQueryOptions): Promise<POI[]>;
+  queryPOIs(options: POIQueryOptions): Promise<POIQueryResult>;
 }
@@ -19,8 +19,10 @@ interface RateLimitResult {
 // Default rate limits per endpoint
 const DEFAULT_LIMITS: Record<string, RateLimitConfig> = {
   "/api/score": { maxRequests: 300, windowSeconds: 60 }, // 300 requests per minute
+  "/api/score/batch": { maxRequests: 1000, windowSeconds: 60 }, // 1000 points per minute (counted per point)
   "/api/geocode": { maxRequests: 600, windowSeconds: 60 }, // 600 requests per minute
   "/api/heatmap": { maxRequests: 200, windowSeconds: 60 }, // 200 requests per minute
+  "/api/heatmap/tiles": { maxRequests: 3000, windowSeconds: 60 }, // A viewport loads ~20 tiles at once
   default: { maxRequests: 1000, windowSeconds: 60 }, // 1000 requests per minute for unknown endpoints
 };
 
@@ -56,12 +58,14 @@ export function getClientIP(request: Request): string {
  * @param ip - Client IP address
  * @param endpoint - API endpoint path (e.g., "/api/score")
  * @param config - Optional custom rate limit config
+ * @param cost - How much this request counts against the limit (e.g. number of points in a batch)
  * @returns Rate limit result with remaining count and reset time
  */
 export async function checkRateLimit(
   ip: string,
   endpoint: string,
-  config?: RateLimitConfig
+  config?: RateLimitConfig,
+  cost: number = 1
 ): Promise<RateLimitResult> {
   // If database is not configured, allow all requests (development mode)
   if (!db) {
@@ -87,12 +91,12 @@ export async function checkRateLimit(
       .values({
         ipHash,
         endpoint,
-        requestCount: 1,
+        requestCount: cost,
         windowStart,
       })
       .onConflictDoUpdate({
         target: [rateLimits.ipHash, rateLimits.endpoint, rateLimits.windowStart],
-        set: { requestCount: sql`${rateLimits.requestCount} + 1` },
+        set: { requestCount: sql`${rateLimits.requestCount} + ${cost}` },
       })
       .returning({ requestCount: rateLimits.requestCount });
 
@@ -0,0 +1,128 @@
+import { getDb, isDbConfigured } from "@/lib/db/client";
+import { pointScoreCache } from "@/lib/db/schema";
+import { and, eq, gt, gte, lte } from "drizzle-orm";
+import { SCORE_CACHE_GRID_STEP, SCORE_CACHE_TTL_HOURS } from "@/lib/constants";
+import { categories } from "./categories";
+import { summarizeDataQuality } from "./confidence";
+import type { ScoreResult, CategoryScoreResult } from "./types";
+
+export interface CacheBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+/**
+ * Snap a coordinate to the score cache grid.
+ * Rounded to 5 decimals to match how heat cells are stored.
+ */
+export function snapToCacheGrid(value: number): number {
+  const snapped = Math.round(value / SCORE_CACHE_GRID_STEP) * SCORE_CACHE_GRID_STEP;
+  return Math.round(snapped * 100000) / 100000;
+}
+
+/**
+ * Get a cached score for an already-snapped point.
+ * Returns null on miss, expiry, or when the database is unavailable.
+ */
+export async function getCachedScore(
+  lat: number,
+  lng: number
+): Promise<ScoreResult | null> {
+  if (!isDbConfigured()) return null;
+
+  try {
+    const [row] = await getDb()
+      .select()
+      .from(pointScoreCache)
+      .where(
+        and(
+          eq(pointScoreCache.lat, lat),
+          eq(pointScoreCache.lng, lng),
+          gt(pointScoreCache.expiresAt, new Date())
+        )
+      )
+      .limit(1);
+
+    if (!row) return null;
+
+    const categories = row.categories as CategoryScoreResult[];
+    const dataQuality = summarizeDataQuality(categories);
+    return {
+      lat,
+      lng,
+      overall: row.overall,
+      categories,
+      computedAt: row.computedAt.toISOString(),
+      ...(dataQuality && { dataQuality }),
+    };
+  } catch (error) {
+    console.error("Score cache read error:", error);
+    return null;
+  }
+}
+
+/**
+ * Store a computed score, replacing any previous entry for the same grid point
+ */
+export async function setCachedScore(score: ScoreResult): Promise<void> {
+  if (!isDbConfigured()) return;
+
+  const computedAt = new Date(score.computedAt);
+  const expiresAt = new Date(computedAt.getTime() + SCORE_CACHE_TTL_HOURS * 60 * 60 * 1000);
+
+  try {
+    await getDb()
+      .insert(pointScoreCache)
+      .values({
+        lat: score.lat,
+        lng: score.lng,
+        overall: score.overall,
+        categories: score.categories,
+        computedAt,
+        expiresAt,
+      })
+      .onConflictDoUpdate({
+        target: [pointScoreCache.lat, pointScoreCache.lng],
+        set: {
+          overall: score.overall,
+          categories: score.categories,
+          computedAt,
+          expiresAt,
+        },
+      });
+  } catch (error) {
+    console.error("Score cache write error:", error);
+  }
+}
+
+/**
+ * Delete cached scores that could be affected by POI changes inside the bounds.
+ * Bounds are expanded by the largest category radius, since a POI influences
+ * every point within that distance.
+ *
+ * @returns Number of deleted cache entries
+ */
+export async function invalidateScoreCache(bounds: CacheBounds): Promise<number> {
+  if (!isDbConfigured()) return 0;
+
+  const maxRadius = Math.max(...categories.map((c) => c.radius));
+  const midLat = (bounds.minLat + bounds.maxLat) / 2;
+  const latBuffer = maxRadius / 111320;
+  const lngBuffer = maxRadius / (111320 * Math.cos((midLat * Math.PI) / 180));
+
+  const deleted = await getDb()
+    .delete(pointScoreCache)
+    .where(
+      and(
+        gte(pointScoreCache.lat, bounds.minLat - latBuffer),
+        lte(pointScoreCache.lat, bounds.maxLat + latBuffer),
+        gte(pointScoreCache.lng, bounds.minLng - lngBuffer),
+        lte(pointScoreCache.lng, bounds.maxLng + lngBuffer)
+      )
+    )
+    .returning({ id: pointScoreCache.id });
+
+  return deleted.length;
+}
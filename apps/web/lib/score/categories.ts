@@ -41,6 +41,9 @@ export const categories: CategoryDefinition[] = [
     minCount: 1,
     maxCount: 4, // Reduced since data only has major stations
     saturationK: 0.7,
+    // With GTFS data (TRANSIT_POI_PROVIDER=gtfs) a stop served every 10 minutes
+    // counts as one POI; maxCount then means ~24 departures/hour in total
+    frequencyUnit: 6,
     overpassTags: [
       "highway=bus_stop",
       "railway=station",
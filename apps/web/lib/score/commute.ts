@@ -0,0 +1,93 @@
+import { haversineDistance } from "@/lib/distance/haversine";
+import { DETOUR_FACTOR } from "@/lib/distance/isochrone";
+import type { POI } from "@/lib/providers/poi/types";
+import type { AnchorKind, CategoryDefinition, CommuteAnchor } from "./types";
+
+export const COMMUTE_CATEGORY_ID = "commute";
+
+export const ANCHOR_KINDS: AnchorKind[] = ["work", "school", "gym", "other"];
+
+export const MAX_ANCHORS = 3;
+
+// Anchors within `ideal` meters score 100, falling linearly to 0 at `max`
+export const COMMUTE_DISTANCES = { ideal: 1000, max: 15000 } as const;
+
+// Weight in the overall score when blended (same as groceries and transit)
+export const COMMUTE_WEIGHT = 1.5;
+
+export interface CommuteSettings {
+  anchors: CommuteAnchor[];
+  /** Count the commute score in the overall score */
+  blend: boolean;
+}
+
+/**
+ * Commute category for the engine. Without blending its weight is 0, so it is
+ * reported next to the other categories but leaves the overall score alone.
+ */
+export function commuteCategory(settings: CommuteSettings): CategoryDefinition {
+  return {
+    id: COMMUTE_CATEGORY_ID,
+    weight: settings.blend ? COMMUTE_WEIGHT : 0,
+    radius: COMMUTE_DISTANCES.max,
+    minCount: 1,
+    maxCount: settings.anchors.length,
+    overpassTags: [],
+    anchors: settings.anchors,
+  };
+}
+
+/**
+ * Anchors as POIs, measured in straight line with the usual detour factor.
+ * The engine replaces the distance with a routed one where the street graph reaches.
+ */
+export function anchorPOIs(anchors: CommuteAnchor[], lat: number, lng: number): POI[] {
+  return anchors.map((anchor, index) => ({
+    id: `anchor-${index}`,
+    lat: anchor.lat,
+    lng: anchor.lng,
+    name: anchor.kind,
+    category: anchor.kind,
+    tags: {},
+    distance: haversineDistance(lat, lng, anchor.lat, anchor.lng) * DETOUR_FACTOR,
+  }));
+}
+
+/**
+ * Encode commute settings for URLs and query parameters:
+ * "blend~work:52.52,13.405~gym:52.51,13.39" (the "blend" part only when blended)
+ */
+export function encodeCommute(settings: CommuteSettings): string {
+  const anchors = settings.anchors.map(
+    (a) => `${a.kind}:${Number(a.lat.toFixed(5))},${Number(a.lng.toFixed(5))}`
+  );
+  return (settings.blend ? ["blend", ...anchors] : anchors).join("~");
+}
+
+/**
+ * Parse commute settings from a URL/query value.
+ * Returns null for unknown anchor kinds, invalid coordinates, no anchors or more than MAX_ANCHORS.
+ */
+export function parseCommute(value: string | null | undefined): CommuteSettings | null {
+  if (!value) return null;
+
+  const parts = value.split("~");
+  const blend = parts[0] === "blend";
+  const anchorParts = blend ? parts.slice(1) : parts;
+  if (anchorParts.length === 0 || anchorParts.length > MAX_ANCHORS) return null;
+
+  const anchors: CommuteAnchor[] = [];
+  for (const part of anchorParts) {
+    const match = /^([a-z]+):(-?[\d.]+),(-?[\d.]+)$/.exec(part);
+    if (!match || !ANCHOR_KINDS.includes(match[1] as AnchorKind)) return null;
+
+    const lat = parseFloat(match[2]);
+    const lng = parseFloat(match[3]);
+    if (isNaN(lat) || isNaN(lng) || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+      return null;
+    }
+    anchors.push({ kind: match[1] as AnchorKind, lat, lng });
+  }
+
+  return { anchors, blend };
+}
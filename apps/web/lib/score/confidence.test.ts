@@ -0,0 +1,23 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_POI_MIN_CONFIDENCE } from "@/lib/constants";
+import { parseMinConfidence } from "./confidence";
+
+test("accepts confidences between 0 and 1", () => {
+  assert.equal(parseMinConfidence("0"), 0);
+  assert.equal(parseMinConfidence("0.5"), 0.5);
+  assert.equal(parseMinConfidence("1"), 1);
+});
+
+test("falls back to the default when unset", () => {
+  assert.equal(parseMinConfidence(undefined), DEFAULT_POI_MIN_CONFIDENCE);
+  assert.equal(parseMinConfidence(""), DEFAULT_POI_MIN_CONFIDENCE);
+});
+
+test("falls back to the default for invalid values", (t) => {
+  t.mock.method(console, "warn", () => {});
+
+  for (const value of ["0.5x", "abc", "NaN", "Infinity", "-0.1", "1.5"]) {
+    assert.equal(parseMinConfidence(value), DEFAULT_POI_MIN_CONFIDENCE, value);
+  }
+});
@@ -0,0 +1,59 @@
+import { DATA_QUALITY_LOW_CONFIDENCE, DEFAULT_POI_MIN_CONFIDENCE, POI_FULL_CONFIDENCE } from "@/lib/constants";
+import type { POI } from "@/lib/providers/poi/types";
+import type { CategoryScoreResult, DataQuality } from "./types";
+
+/**
+ * Confidence-aware scoring. Overture rates how sure it is that a place exists;
+ * closed or ghost businesses have low confidence. POIs below the minimum are
+ * not loaded, the rest count by confidence up to POI_FULL_CONFIDENCE.
+ */
+
+/**
+ * Parse a POI_MIN_CONFIDENCE value. Anything but a number in 0-1 falls back to
+ * the default: NaN would fail every comparison and drop all rated POIs.
+ */
+export function parseMinConfidence(value: string | undefined): number {
+  if (value === undefined || value.trim() === "") return DEFAULT_POI_MIN_CONFIDENCE;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+    console.warn(
+      `Invalid POI_MIN_CONFIDENCE "${value}" (expected 0-1), using ${DEFAULT_POI_MIN_CONFIDENCE}`
+    );
+    return DEFAULT_POI_MIN_CONFIDENCE;
+  }
+  return parsed;
+}
+
+/** Minimum confidence for POIs from overture_pois (POI_MIN_CONFIDENCE, 0-1) */
+export const POI_MIN_CONFIDENCE = parseMinConfidence(process.env.POI_MIN_CONFIDENCE);
+
+/** How much a POI counts (0-1); POIs without a confidence count fully */
+export function confidenceWeight(poi: Pick<POI, "confidence">): number {
+  if (poi.confidence === undefined) return 1;
+  return Math.min(1, Math.max(0, poi.confidence / POI_FULL_CONFIDENCE));
+}
+
+/** Mean confidence weight, or null without POIs */
+export function meanConfidenceWeight(pois: POI[]): number | null {
+  if (pois.length === 0) return null;
+  return pois.reduce((sum, poi) => sum + confidenceWeight(poi), 0) / pois.length;
+}
+
+/**
+ * Data quality of a score: category confidences averaged by POI count.
+ * Works on cached results too, which keep the category confidences.
+ */
+export function summarizeDataQuality(categories: CategoryScoreResult[]): DataQuality | undefined {
+  let weighted = 0;
+  let count = 0;
+  for (const category of categories) {
+    if (category.confidence === undefined) continue;
+    weighted += category.confidence * category.count;
+    count += category.count;
+  }
+  if (count === 0) return undefined;
+
+  const confidence = Math.round((weighted / count) * 100) / 100;
+  return { confidence, low: confidence < DATA_QUALITY_LOW_CONFIDENCE };
+}
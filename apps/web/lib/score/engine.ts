@@ -3,71 +3,140 @@ import type {
   ScoreResult,
   CategoryScoreResult,
   CategoryDefinition,
+  ScoreBreakdown,
+  ScoreSuggestion,
   SubType,
 } from "./types";
-import { getPOIProvider } from "@/lib/providers/poi";
+import { resolveCategories, encodeProfile, type ScoringProfile } from "./profiles";
+import {
+  anchorPOIs,
+  commuteCategory,
+  encodeCommute,
+  COMMUTE_DISTANCES,
+  type CommuteSettings,
+} from "./commute";
+import { isOpenAt, formatScoreTime, type ScoreTime } from "./opening-hours";
+import { confidenceWeight, meanConfidenceWeight, summarizeDataQuality } from "./confidence";
+import { getPOIProvider, getCategoryPOIProvider } from "@/lib/providers/poi";
+import {
+  getDistanceModel,
+  boundsAround,
+  measureWithin,
+  computeCatchment,
+  pointInPolygon,
+  type DistanceFn,
+  type IsochroneSpec,
+} from "@/lib/distance";
 import type { POI } from "@/lib/providers/poi/types";
+
+export interface ScoreOptions {
+  /** Overrides category weight/radius/maxCount; defaults are used when omitted */
+  profile?: ScoringProfile | null;
+  /** Replace circular radii with the area reachable in N minutes */
+  isochrone?: IsochroneSpec | null;
+  /** Adds the commute category, scored by distance to these anchors */
+  commute?: CommuteSettings | null;
+  /** Count only POIs open at this time (per their opening_hours tag) */
+  at?: ScoreTime | null;
+  /** Include each category's score breakdown */
+  explain?: boolean;
+  /** Include changes that would raise each category's score */
+  suggest?: boolean;
+}
+
 export async function calculateScore(
   lat: number,
-  lng: number
+  lng: number,
+  options: ScoreOptions = {}
 ): Promise<ScoreResult> {
-  const poiProvider = getPOIProvider();
   const categoryResults: CategoryScoreResult[] = [];
+  const catchment = options.isochrone
+    ? await computeCatchment(lat, lng, options.isochrone)
+    : null;
+
+  // In isochrone mode every POI category searches the whole catchment
+  const scoringCategories = [
+    ...resolveCategories(options.profile).map((category) =>
+      catchment ? { ...category, radius: Math.round(catchment.reach) } : category
+    ),
+    ...(options.commute ? [commuteCategory(options.commute)] : []),
+  ];
 
   // Fetch POIs for each category in parallel
-  const categoryPOIPromises = categories.map(async (category) => {
-    const pois = await poiProvider.queryPOIs({
+  const categoryPOIPromises = scoringCategories.map(async (category) => {
+    if (category.anchors) {
+      return { category, pois: anchorPOIs(category.anchors, lat, lng), unreturned: 0 };
+    }
+
+    const { pois, totalCount } = await getCategoryPOIProvider(category.id).queryPOIs({
       lat,
       lng,
       radius: category.radius,
       tags: category.overpassTags,
+      categoryId: category.id,
     });
 
-    const nearestDistance =
-      pois.length > 0
-        ? Math.min(...pois.map((p) => p.distance ?? Infinity))
-        : null;
-
-    return { category, pois, nearestDistance };
+    // POIs past the provider's cap still count. The filters below only see
+    // returned POIs, so the rest are assumed to pass (open, reachable, in the catchment)
+    const at = options.at;
+    return {
+      category,
+      pois: at ? pois.filter((poi) => isOpenAt(poi.tags.opening_hours, at)) : pois,
+      unreturned: totalCount - pois.length,
+    };
   });
 
   const results = await Promise.all(categoryPOIPromises);
 
-  // Calculate scores for each category
-  for (const { category, pois, nearestDistance } of results) {
-    const score = calculateCategoryScore(category, pois, nearestDistance);
-
-    // Sort POIs by distance and limit to 20 closest
-    const sortedPois = pois
-      .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity))
-      .slice(0, 20)
-      .map((poi) => ({
-        id: poi.id,
-        lat: poi.lat,
-        lng: poi.lng,
-        name: poi.name,
-        distance: Math.round(poi.distance ?? 0),
-      }));
-
-    categoryResults.push({
-      id: category.id,
-      score: Math.round(score),
-      count: pois.length,
-      radius: category.radius,
-      nearestDistance,
-      pois: sortedPois,
-    });
+  // Providers measure straight-line distance; re-measure when a routed model is enabled
+  const distanceModel = getDistanceModel();
+  if (distanceModel.type !== "haversine") {
+    // Anchors can be far away; the region only covers the POI categories
+    const maxRadius = Math.max(
+      ...scoringCategories.filter((c) => !c.anchors).map((c) => c.radius)
+    );
+    try {
+      const region = await distanceModel.loadRegion(boundsAround(lat, lng, maxRadius));
+      const distanceTo = region.fromOrigin(lat, lng, maxRadius);
+      for (const result of results) {
+        result.pois = result.category.anchors
+          ? routeWhereReachable(result.pois, distanceTo)
+          : measureWithin(result.pois, distanceTo, result.category.radius);
+      }
+    } catch (error) {
+      console.error(`${distanceModel.type} distance model failed, using haversine:`, error);
+    }
   }
 
-  // Calculate overall score (weighted average with compression)
-  const totalWeight = categories.reduce((sum, c) => sum + c.weight, 0);
-  const weightedSum = categoryResults.reduce((sum, result) => {
-    const category = categories.find((c) => c.id === result.id)!;
-    return sum + result.score * category.weight;
-  }, 0);
+  if (catchment) {
+    for (const result of results) {
+      if (result.category.anchors) continue;
+      result.pois = result.pois.filter((poi) => pointInPolygon(poi.lat, poi.lng, catchment.polygon));
+    }
+  }
 
-  // Apply compression to overall score too - makes 90-100 harder to achieve
-  const overall = compressScore(Math.round(weightedSum / totalWeight));
+  // Calculate scores for each category
+  for (const { category, pois, unreturned } of results) {
+    categoryResults.push(
+      buildCategoryResult(category, pois, options.explain, pois.length + unreturned)
+    );
+  }
+
+  const overall = calculateOverallScore(categoryResults, scoringCategories);
+  const dataQuality = summarizeDataQuality(categoryResults);
+
+  if (options.suggest) {
+    results.forEach(({ category, pois, unreturned }, index) => {
+      categoryResults[index].suggestions = suggestImprovements(
+        category,
+        pois,
+        pois.length + unreturned,
+        categoryResults,
+        scoringCategories,
+        overall
+      );
+    });
+  }
 
   return {
     lat,
@@ -75,41 +144,302 @@ export async function calculateScore(
     overall,
     categories: categoryResults,
     computedAt: new Date().toISOString(),
+    ...(options.profile && { profile: encodeProfile(options.profile) }),
+    ...(catchment && { catchment }),
+    ...(options.commute && { commute: encodeCommute(options.commute) }),
+    ...(options.at && { at: formatScoreTime(options.at) }),
+    ...(dataQuality && { dataQuality }),
   };
 }
 
-function calculateCategoryScore(
+/**
+ * What would raise a category score: one more POI (of each sub-type, keeping
+ * the best) or the nearest POI being closer, both at half the distance below
+ * which a POI earns distance points. Only changes with a gain are returned.
+ */
+function suggestImprovements(
+  category: CategoryDefinition,
+  pois: POI[],
+  totalCount: number,
+  categoryResults: CategoryScoreResult[],
+  scoringCategories: CategoryDefinition[],
+  overall: number
+): ScoreSuggestion[] {
+  // Anchors are the user's own places, nothing to build
+  if (category.anchors) return [];
+
+  const current = scoreCategory(category, pois, totalCount);
+  const distance = Math.round(Math.min(400, category.radius * 0.4) / 2);
+
+  const evaluate = (
+    kind: ScoreSuggestion["kind"],
+    changed: POI[],
+    subType?: string
+  ): ScoreSuggestion => {
+    const score = scoreCategory(category, changed, totalCount + changed.length - pois.length);
+    const changedOverall = calculateOverallScore(
+      categoryResults.map((r) => (r.id === category.id ? { ...r, score } : r)),
+      scoringCategories
+    );
+    return {
+      kind,
+      ...(subType && { subType }),
+      distance,
+      categoryGain: score - current,
+      overallGain: changedOverall - overall,
+    };
+  };
+
+  const added = (poiCategory: string): POI[] => [
+    ...pois,
+    { id: "suggested", lat: 0, lng: 0, name: null, category: poiCategory, tags: {}, distance },
+  ];
+
+  const additions = category.subTypes?.length
+    ? category.subTypes.map((st) => evaluate("add", added(st.tags[0]), st.id))
+    : [evaluate("add", added(category.id))];
+  const bestAddition = additions.reduce((best, s) =>
+    s.categoryGain > best.categoryGain ? s : best
+  );
+
+  const suggestions = [bestAddition];
+
+  const nearest = pois.reduce<POI | null>(
+    (n, poi) => (n === null || (poi.distance ?? Infinity) < (n.distance ?? Infinity) ? poi : n),
+    null
+  );
+  if (nearest && (nearest.distance ?? Infinity) > distance) {
+    suggestions.push(
+      evaluate(
+        "closer",
+        pois.map((poi) => (poi === nearest ? { ...poi, distance } : poi))
+      )
+    );
+  }
+
+  return suggestions.filter((s) => s.categoryGain > 0);
+}
+
+/**
+ * Routed distance for anchors inside the loaded region, the estimate otherwise
+ */
+function routeWhereReachable(pois: POI[], distanceTo: DistanceFn): POI[] {
+  return pois.map((poi) => {
+    const routed = distanceTo(poi.lat, poi.lng);
+    return Number.isFinite(routed) ? { ...poi, distance: routed } : poi;
+  });
+}
+
+/**
+ * Score a category from POIs that already carry their distance to the point.
+ * Shared by the live engine and the in-memory batch calculator.
+ *
+ * @param totalCount - POIs inside the radius when the provider returned only the nearest ones
+ */
+export function buildCategoryResult(
+  category: CategoryDefinition,
+  pois: POI[],
+  explain = false,
+  totalCount = pois.length
+): CategoryScoreResult {
+  const nearestDistance =
+    pois.length > 0
+      ? Math.min(...pois.map((p) => p.distance ?? Infinity))
+      : null;
+
+  const { score, breakdown } = calculateCategoryScore(category, pois, nearestDistance, totalCount);
+  const confidence = category.anchors ? null : meanConfidenceWeight(pois);
+
+  // Sort POIs by distance and limit to 20 closest
+  const sortedPois = [...pois]
+    .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity))
+    .slice(0, 20)
+    .map((poi) => ({
+      id: poi.id,
+      lat: poi.lat,
+      lng: poi.lng,
+      name: poi.name,
+      distance: Math.round(poi.distance ?? 0),
+      ...(poi.departuresPerHour !== undefined && {
+        departuresPerHour: Math.round(poi.departuresPerHour * 10) / 10,
+      }),
+    }));
+
+  return {
+    id: category.id,
+    score: Math.round(score),
+    count: totalCount,
+    radius: category.radius,
+    nearestDistance,
+    pois: sortedPois,
+    ...(confidence !== null && { confidence: Math.round(confidence * 100) / 100 }),
+    ...(explain && { breakdown }),
+  };
+}
+
+/**
+ * Category score (0-100) only, without building the POI list.
+ * Used for per-category heat layers.
+ */
+export function scoreCategory(
   category: CategoryDefinition,
   pois: POI[],
-  nearestDistance: number | null
+  totalCount = pois.length
 ): number {
-  const count = pois.length;
+  const nearestDistance =
+    pois.length > 0
+      ? Math.min(...pois.map((p) => p.distance ?? Infinity))
+      : null;
 
+  return Math.round(calculateCategoryScore(category, pois, nearestDistance, totalCount).score);
+}
+
+/** Overall score: weighted average of category scores with compression */
+export function calculateOverallScore(
+  categoryResults: CategoryScoreResult[],
+  scoringCategories: CategoryDefinition[] = categories
+): number {
+  const totalWeight = scoringCategories.reduce((sum, c) => sum + c.weight, 0);
+  // A custom profile can zero out every weight
+  if (totalWeight === 0) return 0;
+
+  const weightedSum = categoryResults.reduce((sum, result) => {
+    const category = scoringCategories.find((c) => c.id === result.id)!;
+    return sum + result.score * category.weight;
+  }, 0);
+
+  // Apply compression to overall score too - makes 90-100 harder to achieve
+  return compressScore(Math.round(weightedSum / totalWeight));
+}
+
+/** Category score with the components it was built from */
+interface CategoryScoreDetail {
+  score: number;
+  breakdown: ScoreBreakdown;
+}
+
+/**
+ * @param count - POIs inside the radius; can exceed pois.length when the
+ *   provider capped its result (sub-types are told apart from the returned POIs).
+ *   Counts are weighted by confidence; POIs past the cap by the mean of the returned ones
+ */
+function calculateCategoryScore(
+  category: CategoryDefinition,
+  pois: POI[],
+  nearestDistance: number | null,
+  count: number = pois.length
+): CategoryScoreDetail {
   // No POIs = 0 score
-  if (count === 0) return 0;
+  if (count === 0) {
+    return combineComponents("count", 0, 0, 0, 0, false);
+  }
+
+  // Commute: how close the user's anchors are, not how many there are
+  if (category.anchors) {
+    return calculateCommuteScore(category, pois);
+  }
+
+  const weightedCount = count * (meanConfidenceWeight(pois) ?? 1);
 
   // If category has sub-types, use diversity-aware scoring
   if (category.subTypes && category.subTypes.length > 0) {
-    return calculateSubTypeScore(category, pois, nearestDistance);
+    return calculateSubTypeScore(category, pois, nearestDistance, weightedCount);
+  }
+
+  // Transit stops with GTFS frequencies count by service, not by stop
+  if (category.frequencyUnit && pois.some((p) => p.departuresPerHour !== undefined)) {
+    return calculateFrequencyScore(category, pois);
   }
 
   // Standard scoring for categories without sub-types
   return calculateSimpleScore(
-    count,
+    weightedCount,
     category.maxCount,
     category.saturationK ?? 0.5,
-    nearestDistance,
-    category.radius,
+    proximityFactor(nearestDistance, category.radius),
     category.minCount
   );
 }
 
+/**
+ * Share of the full distance score (0-1): 1 at the point, 0 beyond
+ * min(400m, 40% of radius)
+ */
+function proximityFactor(distance: number | null, radius: number): number {
+  if (distance === null) return 0;
+  const closeThreshold = Math.min(400, radius * 0.4);
+  return Math.max(0, 1 - distance / closeThreshold);
+}
+
+/**
+ * Commute scoring: each anchor scores 100 up to COMMUTE_DISTANCES.ideal and falls
+ * linearly to 0 at the category radius; the category score is the mean over anchors.
+ */
+function calculateCommuteScore(category: CategoryDefinition, pois: POI[]): CategoryScoreDetail {
+  const anchors = pois.map((poi) => {
+    const distance = poi.distance ?? Infinity;
+    const share = (category.radius - distance) / (category.radius - COMMUTE_DISTANCES.ideal);
+    return {
+      kind: poi.category,
+      distance: Math.round(distance),
+      score: 100 * Math.min(1, Math.max(0, share)),
+    };
+  });
+  const score = anchors.reduce((sum, a) => sum + a.score, 0) / anchors.length;
+
+  return {
+    score,
+    breakdown: {
+      method: "commute",
+      effectiveCount: anchors.length,
+      countScore: 0,
+      distanceScore: 0,
+      bonus: 0,
+      minCountPenalty: false,
+      raw: roundTenth(score),
+      anchors: anchors.map((a) => ({ ...a, score: Math.round(a.score) })),
+    },
+  };
+}
+
+/**
+ * Frequency-weighted scoring: each stop counts as departuresPerHour / frequencyUnit
+ * POIs (a stop every 5 minutes = 2 with a unit of 6/h, twice a day ≈ 0.02), and
+ * the distance score goes to the best-served nearby stop rather than the nearest one.
+ * POIs without frequency data (fallback stations) count by confidence.
+ */
+function calculateFrequencyScore(category: CategoryDefinition, pois: POI[]): CategoryScoreDetail {
+  const unit = category.frequencyUnit!;
+  let effectiveCount = 0;
+  let proximity = 0;
+
+  for (const poi of pois) {
+    const weight =
+      poi.departuresPerHour !== undefined ? poi.departuresPerHour / unit : confidenceWeight(poi);
+    effectiveCount += weight;
+    proximity = Math.max(
+      proximity,
+      Math.min(1, weight) * proximityFactor(poi.distance ?? null, category.radius)
+    );
+  }
+
+  const detail = calculateSimpleScore(
+    effectiveCount,
+    category.maxCount,
+    category.saturationK ?? 0.5,
+    proximity,
+    category.minCount
+  );
+  return { ...detail, breakdown: { ...detail.breakdown, method: "frequency" } };
+}
+
 /** Calculate score for categories with sub-types (e.g., healthcare) */
 function calculateSubTypeScore(
   category: CategoryDefinition,
   pois: POI[],
-  nearestDistance: number | null
-): number {
+  nearestDistance: number | null,
+  count: number
+): CategoryScoreDetail {
   const subTypes = category.subTypes!;
 
   // Group POIs by sub-type
@@ -134,7 +464,7 @@ function calculateSubTypeScore(
 
   for (const subType of subTypes) {
     const subTypePois = poiBySubType.get(subType.id)!;
-    const subTypeCount = subTypePois.length;
+    const subTypeCount = subTypePois.reduce((sum, poi) => sum + confidenceWeight(poi), 0);
 
     if (subTypeCount === 0) continue;
 
@@ -160,39 +490,42 @@ function calculateSubTypeScore(
   // Distance score (0-25 points)
   let distanceScore = 0;
   if (nearestDistance !== null) {
-    const closeThreshold = Math.min(400, category.radius * 0.4);
-    distanceScore = 25 * Math.max(0, 1 - nearestDistance / closeThreshold);
-  }
-
-  // Penalty if minimum count not met
-  if (pois.length < category.minCount) {
-    return Math.round((countScore + distanceScore) * 0.4);
+    distanceScore = 25 * proximityFactor(nearestDistance, category.radius);
   }
 
-  const rawScore = countScore + distanceScore + diversityBonus;
-  return compressScore(rawScore);
+  const detail = combineComponents(
+    "subTypes",
+    count,
+    countScore,
+    distanceScore,
+    diversityBonus,
+    count < category.minCount
+  );
+  detail.breakdown.subTypes = subTypes
+    .map((st) => ({ id: st.id, count: poiBySubType.get(st.id)!.length }))
+    .filter((st) => st.count > 0);
+  return detail;
 }
 
-/** Standard scoring without sub-types */
+/**
+ * Standard scoring without sub-types
+ *
+ * @param proximity - Share of the distance score earned (see proximityFactor)
+ */
 function calculateSimpleScore(
   count: number,
   maxCount: number,
   saturationK: number,
-  nearestDistance: number | null,
-  radius: number,
+  proximity: number,
   minCount: number
-): number {
+): CategoryScoreDetail {
   // Logarithmic count score (0-60 points)
   const k = saturationK;
   const logMax = Math.log(1 + maxCount * k);
   const countScore = (60 * Math.log(1 + count * k)) / logMax;
 
   // Distance score (0-25 points)
-  let distanceScore = 0;
-  if (nearestDistance !== null) {
-    const closeThreshold = Math.min(400, radius * 0.4);
-    distanceScore = 25 * Math.max(0, 1 - nearestDistance / closeThreshold);
-  }
+  const distanceScore = 25 * proximity;
 
   // Density bonus (0-15 points)
   let densityBonus = 0;
@@ -202,13 +535,49 @@ function calculateSimpleScore(
       15 * Math.min(1, Math.log(1 + excess) / Math.log(1 + maxCount * 2));
   }
 
-  // Penalty if minimum count not met
-  if (count < minCount) {
-    return Math.round((countScore + distanceScore) * 0.4);
-  }
+  return combineComponents(
+    "count",
+    count,
+    countScore,
+    distanceScore,
+    densityBonus,
+    count < minCount
+  );
+}
+
+/**
+ * Final score from count, distance and bonus points: a ×0.4 penalty without
+ * the bonus when the minimum count isn't met, compression otherwise
+ */
+function combineComponents(
+  method: ScoreBreakdown["method"],
+  effectiveCount: number,
+  countScore: number,
+  distanceScore: number,
+  bonus: number,
+  minCountPenalty: boolean
+): CategoryScoreDetail {
+  const raw = minCountPenalty
+    ? countScore + distanceScore
+    : countScore + distanceScore + bonus;
+  const score = minCountPenalty ? Math.round(raw * 0.4) : compressScore(raw);
+
+  return {
+    score,
+    breakdown: {
+      method,
+      effectiveCount: roundTenth(effectiveCount),
+      countScore: roundTenth(countScore),
+      distanceScore: roundTenth(distanceScore),
+      bonus: roundTenth(bonus),
+      minCountPenalty,
+      raw: roundTenth(raw),
+    },
+  };
+}
 
-  const rawScore = countScore + distanceScore + densityBonus;
-  return compressScore(rawScore);
+function roundTenth(value: number): number {
+  return Math.round(value * 10) / 10;
 }
 
 /**
@@ -239,11 +608,12 @@ export async function calculateGroceryScore(
   const poiProvider = getPOIProvider();
   const groceryCategory = categories.find((c) => c.id === "groceries")!;
 
-  const pois = await poiProvider.queryPOIs({
+  const { pois, totalCount } = await poiProvider.queryPOIs({
     lat,
     lng,
     radius: groceryCategory.radius,
     tags: groceryCategory.overpassTags,
+    categoryId: groceryCategory.id,
   });
 
   const nearestDistance =
@@ -251,5 +621,5 @@ export async function calculateGroceryScore(
       ? Math.min(...pois.map((p) => p.distance ?? Infinity))
       : null;
 
-  return calculateCategoryScore(groceryCategory, pois, nearestDistance);
+  return calculateCategoryScore(groceryCategory, pois, nearestDistance, totalCount).score;
 }
@@ -0,0 +1,85 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  formatScoreTime,
+  isOpen,
+  parseOpeningHours,
+  parseScoreTime,
+  SCORE_TIME_PRESETS,
+  type ScoreTime,
+} from "./opening-hours";
+
+function openAt(value: string, time: string): boolean {
+  const hours = parseOpeningHours(value);
+  assert.ok(hours, value);
+  return isOpen(hours, parseScoreTime(time) as ScoreTime);
+}
+
+test("parses presets and day-time values", () => {
+  assert.deepEqual(parseScoreTime("sunday"), SCORE_TIME_PRESETS.sunday);
+  assert.deepEqual(parseScoreTime("late-night"), SCORE_TIME_PRESETS["late-night"]);
+  assert.deepEqual(parseScoreTime("sa-14:30"), { day: 5, minutes: 14 * 60 + 30 });
+  assert.equal(formatScoreTime({ day: 5, minutes: 14 * 60 + 30 }), "sa-14:30");
+});
+
+test("rejects prototype keys as presets", () => {
+  for (const value of ["toString", "constructor", "__proto__", "hasOwnProperty", "valueOf"]) {
+    assert.equal(parseScoreTime(value), null, value);
+  }
+});
+
+test("rejects malformed times", () => {
+  for (const value of ["", "sa", "sa-24:00", "sa-12:60", "xx-10:00", "sa-9:30"]) {
+    assert.equal(parseScoreTime(value), null, value);
+  }
+});
+
+test("parses day lists and time lists", () => {
+  assert.deepEqual(parseOpeningHours("Mo,We-Fr 08:00-12:00,13:00-18:00"), [
+    [[480, 720], [780, 1080]],
+    [],
+    [[480, 720], [780, 1080]],
+    [[480, 720], [780, 1080]],
+    [[480, 720], [780, 1080]],
+    [],
+    [],
+  ]);
+  assert.equal(openAt("Mo,We-Fr 08:00-12:00,13:00-18:00", "we-12:30"), false);
+  assert.equal(openAt("Mo,We-Fr 08:00-12:00,13:00-18:00", "th-13:00"), true);
+  assert.equal(openAt("Mo,We-Fr 08:00-12:00,13:00-18:00", "tu-10:00"), false);
+});
+
+test("keeps ranges past midnight open the next day", () => {
+  assert.equal(openAt("Fr 22:00-02:00", "fr-23:30"), true);
+  assert.equal(openAt("Fr 22:00-02:00", "sa-01:59"), true);
+  assert.equal(openAt("Fr 22:00-02:00", "sa-02:00"), false);
+  assert.equal(openAt("Fr 22:00-02:00", "fr-21:59"), false);
+});
+
+test("lets later rules replace earlier ones for their days", () => {
+  const value = "Mo-Sa 08:00-20:00; Sa 10:00-14:00";
+  assert.equal(openAt(value, "sa-09:00"), false);
+  assert.equal(openAt(value, "sa-12:00"), true);
+  assert.equal(openAt(value, "fr-09:00"), true);
+});
+
+test("handles off and 24/7", () => {
+  assert.equal(openAt("24/7", "su-03:00"), true);
+  assert.equal(openAt("24/7; Su off", "su-12:00"), false);
+  assert.equal(openAt("24/7; Su off", "sa-12:00"), true);
+  assert.equal(openAt("Mo-Fr 09:00-17:00; We closed", "we-10:00"), false);
+});
+
+test("applies public holiday rules to the weekdays listed with them", () => {
+  const value = "Mo-Sa 08:00-20:00; PH,Su off";
+  assert.equal(openAt(value, "sunday"), false);
+  assert.equal(openAt(value, "sa-10:00"), true);
+  assert.equal(openAt("Mo-Su 08:00-20:00; Su,PH off", "su-10:00"), false);
+  assert.equal(openAt("Mo-Su 08:00-20:00; PH off", "su-10:00"), true);
+});
+
+test("returns null for values it can't read", () => {
+  for (const value of ["", "sunrise-sunset", "Jan-Mar 10:00-12:00", "Mo-Fr 8-12", "Mo-Xx 10:00-12:00", "Mo 25:00-26:00"]) {
+    assert.equal(parseOpeningHours(value), null, value);
+  }
+});
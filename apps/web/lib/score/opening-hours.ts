@@ -0,0 +1,180 @@
+/**
+ * Opening hours for time-aware scoring.
+ *
+ * Parses the common subset of the OSM `opening_hours` syntax: weekday ranges,
+ * time ranges (also past midnight), "24/7" and "off". Public holidays are
+ * dropped from day selectors ("PH,Su off" applies to Sunday, "PH off" to no
+ * day); anything else (months, week numbers, sunrise/sunset) makes the whole
+ * value unknown.
+ */
+
+/** Point in the week to score at */
+export interface ScoreTime {
+  /** 0 = Monday ... 6 = Sunday */
+  day: number;
+  /** Minutes since midnight */
+  minutes: number;
+}
+
+/** Open ranges in minutes per weekday (Monday first); ends past 1440 spill into the next day */
+export type WeeklyHours = [number, number][][];
+
+const DAYS = ["mo", "tu", "we", "th", "fr", "sa", "su"];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const SCORE_TIME_PRESETS = {
+  sunday: { day: 6, minutes: 11 * 60 },
+  "late-night": { day: 2, minutes: 23 * 60 },
+} as const satisfies Record<string, ScoreTime>;
+
+export type ScoreTimePreset = keyof typeof SCORE_TIME_PRESETS;
+
+/**
+ * Parse "sunday" / "late-night" presets or "<day>-<HH:MM>", e.g. "sa-14:30".
+ * Returns null for anything else.
+ */
+export function parseScoreTime(value: string | null | undefined): ScoreTime | null {
+  if (!value) return null;
+
+  // Own keys only: `in` would also match "toString", "constructor", ...
+  if (Object.hasOwn(SCORE_TIME_PRESETS, value)) {
+    return SCORE_TIME_PRESETS[value as ScoreTimePreset];
+  }
+
+  const match = /^(mo|tu|we|th|fr|sa|su)-(\d{2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const hours = parseInt(match[2], 10);
+  const minutes = parseInt(match[3], 10);
+  if (hours > 23 || minutes > 59) return null;
+
+  return { day: DAYS.indexOf(match[1]), minutes: hours * 60 + minutes };
+}
+
+export function formatScoreTime(time: ScoreTime): string {
+  const hours = String(Math.floor(time.minutes / 60)).padStart(2, "0");
+  const minutes = String(time.minutes % 60).padStart(2, "0");
+  return `${DAYS[time.day]}-${hours}:${minutes}`;
+}
+
+function parseTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 24 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/** "Mo-Fr,Su" → day indexes; null when the selector isn't a weekday list */
+function parseDays(selector: string): number[] | null {
+  const days: number[] = [];
+
+  for (const part of selector.toLowerCase().split(",")) {
+    const [from, to] = part.split("-");
+    const start = DAYS.indexOf(from);
+    const end = to === undefined ? start : DAYS.indexOf(to);
+    if (start === -1 || end === -1) return null;
+
+    // Ranges can wrap around the week ("Fr-Mo")
+    for (let day = start; ; day = (day + 1) % 7) {
+      days.push(day);
+      if (day === end) break;
+    }
+  }
+
+  return days;
+}
+
+/** "08:00-12:00,13:00-18:00" → minute ranges; null on anything else */
+function parseTimes(selector: string): [number, number][] | null {
+  const ranges: [number, number][] = [];
+
+  for (const part of selector.split(",")) {
+    // An open end ("18:00+") counts until midnight
+    const [from, to] = part.endsWith("+") ? [part.slice(0, -1), "24:00"] : part.split("-");
+    const start = from !== undefined ? parseTime(from) : null;
+    const end = to !== undefined ? parseTime(to) : null;
+    if (start === null || end === null) return null;
+
+    // Ranges past midnight end the next day
+    ranges.push([start, end <= start ? end + MINUTES_PER_DAY : end]);
+  }
+
+  return ranges;
+}
+
+/**
+ * Parse an OSM opening_hours value. Later rules replace earlier ones for the
+ * days they mention, as in OSM. Returns null when the value can't be understood.
+ */
+export function parseOpeningHours(value: string): WeeklyHours | null {
+  const week: WeeklyHours = DAYS.map(() => []);
+
+  // ", " after a time also separates rules ("Mo-Fr 08:00-18:00, Sa 09:00-12:00")
+  const rules = value
+    .split(/;|\|\||(?<=\d)\s*,\s*(?=[A-Za-z])/)
+    .map((rule) => rule.trim())
+    .filter(Boolean);
+  if (rules.length === 0) return null;
+
+  for (const rule of rules) {
+    if (rule === "24/7") {
+      week.forEach((_, day) => (week[day] = [[0, MINUTES_PER_DAY]]));
+      continue;
+    }
+
+    const tokens = rule.split(/\s+/);
+    let days: number[] | null = [0, 1, 2, 3, 4, 5, 6];
+    if (/^(mo|tu|we|th|fr|sa|su|ph)\b/i.test(tokens[0])) {
+      // Public holidays can't be placed in a generic week; the rule still
+      // applies to the weekdays listed with them
+      const selector = tokens
+        .shift()!
+        .split(",")
+        .filter((part) => part.toLowerCase() !== "ph");
+      if (selector.length === 0) continue;
+      days = parseDays(selector.join(","));
+    }
+    if (!days) return null;
+
+    const rest = tokens.join("");
+    let ranges: [number, number][] | null;
+    if (rest === "") {
+      ranges = [[0, MINUTES_PER_DAY]];
+    } else if (rest === "off" || rest === "closed") {
+      ranges = [];
+    } else {
+      ranges = parseTimes(rest);
+    }
+    if (!ranges) return null;
+
+    for (const day of days) {
+      week[day] = ranges;
+    }
+  }
+
+  return week;
+}
+
+/** Whether the weekly hours include the given time (ranges past midnight count the next day) */
+export function isOpen(hours: WeeklyHours, time: ScoreTime): boolean {
+  const previous = (time.day + 6) % 7;
+  return (
+    hours[time.day].some(([start, end]) => time.minutes >= start && time.minutes < end) ||
+    hours[previous].some(([, end]) => time.minutes + MINUTES_PER_DAY < end)
+  );
+}
+
+/**
+ * Whether a POI counts at the given time. POIs without (or with unreadable)
+ * opening hours are assumed open: most POIs have none, and dropping them would
+ * score every area without the data as empty.
+ */
+export function isOpenAt(openingHours: string | undefined, time: ScoreTime): boolean {
+  if (!openingHours) return true;
+  const hours = parseOpeningHours(openingHours);
+  return hours ? isOpen(hours, time) : true;
+}
@@ -0,0 +1,155 @@
+import { categories } from "./categories";
+import type { CategoryDefinition } from "./types";
+
+/** Per-category override applied on top of the default category definition */
+export interface CategoryOverride {
+  weight?: number;
+  radius?: number;
+  maxCount?: number;
+}
+
+export type PresetProfileId = "family" | "commuter" | "retiree";
+export type ProfileId = PresetProfileId | "custom";
+
+export interface ScoringProfile {
+  id: ProfileId;
+  /** Keyed by category ID (groceries, transit, ...) */
+  overrides: Record<string, CategoryOverride>;
+}
+
+// Presets only list what differs from the defaults in categories.ts
+export const PRESET_PROFILES: Record<PresetProfileId, Record<string, CategoryOverride>> = {
+  // Schools, parks and doctors matter most; nightlife barely counts
+  family: {
+    education: { weight: 2.0 },
+    parks: { weight: 1.8 },
+    healthcare: { weight: 1.5 },
+    restaurants: { weight: 0.7 },
+    entertainment: { weight: 0.3 },
+  },
+  // Transit dominates; daily errands should be on the way
+  commuter: {
+    transit: { weight: 3.0, radius: 800 },
+    groceries: { weight: 1.5 },
+    restaurants: { weight: 1.2 },
+    education: { weight: 0.3 },
+    parks: { weight: 0.6 },
+  },
+  // Shorter walking distances, healthcare and groceries close by
+  retiree: {
+    healthcare: { weight: 2.5, radius: 1000 },
+    groceries: { weight: 2.0, radius: 500 },
+    parks: { weight: 1.5 },
+    transit: { weight: 1.5 },
+    education: { weight: 0.2 },
+    entertainment: { weight: 0.4 },
+  },
+};
+
+export const PROFILE_IDS: ProfileId[] = ["family", "commuter", "retiree", "custom"];
+
+// Allowed ranges for user-provided values
+export const PROFILE_LIMITS = {
+  weight: { min: 0, max: 5 },
+  radius: { min: 100, max: 3000 },
+  maxCount: { min: 1, max: 100 },
+} as const;
+
+const FIELD_CODES: Record<string, keyof CategoryOverride> = {
+  w: "weight",
+  r: "radius",
+  m: "maxCount",
+};
+
+function clamp(value: number, limits: { min: number; max: number }): number {
+  return Math.min(limits.max, Math.max(limits.min, value));
+}
+
+/**
+ * Apply a profile to the default categories.
+ * Returns the defaults unchanged when no profile is given.
+ */
+export function resolveCategories(profile?: ScoringProfile | null): CategoryDefinition[] {
+  if (!profile) return categories;
+
+  return categories.map((category) => {
+    const override = profile.overrides[category.id];
+    if (!override) return category;
+    return {
+      ...category,
+      weight: override.weight ?? category.weight,
+      radius: override.radius ?? category.radius,
+      maxCount: override.maxCount ?? category.maxCount,
+    };
+  });
+}
+
+/**
+ * Get a named profile. "custom" starts with no overrides.
+ */
+export function getProfile(id: ProfileId): ScoringProfile {
+  if (id === "custom") return { id, overrides: {} };
+  return { id, overrides: PRESET_PROFILES[id] };
+}
+
+/**
+ * Encode a profile for URLs and query parameters.
+ *
+ * Presets are encoded by name ("family"). Custom profiles list their overrides:
+ * "custom~groceries_w2_r800~transit_w1.5" (w = weight, r = radius, m = maxCount).
+ */
+export function encodeProfile(profile: ScoringProfile): string {
+  if (profile.id !== "custom") return profile.id;
+
+  const parts = Object.entries(profile.overrides)
+    .map(([categoryId, override]) => {
+      const fields = Object.entries(FIELD_CODES)
+        .filter(([, field]) => override[field] !== undefined)
+        .map(([code, field]) => `${code}${override[field]}`);
+      return fields.length > 0 ? `${categoryId}_${fields.join("_")}` : null;
+    })
+    .filter((part): part is string => part !== null);
+
+  return ["custom", ...parts].join("~");
+}
+
+/**
+ * Parse a profile from a URL/query value.
+ * Returns null for unknown profiles, unknown categories or malformed values.
+ * Values outside PROFILE_LIMITS are clamped.
+ */
+export function parseProfile(value: string | null | undefined): ScoringProfile | null {
+  if (!value) return null;
+
+  const [id, ...parts] = value.split("~");
+
+  if (id === "family" || id === "commuter" || id === "retiree") {
+    return parts.length === 0 ? getProfile(id) : null;
+  }
+
+  if (id !== "custom") return null;
+
+  const overrides: Record<string, CategoryOverride> = {};
+
+  for (const part of parts) {
+    const [categoryId, ...fields] = part.split("_");
+    if (!categories.some((c) => c.id === categoryId) || fields.length === 0) {
+      return null;
+    }
+
+    const override: CategoryOverride = {};
+    for (const field of fields) {
+      const key = FIELD_CODES[field[0]];
+      // Number() rejects trailing junk ("w2abc") that parseFloat would accept
+      const raw = field.slice(1);
+      const num = Number(raw);
+      if (!key || raw === "" || !Number.isFinite(num)) return null;
+      override[key] = key === "weight"
+        ? clamp(num, PROFILE_LIMITS[key])
+        : Math.round(clamp(num, PROFILE_LIMITS[key]));
+    }
+    overrides[categoryId] = override;
+  }
+
+  return { id: "custom", overrides };
+}
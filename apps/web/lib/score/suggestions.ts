@@ -0,0 +1,18 @@
+import type { ScoreResult, ScoreSuggestion } from "./types";
+
+export interface RankedSuggestion extends ScoreSuggestion {
+  categoryId: string;
+}
+
+/**
+ * Suggestions of all categories, biggest overall gain first
+ * (ties broken by category gain)
+ */
+export function topSuggestions(score: ScoreResult, limit = 3): RankedSuggestion[] {
+  return score.categories
+    .flatMap((category) =>
+      (category.suggestions ?? []).map((s) => ({ ...s, categoryId: category.id }))
+    )
+    .sort((a, b) => b.overallGain - a.overallGain || b.categoryGain - a.categoryGain)
+    .slice(0, limit);
+}
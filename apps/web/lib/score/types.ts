@@ -1,9 +1,13 @@
+import type { Catchment } from "@/lib/distance/types";
+
 export interface POIResult {
   id: string;
   lat: number;
   lng: number;
   name: string | null;
   distance: number;
+  /** Scheduled departures per hour (GTFS transit stops only) */
+  departuresPerHour?: number;
 }
 
 export interface CategoryScoreResult {
@@ -13,6 +17,48 @@ export interface CategoryScoreResult {
   radius: number;
   nearestDistance: number | null;
   pois: POIResult[];
+  /** Mean confidence weight of the counted POIs (0-1); absent without POIs and for commute */
+  confidence?: number;
+  /** How the score was computed, only when requested with `explain` */
+  breakdown?: ScoreBreakdown;
+  /** Changes that would raise the score, only when requested with `suggest` */
+  suggestions?: ScoreSuggestion[];
+}
+
+/** Hypothetical change to the POIs around a point and what it would add */
+export interface ScoreSuggestion {
+  /** "add": one more POI at `distance`; "closer": the nearest POI at `distance` instead */
+  kind: "add" | "closer";
+  /** Sub-type of the added POI (sub-type categories only) */
+  subType?: string;
+  /** Distance in meters of the added or moved POI */
+  distance: number;
+  /** Category score gain */
+  categoryGain: number;
+  /** Overall score gain */
+  overallGain: number;
+}
+
+/** Components of a category score, before rounding */
+export interface ScoreBreakdown {
+  /** Scoring path: POI count, sub-type diversity, GTFS frequency or commute anchors */
+  method: "count" | "subTypes" | "frequency" | "commute";
+  /** POIs counted, weighted by confidence; by departures for frequency scoring */
+  effectiveCount: number;
+  /** Logarithmic count score (0-60) */
+  countScore: number;
+  /** Proximity of the nearest POI (0-25) */
+  distanceScore: number;
+  /** Density bonus above maxCount, or diversity bonus for several sub-types (0-15) */
+  bonus: number;
+  /** Fewer POIs than minCount: (count + distance) × 0.4, no bonus, no compression */
+  minCountPenalty: boolean;
+  /** Sum of the components before the penalty and compression */
+  raw: number;
+  /** POIs per sub-type (sub-type categories only) */
+  subTypes?: { id: string; count: number }[];
+  /** Distance and score per anchor (commute only) */
+  anchors?: { kind: string; distance: number; score: number }[];
 }
 
 export interface ScoreResult {
@@ -21,6 +67,32 @@ export interface ScoreResult {
   overall: number;
   categories: CategoryScoreResult[];
   computedAt: string;
+  /** Encoded scoring profile, absent for the default weights */
+  profile?: string;
+  /** Isochrone used instead of category radii (isochrone mode only) */
+  catchment?: Catchment;
+  /** Encoded commute anchors, present when the commute category was scored */
+  commute?: string;
+  /** Time the score was computed for ("sa-14:30"), counting only POIs open then */
+  at?: string;
+  /** How far the counted POIs can be trusted; absent when no category has POIs */
+  dataQuality?: DataQuality;
+}
+
+export interface DataQuality {
+  /** Mean confidence weight of the counted POIs (0-1, 1 = every POI counts fully) */
+  confidence: number;
+  /** Below DATA_QUALITY_LOW_CONFIDENCE: some counted places may be closed or wrong */
+  low: boolean;
+}
+
+export type AnchorKind = "work" | "school" | "gym" | "other";
+
+/** Destination the user travels to regularly (commute category) */
+export interface CommuteAnchor {
+  kind: AnchorKind;
+  lat: number;
+  lng: number;
 }
 
 /** Sub-type within a category for diversity-aware scoring */
@@ -44,4 +116,10 @@ export interface CategoryDefinition {
   /** Sub-types for diversity-aware scoring. When present, score is calculated per sub-type
    * with a diversity bonus for having multiple types (e.g., pharmacy + clinic > just pharmacies) */
   subTypes?: SubType[];
+  /** Departures per hour that count as one POI when POIs carry GTFS frequencies.
+   * Stops are then weighted by service instead of counted (transit only) */
+  frequencyUnit?: number;
+  /** Scored by distance to these destinations instead of by nearby POIs (commute only).
+   * radius is then the distance at which an anchor stops adding to the score */
+  anchors?: CommuteAnchor[];
 }
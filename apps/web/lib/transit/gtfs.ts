@@ -0,0 +1,156 @@
+import { createReadStream, existsSync } from "fs";
+import { createInterface } from "readline";
+import { join } from "path";
+
+// Frequencies are averaged over the daytime service window
+export const SERVICE_WINDOW_START = 6 * 3600; // 06:00
+export const SERVICE_WINDOW_END = 22 * 3600; // 22:00
+export const SERVICE_WINDOW_HOURS = (SERVICE_WINDOW_END - SERVICE_WINDOW_START) / 3600;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+export type GtfsRow = Record<string, string>;
+
+/**
+ * Split one CSV line, honouring quoted fields ("a, b" and "" escapes).
+ * GTFS does not allow line breaks inside fields, so lines can be parsed one by one.
+ */
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Stream a GTFS table (e.g. "stop_times.txt") row by row.
+ * Missing optional files are treated as empty.
+ *
+ * @returns Number of rows read
+ */
+export async function readGtfsTable(
+  dir: string,
+  file: string,
+  onRow: (row: GtfsRow) => void | Promise<void>
+): Promise<number> {
+  const path = join(dir, file);
+  if (!existsSync(path)) return 0;
+
+  const lines = createInterface({ input: createReadStream(path, "utf-8"), crlfDelay: Infinity });
+  let header: string[] | null = null;
+  let count = 0;
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    const fields = parseCsvLine(line);
+
+    if (!header) {
+      // Strip the UTF-8 BOM many exporters add
+      header = fields.map((f) => f.replace(/^\uFEFF/, "").trim());
+      continue;
+    }
+
+    const row: GtfsRow = {};
+    header.forEach((name, i) => {
+      row[name] = (fields[i] ?? "").trim();
+    });
+    await onRow(row);
+    count++;
+  }
+
+  return count;
+}
+
+/**
+ * Parse a GTFS time ("08:05:00", "25:10:00" for after midnight) to seconds
+ */
+export function parseGtfsTime(value: string): number | null {
+  const match = value.match(/^(\d{1,2}):(\d{2}):(\d{2})$/);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+/**
+ * OSM-style transit tag for a GTFS route_type, so stops match the
+ * transit category's tags (basic and extended route types)
+ */
+export function routeTypeToTag(routeType: number | null): string {
+  if (routeType === null) return "public_transport=platform";
+  if (routeType === 0 || (routeType >= 900 && routeType < 1000)) return "railway=tram_stop";
+  if (routeType === 1 || routeType === 2 || (routeType >= 100 && routeType < 500)) {
+    return "railway=station";
+  }
+  if (routeType === 3 || (routeType >= 700 && routeType < 800)) return "highway=bus_stop";
+  return "public_transport=platform";
+}
+
+/**
+ * Pick the service_ids that run on the day frequencies are measured for.
+ *
+ * - With a date: calendar.txt weekday + date range, adjusted by calendar_dates.txt
+ * - Without: services running on Wednesdays in calendar.txt, or the busiest
+ *   date of calendar_dates.txt for feeds that only list dates
+ */
+export function selectServiceIds(
+  calendar: GtfsRow[],
+  calendarDates: GtfsRow[],
+  date?: string
+): { serviceIds: Set<string>; serviceDate: string | null } {
+  if (!date && calendar.length > 0) {
+    return {
+      serviceIds: new Set(calendar.filter((c) => c.wednesday === "1").map((c) => c.service_id)),
+      serviceDate: null,
+    };
+  }
+
+  if (!date) {
+    const servicesByDate = new Map<string, number>();
+    for (const row of calendarDates) {
+      if (row.exception_type === "1") {
+        servicesByDate.set(row.date, (servicesByDate.get(row.date) ?? 0) + 1);
+      }
+    }
+    date = [...servicesByDate.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+    if (!date) return { serviceIds: new Set(), serviceDate: null };
+  }
+
+  const weekday = WEEKDAYS[
+    new Date(`${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}T12:00:00Z`).getUTCDay()
+  ];
+  const serviceIds = new Set(
+    calendar
+      .filter((c) => c[weekday] === "1" && c.start_date <= date! && c.end_date >= date!)
+      .map((c) => c.service_id)
+  );
+
+  for (const row of calendarDates) {
+    if (row.date !== date) continue;
+    if (row.exception_type === "1") serviceIds.add(row.service_id);
+    if (row.exception_type === "2") serviceIds.delete(row.service_id);
+  }
+
+  return { serviceIds, serviceDate: date };
+}
@@ -0,0 +1,87 @@
+import { and, eq } from "drizzle-orm";
+import { getDb } from "@/lib/db/client";
+import {
+  gtfsFeeds,
+  gtfsStops,
+  gtfsRoutes,
+  gtfsStopTimes,
+  type NewGtfsFeed,
+  type NewGtfsStop,
+  type NewGtfsRoute,
+  type NewGtfsStopTime,
+} from "@/lib/db/schema";
+
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * Create the feed row, not yet completed: readers keep using the previous
+ * import with the same name until completeFeed(). Leftovers of failed imports
+ * of the name are dropped (stops, routes and stop times cascade).
+ *
+ * @returns New feed ID
+ */
+export async function createFeed(feed: NewGtfsFeed): Promise<number> {
+  const db = getDb();
+  await db
+    .delete(gtfsFeeds)
+    .where(and(eq(gtfsFeeds.name, feed.name), eq(gtfsFeeds.completed, false)));
+  const [row] = await db
+    .insert(gtfsFeeds)
+    .values({ ...feed, completed: false })
+    .returning({ id: gtfsFeeds.id });
+  return row.id;
+}
+
+/**
+ * Replace the previous import with the same name by the new feed, in one
+ * transaction once all of its rows are saved
+ */
+export async function completeFeed(feedId: number, name: string): Promise<void> {
+  await getDb().transaction(async (tx) => {
+    await tx
+      .delete(gtfsFeeds)
+      .where(and(eq(gtfsFeeds.name, name), eq(gtfsFeeds.completed, true)));
+    await tx.update(gtfsFeeds).set({ completed: true }).where(eq(gtfsFeeds.id, feedId));
+  });
+}
+
+async function insertInBatches<T>(
+  rows: T[],
+  insert: (batch: T[]) => Promise<unknown>
+): Promise<number> {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+  }
+  return rows.length;
+}
+
+export async function saveRoutes(routes: NewGtfsRoute[]): Promise<number> {
+  const db = getDb();
+  return insertInBatches(routes, (batch) => db.insert(gtfsRoutes).values(batch));
+}
+
+export async function saveStops(stops: NewGtfsStop[]): Promise<number> {
+  const db = getDb();
+  return insertInBatches(stops, (batch) => db.insert(gtfsStops).values(batch));
+}
+
+/**
+ * Buffers stop times while streaming stop_times.txt and writes them in batches
+ */
+export class StopTimeWriter {
+  private buffer: NewGtfsStopTime[] = [];
+  saved = 0;
+
+  async add(row: NewGtfsStopTime): Promise<void> {
+    this.buffer.push(row);
+    if (this.buffer.length >= INSERT_BATCH_SIZE) await this.flush();
+  }
+
+  async flush(): Promise<void> {
+    if (this.buffer.length === 0) return;
+    const batch = this.buffer;
+    this.buffer = [];
+    await getDb().insert(gtfsStopTimes).values(batch);
+    this.saved += batch.length;
+  }
+}
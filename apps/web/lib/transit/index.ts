@@ -0,0 +1,115 @@
+import { getDb } from "@/lib/db/client";
+import { gtfsFeeds, gtfsStops, type GtfsFeed, type GtfsStop } from "@/lib/db/schema";
+import { and, eq, gt, gte, inArray, lte, sql } from "drizzle-orm";
+import { boundsAround, haversineDistance, type Bounds } from "@/lib/distance";
+import { distanceFrom } from "@/lib/db/distance";
+import type { POI } from "@/lib/providers/poi/types";
+import { routeTypeToTag } from "./gtfs";
+
+export { routeTypeToTag } from "./gtfs";
+
+// Cap per query - dense city centres can have hundreds of stops within a kilometre
+export const MAX_GTFS_STOPS = 300;
+
+// Stops of feeds still being imported are skipped
+const completedFeedStop = () =>
+  inArray(
+    gtfsStops.feedId,
+    getDb().select({ id: gtfsFeeds.id }).from(gtfsFeeds).where(eq(gtfsFeeds.completed, true))
+  );
+
+/**
+ * Completed feeds whose stop bounding box overlaps the given bounds
+ */
+export async function loadFeeds(bounds: Bounds): Promise<GtfsFeed[]> {
+  return getDb()
+    .select()
+    .from(gtfsFeeds)
+    .where(
+      and(
+        eq(gtfsFeeds.completed, true),
+        lte(gtfsFeeds.minLat, bounds.maxLat),
+        gte(gtfsFeeds.maxLat, bounds.minLat),
+        lte(gtfsFeeds.minLng, bounds.maxLng),
+        gte(gtfsFeeds.maxLng, bounds.minLng)
+      )
+    );
+}
+
+/**
+ * Whether a point lies inside an imported feed's area. Outside feeds the
+ * transit category keeps using Overture stations.
+ */
+export function isCoveredByFeeds(lat: number, lng: number, feeds: GtfsFeed[]): boolean {
+  return feeds.some(
+    (f) => lat >= f.minLat && lat <= f.maxLat && lng >= f.minLng && lng <= f.maxLng
+  );
+}
+
+/**
+ * Stops of completed feeds with scheduled service (departuresPerHour > 0) within bounds
+ */
+export async function loadServedStops(bounds: Bounds): Promise<GtfsStop[]> {
+  return getDb()
+    .select()
+    .from(gtfsStops)
+    .where(
+      and(
+        gte(gtfsStops.lat, bounds.minLat),
+        lte(gtfsStops.lat, bounds.maxLat),
+        gte(gtfsStops.lng, bounds.minLng),
+        lte(gtfsStops.lng, bounds.maxLng),
+        gt(gtfsStops.departuresPerHour, 0),
+        completedFeedStop()
+      )
+    );
+}
+
+/**
+ * Served stops within the radius of a point, closest first and capped at
+ * `limit`. The window count runs before the limit, so totalCount counts them all.
+ */
+export async function loadNearestServedStops(
+  lat: number,
+  lng: number,
+  radius: number,
+  limit: number
+): Promise<{ stops: GtfsStop[]; totalCount: number }> {
+  const bounds = boundsAround(lat, lng, radius);
+  const distance = distanceFrom(gtfsStops.lat, gtfsStops.lng, lat, lng);
+
+  const rows = await getDb()
+    .select({
+      stop: gtfsStops,
+      totalCount: sql<number>`count(*) over ()`.mapWith(Number),
+    })
+    .from(gtfsStops)
+    .where(
+      and(
+        gte(gtfsStops.lat, bounds.minLat),
+        lte(gtfsStops.lat, bounds.maxLat),
+        gte(gtfsStops.lng, bounds.minLng),
+        lte(gtfsStops.lng, bounds.maxLng),
+        lte(distance, radius),
+        gt(gtfsStops.departuresPerHour, 0),
+        completedFeedStop()
+      )
+    )
+    .orderBy(distance)
+    .limit(limit);
+
+  return { stops: rows.map((row) => row.stop), totalCount: rows[0]?.totalCount ?? 0 };
+}
+
+export function stopToPOI(stop: GtfsStop, lat: number, lng: number): POI {
+  return {
+    id: stop.id,
+    lat: stop.lat,
+    lng: stop.lng,
+    name: stop.name,
+    category: routeTypeToTag(stop.routeType),
+    tags: {},
+    distance: haversineDistance(lat, lng, stop.lat, stop.lng),
+    departuresPerHour: stop.departuresPerHour,
+  };
+}
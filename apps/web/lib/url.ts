@@ -2,15 +2,37 @@
  * URL utilities for location sharing and browser history support
  */
 
+/**
+ * Score settings carried in location URLs as query parameters
+ */
+export interface LocationUrlParams {
+  /** Encoded scoring profile (see lib/score/profiles.ts) */
+  profile?: string | null;
+  /** Isochrone such as "walk:15" (see lib/distance/isochrone.ts) */
+  isochrone?: string | null;
+  /** Encoded commute anchors (see lib/score/commute.ts) */
+  commute?: string | null;
+}
+
+function withQuery(path: string, params: LocationUrlParams): string {
+  const query = new URLSearchParams();
+  if (params.profile) query.set("profile", params.profile);
+  if (params.isochrone) query.set("isochrone", params.isochrone);
+  if (params.commute) query.set("commute", params.commute);
+  const queryString = query.toString();
+  return queryString ? `${path}?${queryString}` : path;
+}
+
 /**
  * Format a location URL path for sharing
  */
 export function formatLocationUrl(
   locale: string,
   lat: number,
-  lng: number
+  lng: number,
+  params: LocationUrlParams = {}
 ): string {
-  return `/${locale}/p/${lat.toFixed(6)},${lng.toFixed(6)}`;
+  return withQuery(`/${locale}/p/${lat.toFixed(6)},${lng.toFixed(6)}`, params);
 }
 
 /**
@@ -39,10 +61,59 @@ export function parseLocationFromPath(
 export function getShareableUrl(
   locale: string,
   lat: number,
-  lng: number
+  lng: number,
+  params: LocationUrlParams = {}
+): string {
+  if (typeof window === "undefined") {
+    return formatLocationUrl(locale, lat, lng, params);
+  }
+  return `${window.location.origin}${formatLocationUrl(locale, lat, lng, params)}`;
+}
+
+/** Number of locations a comparison can hold */
+export const COMPARE_LOCATIONS = { min: 2, max: 4 } as const;
+
+/**
+ * Format a comparison URL path, e.g. /en/compare/52.520000,13.405000;52.500000,13.420000
+ */
+export function formatCompareUrl(
+  locale: string,
+  locations: { lat: number; lng: number }[],
+  params: LocationUrlParams = {}
+): string {
+  const coords = locations.map((l) => `${l.lat.toFixed(6)},${l.lng.toFixed(6)}`).join(";");
+  return withQuery(`/${locale}/compare/${coords}`, params);
+}
+
+/**
+ * Parse "lat,lng;lat,lng" from a comparison URL path segment
+ * Returns null unless it holds 2-4 valid locations
+ */
+export function parseCompareFromPath(
+  pathSegment: string
+): { lat: number; lng: number }[] | null {
+  const parts = decodeURIComponent(pathSegment).split(";");
+  if (parts.length < COMPARE_LOCATIONS.min || parts.length > COMPARE_LOCATIONS.max) return null;
+
+  const locations: { lat: number; lng: number }[] = [];
+  for (const part of parts) {
+    const location = parseLocationFromPath(part);
+    if (!location) return null;
+    locations.push(location);
+  }
+  return locations;
+}
+
+/**
+ * Get the full shareable URL for a comparison
+ */
+export function getShareableCompareUrl(
+  locale: string,
+  locations: { lat: number; lng: number }[],
+  params: LocationUrlParams = {}
 ): string {
   if (typeof window === "undefined") {
-    return formatLocationUrl(locale, lat, lng);
+    return formatCompareUrl(locale, locations, params);
   }
-  return `${window.location.origin}${formatLocationUrl(locale, lat, lng)}`;
+  return `${window.location.origin}${formatCompareUrl(locale, locations, params)}`;
 }
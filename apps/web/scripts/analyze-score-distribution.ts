@@ -7,7 +7,7 @@ console.log(`Using env file: ${envFile}`);
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 import { heatCells } from "../lib/db/schema";
-import { and, gte, lte, sql } from "drizzle-orm";
+import { and, eq, gte, lte, sql } from "drizzle-orm";
 
 const client = postgres(process.env.DATABASE_URL!);
 const db = drizzle(client);
@@ -73,6 +73,7 @@ async function analyzeScoreDistribution(): Promise<void> {
         lte(heatCells.lat, CANCUN_BOUNDS.maxLat),
         gte(heatCells.lng, CANCUN_BOUNDS.minLng),
         lte(heatCells.lng, CANCUN_BOUNDS.maxLng),
+        eq(heatCells.layer, "overall"),
         gte(heatCells.score, 30) // Only visible cells
       )
     );
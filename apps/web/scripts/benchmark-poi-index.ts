@@ -0,0 +1,178 @@
+import { config } from "dotenv";
+// Use production database if --prod flag is passed
+const envFile = process.argv.includes("--prod") ? ".env.production.local" : ".env.local";
+config({ path: envFile });
+console.log(`Using env file: ${envFile}`);
+
+/**
+ * Benchmark POI lookups: the old lat/lng range predicates against the geohash
+ * ranges used by LocalDBProvider (lib/db/geohash.ts).
+ *
+ * Runs EXPLAIN ANALYZE for both queries at random points inside the bounds,
+ * one category per point like a /api/score request, and checks that both
+ * return the same rows.
+ *
+ * Usage:
+ *   tsx scripts/benchmark-poi-index.ts
+ *   tsx scripts/benchmark-poi-index.ts --bbox=13.0,52.3,13.8,52.7 --samples=200 --radius=2000
+ *   tsx scripts/benchmark-poi-index.ts --prod
+ */
+
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { and, gte, lte, inArray } from "drizzle-orm";
+import { overturePois } from "../lib/db/schema";
+import { poiWithinBounds, radiusBounds } from "../lib/db/geohash";
+import { categories } from "../lib/score/categories";
+import { categoryIdsToOvertureCategories } from "../lib/providers/poi/category-map";
+import type { Bounds } from "../lib/distance/types";
+
+const client = postgres(process.env.DATABASE_URL!);
+const db = drizzle(client);
+
+// Cancun full bounds (from bounds.ts)
+const CANCUN_BOUNDS: Bounds = { minLat: 20.8, maxLat: 21.4, minLng: -87.2, maxLng: -86.5 };
+
+interface QueryTiming {
+  ms: number;
+  rows: number;
+}
+
+function parseArgs(): { bounds: Bounds; samples: number; radius: number } {
+  const args = process.argv.slice(2);
+  const value = (flag: string) =>
+    args.find((a) => a.startsWith(`--${flag}=`))?.replace(`--${flag}=`, "") ?? null;
+
+  let bounds = CANCUN_BOUNDS;
+  const bbox = value("bbox");
+  if (bbox) {
+    const [minLng, minLat, maxLng, maxLat] = bbox.split(",").map(Number);
+    if ([minLng, minLat, maxLng, maxLat].some(isNaN)) {
+      throw new Error("--bbox must be minLng,minLat,maxLng,maxLat");
+    }
+    bounds = { minLat, maxLat, minLng, maxLng };
+  }
+
+  return {
+    bounds,
+    samples: parseInt(value("samples") ?? "50", 10),
+    radius: parseInt(value("radius") ?? "1000", 10),
+  };
+}
+
+function calculatePercentile(sorted: number[], p: number): number {
+  const index = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.max(0, index)];
+}
+
+/** Execution time and row count of a query from EXPLAIN ANALYZE */
+async function explain(query: { sql: string; params: unknown[] }): Promise<{ timing: QueryTiming; plan: string }> {
+  const [row] = await client.unsafe(
+    `EXPLAIN (ANALYZE, FORMAT JSON) ${query.sql}`,
+    query.params as postgres.ParameterOrJSON<never>[]
+  );
+  const [result] = row["QUERY PLAN"] as {
+    "Execution Time": number;
+    Plan: { "Actual Rows": number; "Node Type": string; "Index Name"?: string; Plans?: unknown[] };
+  }[];
+
+  // Outermost scan node, e.g. "Bitmap Heap Scan" over "overture_pois_category_geohash_idx"
+  let node = result.Plan as Record<string, unknown>;
+  while (!node["Index Name"] && Array.isArray(node.Plans) && node.Plans.length > 0) {
+    node = node.Plans[0] as Record<string, unknown>;
+  }
+
+  return {
+    timing: { ms: result["Execution Time"], rows: result.Plan["Actual Rows"] },
+    plan: `${node["Node Type"]}${node["Index Name"] ? ` using ${node["Index Name"]}` : ""}`,
+  };
+}
+
+function summarize(label: string, timings: QueryTiming[]): void {
+  const times = timings.map((t) => t.ms).sort((a, b) => a - b);
+  const mean = times.reduce((a, b) => a + b, 0) / times.length;
+  console.log(
+    `${label.padEnd(10)} mean ${mean.toFixed(2)}ms | p50 ${calculatePercentile(times, 50).toFixed(2)}ms | p95 ${calculatePercentile(times, 95).toFixed(2)}ms | max ${times[times.length - 1].toFixed(2)}ms`
+  );
+}
+
+async function benchmarkPoiIndex(): Promise<void> {
+  const { bounds, samples, radius } = parseArgs();
+
+  console.log("=== POI SPATIAL INDEX BENCHMARK ===\n");
+  console.log(`Bounds: lat ${bounds.minLat}-${bounds.maxLat}, lng ${bounds.minLng}-${bounds.maxLng}`);
+  console.log(`Samples: ${samples} | Radius: ${radius}m\n`);
+
+  const legacy: QueryTiming[] = [];
+  const geohash: QueryTiming[] = [];
+  const plans = { legacy: "", geohash: "" };
+  let mismatches = 0;
+
+  for (let i = 0; i < samples; i++) {
+    const lat = bounds.minLat + Math.random() * (bounds.maxLat - bounds.minLat);
+    const lng = bounds.minLng + Math.random() * (bounds.maxLng - bounds.minLng);
+    const category = categories[i % categories.length];
+    const overtureCategories = categoryIdsToOvertureCategories([category.id]);
+    if (overtureCategories.length === 0) continue;
+
+    const box = radiusBounds(lat, lng, radius);
+
+    // Same limit as LocalDBProvider
+    const legacyQuery = db
+      .select({ id: overturePois.id })
+      .from(overturePois)
+      .where(
+        and(
+          gte(overturePois.lat, box.minLat),
+          lte(overturePois.lat, box.maxLat),
+          gte(overturePois.lng, box.minLng),
+          lte(overturePois.lng, box.maxLng),
+          inArray(overturePois.category, overtureCategories)
+        )
+      )
+      .limit(100)
+      .toSQL();
+    const geohashQuery = db
+      .select({ id: overturePois.id })
+      .from(overturePois)
+      .where(and(inArray(overturePois.category, overtureCategories), poiWithinBounds(box)))
+      .limit(100)
+      .toSQL();
+
+    const before = await explain(legacyQuery);
+    const after = await explain(geohashQuery);
+    legacy.push(before.timing);
+    geohash.push(after.timing);
+    plans.legacy ||= before.plan;
+    plans.geohash ||= after.plan;
+
+    if (before.timing.rows !== after.timing.rows) {
+      mismatches++;
+      console.log(
+        `  Row count differs at ${lat.toFixed(5)},${lng.toFixed(5)} (${category.id}): ${before.timing.rows} vs ${after.timing.rows}`
+      );
+    }
+  }
+
+  if (legacy.length === 0) {
+    console.log("No categories map to Overture categories, nothing to benchmark.");
+    await client.end();
+    return;
+  }
+
+  console.log("--- Execution time ---");
+  summarize("lat/lng", legacy);
+  summarize("geohash", geohash);
+
+  console.log("\n--- Plans (first sample) ---");
+  console.log(`lat/lng: ${plans.legacy}`);
+  console.log(`geohash: ${plans.geohash}`);
+
+  const rows = geohash.reduce((sum, t) => sum + t.rows, 0);
+  console.log(`\nRows per query: ${(rows / geohash.length).toFixed(1)} on average`);
+  console.log(mismatches === 0 ? "✓ Both queries returned the same row counts" : `⚠️  ${mismatches} samples differ`);
+
+  await client.end();
+}
+
+benchmarkPoiIndex().catch(console.error);
@@ -0,0 +1,114 @@
+#!/usr/bin/env tsx
+/**
+ * Build the coarser heatmap pyramid levels from existing base grid cells
+ *
+ * Heatmap jobs keep the pyramid (0.01° and 0.04° cells averaged from the
+ * 0.0025° grid) up to date while they run. This script backfills it for cells
+ * computed before the pyramid existed, or after deleting coarse levels.
+ *
+ * Usage:
+ *   pnpm heatmap:pyramid                                   # Every area with heat cells
+ *   pnpm heatmap:pyramid --city=cancun
+ *   pnpm heatmap:pyramid --bbox=-87.2,20.8,-86.5,21.4     # minLng,minLat,maxLng,maxLat
+ *
+ * Notes:
+ *   - All layers are rebuilt; existing coarse cells are overwritten
+ *   - Without arguments, the extent of all base cells is processed
+ *   - Processed in 1° latitude bands to keep queries small
+ *
+ * Environment variables:
+ *   DATABASE_URL - Required
+ */
+
+// Load .env.local for local development
+import { config } from "dotenv";
+config({ path: ".env.local" });
+
+import { eq, sql } from "drizzle-orm";
+import { getDb } from "../lib/db/client";
+import { heatCells } from "../lib/db/schema";
+import { buildHeatmapPyramid } from "../lib/heatmap/pyramid";
+import { getCityBounds } from "../lib/cities";
+import { HEATMAP_GRID_STEP } from "../lib/constants";
+import type { Bounds } from "../lib/distance";
+
+const BAND_SIZE = 1; // Degrees of latitude per aggregation query
+
+// Parse command line arguments
+function parseArgs(): { city: string | null; bbox: string | null } {
+  const args = process.argv.slice(2);
+  const value = (flag: string) =>
+    args.find((a) => a.startsWith(`--${flag}=`))?.replace(`--${flag}=`, "") ?? null;
+
+  return { city: value("city"), bbox: value("bbox") };
+}
+
+async function resolveBounds(city: string | null, bbox: string | null): Promise<Bounds | null> {
+  if (city) {
+    const bounds = await getCityBounds(city);
+    if (!bounds) throw new Error(`Unknown city: ${city}`);
+    return bounds;
+  }
+
+  if (bbox) {
+    const [minLng, minLat, maxLng, maxLat] = bbox.split(",").map(Number);
+    if ([minLng, minLat, maxLng, maxLat].some(isNaN)) {
+      throw new Error("--bbox must be minLng,minLat,maxLng,maxLat");
+    }
+    return { minLat, maxLat, minLng, maxLng };
+  }
+
+  // Extent of all base cells
+  const [extent] = await getDb()
+    .select({
+      minLat: sql<number | null>`min(${heatCells.lat})`,
+      maxLat: sql<number | null>`max(${heatCells.lat})`,
+      minLng: sql<number | null>`min(${heatCells.lng})`,
+      maxLng: sql<number | null>`max(${heatCells.lng})`,
+    })
+    .from(heatCells)
+    .where(eq(heatCells.gridStep, HEATMAP_GRID_STEP));
+
+  if (!extent || extent.minLat === null || extent.maxLat === null || extent.minLng === null || extent.maxLng === null) {
+    return null;
+  }
+  return { minLat: extent.minLat, maxLat: extent.maxLat, minLng: extent.minLng, maxLng: extent.maxLng };
+}
+
+async function main() {
+  const { city, bbox } = parseArgs();
+
+  console.log("Heatmap Pyramid Build");
+  console.log("=".repeat(50));
+
+  const bounds = await resolveBounds(city, bbox);
+  if (!bounds) {
+    console.log("No heat cells found, nothing to build");
+    process.exit(0);
+  }
+
+  console.log(
+    `  Bounds: ${bounds.minLat.toFixed(4)},${bounds.minLng.toFixed(4)} - ${bounds.maxLat.toFixed(4)},${bounds.maxLng.toFixed(4)}`
+  );
+
+  const start = Date.now();
+  let written = 0;
+
+  // Latitude bands keep each aggregation query small for country-sized extents
+  for (let lat = bounds.minLat; lat <= bounds.maxLat; lat += BAND_SIZE) {
+    const band = { ...bounds, minLat: lat, maxLat: Math.min(lat + BAND_SIZE, bounds.maxLat) };
+    written += await buildHeatmapPyramid(band);
+    console.log(`  ${band.minLat.toFixed(2)}..${band.maxLat.toFixed(2)}: ${written.toLocaleString()} coarse cells so far`);
+  }
+
+  console.log(`  Wrote ${written.toLocaleString()} coarse cells in ${Math.round((Date.now() - start) / 1000)}s`);
+
+  console.log("");
+  console.log("Done!");
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
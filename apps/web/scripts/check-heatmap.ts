@@ -16,6 +16,7 @@ async function main() {
   const result = await db
     .select({
       gridStep: heatCells.gridStep,
+      layer: heatCells.layer,
       count: sql<number>`count(*)`,
     })
     .from(heatCells)
@@ -27,11 +28,11 @@ async function main() {
         lte(heatCells.lng, bounds.maxLng)
       )
     )
-    .groupBy(heatCells.gridStep);
+    .groupBy(heatCells.gridStep, heatCells.layer);
 
   console.log("Heatmap cells in Cancun bounds:");
   for (const r of result) {
-    console.log(`  gridStep: ${r.gridStep} | cells: ${r.count}`);
+    console.log(`  gridStep: ${r.gridStep} | layer: ${r.layer} | cells: ${r.count}`);
   }
 
   if (result.length === 0) {
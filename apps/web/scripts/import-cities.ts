@@ -0,0 +1,111 @@
+#!/usr/bin/env tsx
+/**
+ * Import cities into the cities table
+ *
+ * The cities table is the city registry: city pages, the sitemap and heatmap
+ * scheduling all read from it. Accepts a GeoNames dump or a TSV with a header
+ * row (see lib/cities/import.ts for the columns).
+ *
+ * Usage:
+ *   pnpm cities:import --file=data/cities.tsv                     # Bundled default cities
+ *   pnpm cities:import --file=cities15000.txt --min-population=500000
+ *   pnpm cities:import --file=cities15000.txt --country=DE,AT,CH
+ *
+ * Dumps: https://download.geonames.org/export/dump/ (cities15000.zip etc.)
+ *
+ * Notes:
+ *   - Cities are upserted by slug; re-importing updates names, bounds and population
+ *   - Without bounds columns, a box around the center is estimated from population
+ *   - Cities are never deleted
+ *
+ * Environment variables:
+ *   DATABASE_URL - Required
+ */
+
+// Load .env.local for local development
+import { config } from "dotenv";
+config({ path: ".env.local" });
+
+import { createReadStream, existsSync } from "fs";
+import { createInterface } from "readline";
+import {
+  isHeaderLine,
+  parseGeoNamesLine,
+  parseHeaderLine,
+  saveCities,
+  toCityRows,
+  type CityRecord,
+} from "../lib/cities/import";
+
+// Parse command line arguments
+function parseArgs(): { file: string | null; minPopulation: number; countries: string[] | null } {
+  const args = process.argv.slice(2);
+  const value = (flag: string) =>
+    args.find((a) => a.startsWith(`--${flag}=`))?.replace(`--${flag}=`, "");
+
+  const country = value("country");
+  return {
+    file: value("file") ?? null,
+    minPopulation: Number(value("min-population") ?? 0),
+    countries: country ? country.toUpperCase().split(",") : null,
+  };
+}
+
+async function main() {
+  const { file, minPopulation, countries } = parseArgs();
+
+  if (!file) {
+    console.error("Usage: import-cities --file=cities.tsv [--min-population=N] [--country=DE,AT]");
+    process.exit(1);
+  }
+  if (!existsSync(file)) {
+    console.error(`File not found: ${file}`);
+    process.exit(1);
+  }
+  if (isNaN(minPopulation)) {
+    console.error("--min-population must be a number");
+    process.exit(1);
+  }
+
+  console.log("City Import");
+  console.log("=".repeat(50));
+
+  const records: CityRecord[] = [];
+  let header: string[] | null = null;
+  let lineNumber = 0;
+  let skipped = 0;
+
+  const lines = createInterface({ input: createReadStream(file, "utf-8"), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    if (lineNumber++ === 0 && isHeaderLine(line)) {
+      header = line.split("\t").map((h) => h.trim().toLowerCase());
+      continue;
+    }
+
+    const record = header ? parseHeaderLine(line, header) : parseGeoNamesLine(line);
+    if (!record) {
+      skipped++;
+      continue;
+    }
+    if ((record.population ?? 0) < minPopulation) continue;
+    if (countries && !countries.includes(record.country)) continue;
+    records.push(record);
+  }
+
+  console.log(`  Format: ${header ? "TSV with header" : "GeoNames dump"}`);
+  console.log(`  ${records.length.toLocaleString()} cities selected${skipped > 0 ? `, ${skipped} invalid lines skipped` : ""}`);
+
+  const rows = toCityRows(records);
+  const saved = await saveCities(rows);
+  console.log(`  Saved ${saved.toLocaleString()} cities`);
+
+  console.log("");
+  console.log("Done! City pages and the sitemap pick up new cities within a day (revalidate).");
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
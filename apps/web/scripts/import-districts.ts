@@ -0,0 +1,173 @@
+#!/usr/bin/env tsx
+/**
+ * Import district (neighborhood/borough) boundaries for a city
+ *
+ * Districts are ranked against each other on /{locale}/city/{city}/{district}
+ * by the mean of the heat cells inside them.
+ *
+ * Usage:
+ *   pnpm districts:import --city=berlin --file=bezirke.geojson
+ *   pnpm districts:import --city=berlin --file=bezirke.geojson --name-property=NAME
+ *   pnpm districts:import --city=berlin --file=berlin-latest.osm.pbf --admin-level=9
+ *   pnpm districts:import --city=berlin --scores-only
+ *
+ * Notes:
+ *   - .osm.pbf files: boundary=administrative relations at --admin-level
+ *     (required; e.g. 9 = Berlin Bezirke, 10 = Ortsteile). Reads the file 3 times
+ *   - GeoJSON: Polygon/MultiPolygon features; --admin-level filters on an
+ *     admin_level property when given
+ *   - Districts whose center lies outside the city bounds are skipped
+ *   - Re-importing replaces the city's districts
+ *   - Scores are computed from existing heat cells after the import and
+ *     refreshed whenever a heatmap job covering the district completes
+ *
+ * Environment variables:
+ *   DATABASE_URL - Required
+ */
+
+// Load .env.local for local development
+import { config } from "dotenv";
+config({ path: ".env.local" });
+
+import { existsSync, readFileSync } from "fs";
+import { getCity, cityBounds } from "../lib/cities";
+import { readOsmPbf, type OsmRelation } from "../lib/osm/pbf";
+import {
+  parseGeoJSON,
+  isDistrictRelation,
+  relationGeometry,
+  toDistrictRows,
+  saveDistricts,
+  type DistrictRecord,
+} from "../lib/districts/import";
+import { refreshCityDistrictScores } from "../lib/districts/scores";
+
+// Parse command line arguments
+function parseArgs(): {
+  city: string | null;
+  file: string | null;
+  adminLevel: number | null;
+  nameProperty: string;
+  scoresOnly: boolean;
+} {
+  const args = process.argv.slice(2);
+  const value = (flag: string) =>
+    args.find((a) => a.startsWith(`--${flag}=`))?.replace(`--${flag}=`, "") ?? null;
+
+  const adminLevel = value("admin-level");
+  return {
+    city: value("city"),
+    file: value("file"),
+    adminLevel: adminLevel ? parseInt(adminLevel, 10) : null,
+    nameProperty: value("name-property") ?? "name",
+    scoresOnly: args.includes("--scores-only"),
+  };
+}
+
+/**
+ * Boundary relations from a PBF extract: relations, then member ways, then their nodes
+ */
+async function readOsmDistricts(file: string, adminLevel: number): Promise<DistrictRecord[]> {
+  console.log(`Pass 1: reading admin_level=${adminLevel} boundaries...`);
+  const relations: OsmRelation[] = [];
+  const wayIds = new Set<number>();
+  await readOsmPbf(file, {
+    relation: (relation) => {
+      if (!isDistrictRelation(relation.tags, adminLevel)) return;
+      relations.push(relation);
+      for (const member of relation.members) {
+        if (member.type === "way") wayIds.add(member.ref);
+      }
+    },
+  });
+  console.log(`  ${relations.length} boundaries, ${wayIds.size.toLocaleString()} member ways`);
+  if (relations.length === 0) return [];
+
+  console.log("Pass 2: resolving member ways...");
+  const wayRefs = new Map<number, number[]>();
+  const nodeIds = new Set<number>();
+  await readOsmPbf(file, {
+    way: (way) => {
+      if (!wayIds.has(way.id)) return;
+      wayRefs.set(way.id, way.refs);
+      for (const ref of way.refs) nodeIds.add(ref);
+    },
+  });
+
+  console.log(`Pass 3: resolving ${nodeIds.size.toLocaleString()} nodes...`);
+  const coords = new Map<number, { lat: number; lng: number }>();
+  await readOsmPbf(file, {
+    node: (node) => {
+      if (nodeIds.has(node.id)) coords.set(node.id, { lat: node.lat, lng: node.lng });
+    },
+  });
+
+  const records: DistrictRecord[] = [];
+  for (const relation of relations) {
+    const geometry = relationGeometry(relation, wayRefs, coords);
+    if (!geometry) {
+      console.log(`  Skipped ${relation.tags.name}: boundary does not close inside the extract`);
+      continue;
+    }
+    records.push({ name: relation.tags.name, adminLevel, geometry });
+  }
+  return records;
+}
+
+async function main() {
+  const { city: citySlug, file, adminLevel, nameProperty, scoresOnly } = parseArgs();
+
+  if (!citySlug || (!file && !scoresOnly)) {
+    console.error("Usage: import-districts --city=slug --file=districts.geojson|extract.osm.pbf [--admin-level=N]");
+    process.exit(1);
+  }
+
+  const city = await getCity(citySlug);
+  const bounds = city ? cityBounds(city) : null;
+  if (!city || !bounds) {
+    console.error(`Unknown city or city without bounds: ${citySlug}`);
+    process.exit(1);
+  }
+
+  console.log(`District Import: ${city.name}`);
+  console.log("=".repeat(50));
+
+  if (file) {
+    if (!existsSync(file)) {
+      console.error(`File not found: ${file}`);
+      process.exit(1);
+    }
+
+    let records: DistrictRecord[];
+    if (file.endsWith(".pbf")) {
+      if (adminLevel === null || isNaN(adminLevel)) {
+        console.error("--admin-level is required for .osm.pbf files");
+        process.exit(1);
+      }
+      records = await readOsmDistricts(file, adminLevel);
+    } else {
+      records = parseGeoJSON(readFileSync(file, "utf8"), nameProperty).filter(
+        (r) => adminLevel === null || r.adminLevel === null || r.adminLevel === adminLevel
+      );
+    }
+
+    const { rows, skipped } = toDistrictRows(records, city.id, bounds);
+    if (skipped > 0) console.log(`  Skipped ${skipped} districts outside ${city.name} or without a name`);
+
+    const saved = await saveDistricts(city.id, rows);
+    console.log(`  Saved ${saved} districts`);
+  }
+
+  console.log("Scoring districts from heat cells...");
+  const scored = await refreshCityDistrictScores(city.id);
+  console.log(`  Scored ${scored} districts`);
+
+  console.log("");
+  console.log(`Done! District pages: /{locale}/city/${city.slug}/{district}`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
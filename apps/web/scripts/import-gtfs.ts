@@ -0,0 +1,226 @@
+#!/usr/bin/env tsx
+/**
+ * Import a GTFS transit feed
+ *
+ * Loads stops, routes and stop times into the gtfs_* tables and precomputes
+ * each stop's weekday departures per hour (06:00-22:00). Used for the transit
+ * category with TRANSIT_POI_PROVIDER=gtfs, which replaces Overture's
+ * major-stations-only data inside the feed's area.
+ *
+ * Usage:
+ *   pnpm gtfs:import --dir=path/to/feed --name=vbb             # Unzipped GTFS feed
+ *   pnpm gtfs:import --dir=path/to/feed --name=vbb --date=20261021
+ *
+ * Examples:
+ *   unzip GTFS.zip -d /tmp/vbb && pnpm gtfs:import --dir=/tmp/vbb --name=vbb
+ *
+ * Notes:
+ *   - Re-importing a feed with the same --name replaces it once the new
+ *     import has completed; until then (or if it fails) the old one is used
+ *   - Without --date, frequencies use services running on Wednesdays
+ *     (or the busiest date for feeds that only have calendar_dates.txt)
+ *   - Cached point scores in the feed's area are deleted afterwards
+ *
+ * Environment variables:
+ *   DATABASE_URL - Required
+ */
+
+// Load .env.local for local development
+import { config } from "dotenv";
+config({ path: ".env.local" });
+
+import { existsSync } from "fs";
+import { join } from "path";
+import {
+  readGtfsTable,
+  parseGtfsTime,
+  selectServiceIds,
+  SERVICE_WINDOW_START,
+  SERVICE_WINDOW_END,
+  SERVICE_WINDOW_HOURS,
+  type GtfsRow,
+} from "../lib/transit/gtfs";
+import { completeFeed, createFeed, saveRoutes, saveStops, StopTimeWriter } from "../lib/transit/import";
+import { invalidateScoreCache } from "../lib/score/cache";
+import type { NewGtfsRoute, NewGtfsStop } from "../lib/db/schema";
+
+// Parse command line arguments
+function parseArgs(): { dir: string | null; name: string | null; date: string | undefined } {
+  const args = process.argv.slice(2);
+  const value = (flag: string) =>
+    args.find((a) => a.startsWith(`--${flag}=`))?.replace(`--${flag}=`, "");
+
+  return { dir: value("dir") ?? null, name: value("name") ?? null, date: value("date") };
+}
+
+async function readAll(dir: string, file: string): Promise<GtfsRow[]> {
+  const rows: GtfsRow[] = [];
+  await readGtfsTable(dir, file, (row) => {
+    rows.push(row);
+  });
+  return rows;
+}
+
+async function main() {
+  const { dir, name, date } = parseArgs();
+
+  if (!dir || !name) {
+    console.error("Usage: import-gtfs --dir=path/to/feed --name=feed-name [--date=YYYYMMDD]");
+    process.exit(1);
+  }
+  if (date && !/^\d{8}$/.test(date)) {
+    console.error("--date must be YYYYMMDD");
+    process.exit(1);
+  }
+  for (const required of ["stops.txt", "routes.txt", "trips.txt", "stop_times.txt"]) {
+    if (!existsSync(join(dir, required))) {
+      console.error(`Missing ${required} in ${dir}`);
+      process.exit(1);
+    }
+  }
+
+  console.log(`GTFS Import: ${name}`);
+  console.log("=".repeat(50));
+
+  // Service calendar
+  const calendar = await readAll(dir, "calendar.txt");
+  const calendarDates = await readAll(dir, "calendar_dates.txt");
+  const { serviceIds, serviceDate } = selectServiceIds(calendar, calendarDates, date);
+  console.log(
+    `  ${serviceIds.size} services active on ${serviceDate ?? "a typical Wednesday"}`
+  );
+
+  // Routes
+  const routes = await readAll(dir, "routes.txt");
+  const routeTypes = new Map<string, number>();
+  for (const route of routes) {
+    routeTypes.set(route.route_id, Number(route.route_type));
+  }
+
+  // Trips (route and service per trip)
+  const trips = new Map<string, { routeId: string; serviceId: string }>();
+  await readGtfsTable(dir, "trips.txt", (row) => {
+    trips.set(row.trip_id, { routeId: row.route_id, serviceId: row.service_id });
+  });
+  console.log(`  ${routes.length.toLocaleString()} routes, ${trips.size.toLocaleString()} trips`);
+
+  // Stops - only boarding locations (location_type 0 or empty), not stations/entrances
+  const stops = (await readAll(dir, "stops.txt")).filter(
+    (s) => (!s.location_type || s.location_type === "0") && s.stop_lat && s.stop_lon
+  );
+  if (stops.length === 0) {
+    console.log("No stops found, nothing to import");
+    return;
+  }
+
+  // Loop instead of Math.min(...) - large feeds have 100k+ stops
+  const bounds = { minLat: Infinity, maxLat: -Infinity, minLng: Infinity, maxLng: -Infinity };
+  for (const stop of stops) {
+    const lat = Number(stop.stop_lat);
+    const lng = Number(stop.stop_lon);
+    bounds.minLat = Math.min(bounds.minLat, lat);
+    bounds.maxLat = Math.max(bounds.maxLat, lat);
+    bounds.minLng = Math.min(bounds.minLng, lng);
+    bounds.maxLng = Math.max(bounds.maxLng, lng);
+  }
+
+  // Scoring keeps using the previous import until this one completes
+  const feedId = await createFeed({ name, ...bounds, serviceDate });
+
+  const routeRows: NewGtfsRoute[] = routes.map((route) => ({
+    id: `${feedId}:${route.route_id}`,
+    feedId,
+    routeId: route.route_id,
+    shortName: route.route_short_name || null,
+    longName: route.route_long_name || null,
+    routeType: Number(route.route_type),
+  }));
+  await saveRoutes(routeRows);
+
+  // Stream stop times: store every row, count daytime departures on the selected day
+  console.log("  Reading stop_times.txt...");
+  const departures = new Map<string, number>();
+  const departuresByType = new Map<string, Map<number, number>>();
+  const writer = new StopTimeWriter();
+  const start = Date.now();
+  let rowCount = 0;
+
+  await readGtfsTable(dir, "stop_times.txt", async (row) => {
+    if (++rowCount % 500000 === 0) {
+      console.log(`    ${rowCount.toLocaleString()} stop times...`);
+    }
+
+    const trip = trips.get(row.trip_id);
+    if (!trip) return;
+
+    const departureTime = parseGtfsTime(row.departure_time || row.arrival_time);
+    await writer.add({
+      feedId,
+      tripId: row.trip_id,
+      routeId: trip.routeId,
+      serviceId: trip.serviceId,
+      stopId: row.stop_id,
+      stopSequence: Number(row.stop_sequence),
+      departureTime,
+    });
+
+    if (
+      departureTime === null ||
+      departureTime < SERVICE_WINDOW_START ||
+      departureTime >= SERVICE_WINDOW_END ||
+      !serviceIds.has(trip.serviceId)
+    ) {
+      return;
+    }
+
+    departures.set(row.stop_id, (departures.get(row.stop_id) ?? 0) + 1);
+    const routeType = routeTypes.get(trip.routeId);
+    if (routeType !== undefined) {
+      if (!departuresByType.has(row.stop_id)) departuresByType.set(row.stop_id, new Map());
+      const byType = departuresByType.get(row.stop_id)!;
+      byType.set(routeType, (byType.get(routeType) ?? 0) + 1);
+    }
+  });
+  await writer.flush();
+  console.log(
+    `  Saved ${writer.saved.toLocaleString()} stop times in ${Math.round((Date.now() - start) / 1000)}s`
+  );
+
+  const stopRows: NewGtfsStop[] = stops.map((stop) => {
+    // Busiest mode at the stop decides how it is tagged (bus stop, tram stop, station)
+    const byType = departuresByType.get(stop.stop_id);
+    const routeType = byType
+      ? [...byType.entries()].sort((a, b) => b[1] - a[1])[0][0]
+      : null;
+
+    return {
+      id: `${feedId}:${stop.stop_id}`,
+      feedId,
+      stopId: stop.stop_id,
+      name: stop.stop_name || null,
+      lat: Number(stop.stop_lat),
+      lng: Number(stop.stop_lon),
+      routeType,
+      departuresPerHour: (departures.get(stop.stop_id) ?? 0) / SERVICE_WINDOW_HOURS,
+    };
+  });
+  await saveStops(stopRows);
+
+  const served = stopRows.filter((s) => s.departuresPerHour! > 0).length;
+  console.log(`  Saved ${stopRows.length.toLocaleString()} stops (${served.toLocaleString()} with service)`);
+
+  await completeFeed(feedId, name);
+
+  // Transit scores change for everything inside the feed's area
+  const invalidated = await invalidateScoreCache(bounds);
+  console.log(`  Invalidated ${invalidated.toLocaleString()} cached point scores`);
+
+  console.log("");
+  console.log("Done! Set TRANSIT_POI_PROVIDER=gtfs to score transit from this feed.");
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,142 @@
+#!/usr/bin/env tsx
+/**
+ * Import POIs from a local OpenStreetMap .osm.pbf extract
+ *
+ * Offline alternative to setup-overture.ts: no Python CLI, DuckDB or cloud
+ * download. Elements carrying any OSM tag from the scoring categories
+ * (categories.overpassTags) are written to overture_pois with source = "osm",
+ * which adds individual bus stops, playgrounds and pharmacies that Overture lacks.
+ *
+ * Usage:
+ *   pnpm setup:pois:osm --file=berlin-latest.osm.pbf
+ *
+ * Extracts: https://download.geofabrik.de (country/city .osm.pbf files)
+ *
+ * Notes:
+ *   - Nodes are imported at their position, ways (parks, schools, malls)
+ *     at the centroid of their nodes; multipolygon relations are skipped
+ *   - Reads the file twice (POIs, then coordinates of way nodes)
+ *   - Places already imported from Overture (same rule as the composite
+ *     provider) are skipped so they aren't counted twice. Run it after
+ *     setup-overture.ts, and again after Overture updates
+ *   - Safe to re-run: existing OSM rows are updated by ID, or deleted when
+ *     Overture now has the place
+ *   - Cached point scores in the extract's area are deleted afterwards
+ *
+ * Environment variables:
+ *   DATABASE_URL - Required
+ */
+
+// Load .env.local for local development
+import { config } from "dotenv";
+config({ path: ".env.local" });
+
+import { existsSync } from "fs";
+import { readOsmPbf, type OsmBounds, type OsmTags } from "../lib/osm/pbf";
+import { matchPoiTag, osmPoiRow, wayCentroid, OsmPoiWriter } from "../lib/osm/import";
+import { invalidateScoreCache } from "../lib/score/cache";
+
+// Parse command line arguments
+function parseArgs(): { file: string | null } {
+  const args = process.argv.slice(2);
+  const fileArg = args.find((a) => a.startsWith("--file="));
+  return { file: fileArg ? fileArg.replace("--file=", "") : null };
+}
+
+async function main() {
+  const { file } = parseArgs();
+
+  if (!file) {
+    console.error("Usage: import-osm-pbf --file=extract.osm.pbf");
+    process.exit(1);
+  }
+  if (!existsSync(file)) {
+    console.error(`File not found: ${file}`);
+    process.exit(1);
+  }
+
+  console.log("OSM PBF POI Import");
+  console.log("=".repeat(50));
+
+  const writer = new OsmPoiWriter();
+  const start = Date.now();
+
+  // Extent of imported POIs, used when the file has no header bbox
+  const extent: OsmBounds = { minLat: Infinity, maxLat: -Infinity, minLng: Infinity, maxLng: -Infinity };
+  const extend = (lat: number, lng: number) => {
+    extent.minLat = Math.min(extent.minLat, lat);
+    extent.maxLat = Math.max(extent.maxLat, lat);
+    extent.minLng = Math.min(extent.minLng, lng);
+    extent.maxLng = Math.max(extent.maxLng, lng);
+  };
+
+  // Pass 1: tagged nodes are written directly, matching ways are kept for pass 2
+  console.log(`Pass 1: reading POIs from ${file}...`);
+  const pendingWays: { id: number; refs: number[]; tags: OsmTags; tag: string }[] = [];
+  const wayNodeIds = new Set<number>();
+
+  const headerBbox = await readOsmPbf(file, {
+    node: async (node) => {
+      const tag = matchPoiTag(node.tags);
+      if (!tag) return;
+      const row = osmPoiRow("node", node.id, node.lat, node.lng, node.tags, tag);
+      if (!row) return;
+      await writer.add(row);
+      extend(node.lat, node.lng);
+    },
+    way: (way) => {
+      const tag = matchPoiTag(way.tags);
+      if (!tag) return;
+      pendingWays.push({ ...way, tag });
+      for (const ref of way.refs) wayNodeIds.add(ref);
+    },
+  });
+  await writer.flush();
+  console.log(`  ${writer.saved.toLocaleString()} node POIs, ${pendingWays.length.toLocaleString()} way POIs pending`);
+
+  // Pass 2: coordinates for the nodes of matching ways
+  if (pendingWays.length > 0) {
+    console.log(`Pass 2: resolving ${wayNodeIds.size.toLocaleString()} way nodes...`);
+    const coords = new Map<number, { lat: number; lng: number }>();
+    await readOsmPbf(file, {
+      node: (node) => {
+        if (wayNodeIds.has(node.id)) coords.set(node.id, { lat: node.lat, lng: node.lng });
+      },
+    });
+
+    let skipped = 0;
+    for (const way of pendingWays) {
+      const center = wayCentroid(way.refs, coords);
+      const row = center && osmPoiRow("way", way.id, center.lat, center.lng, way.tags, way.tag);
+      if (!row) {
+        skipped++;
+        continue;
+      }
+      await writer.add(row);
+      extend(row.lat, row.lng);
+    }
+    await writer.flush();
+    if (skipped > 0) console.log(`  Skipped ${skipped} ways with nodes outside the extract`);
+  }
+
+  console.log(`  Saved ${writer.saved.toLocaleString()} POIs in ${Math.round((Date.now() - start) / 1000)}s`);
+  if (writer.skipped > 0) {
+    console.log(`  Skipped ${writer.skipped.toLocaleString()} POIs already imported from Overture`);
+  }
+
+  // New POIs change scores everywhere in the extract
+  const bounds = headerBbox ?? (writer.saved > 0 ? extent : null);
+  if (bounds) {
+    const invalidated = await invalidateScoreCache(bounds);
+    console.log(`  Invalidated ${invalidated.toLocaleString()} cached point scores`);
+  }
+
+  console.log("");
+  console.log("Done! OSM POIs are served by POI_PROVIDER=localdb alongside Overture data.");
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
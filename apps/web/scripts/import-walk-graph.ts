@@ -0,0 +1,164 @@
+#!/usr/bin/env tsx
+/**
+ * Import the pedestrian road graph from OpenStreetMap
+ *
+ * Fills the walk_edges table used by DISTANCE_MODEL=walking. Without it
+ * (or outside imported areas) scoring falls back to straight-line distance.
+ *
+ * Usage:
+ *   pnpm walk-graph:import --bbox=minLng,minLat,maxLng,maxLat   # Fetch from Overpass API
+ *   pnpm walk-graph:import --file=walk.json                     # Use a saved Overpass JSON export
+ *
+ * Examples:
+ *   pnpm walk-graph:import:cancun
+ *   pnpm walk-graph:import --bbox=2.2,48.8,2.5,48.9   # Paris area
+ *
+ * Notes:
+ *   - Overpass works best for city-sized areas; larger regions may time out
+ *   - Edges are deduplicated by OSM node pair (safe to re-run)
+ *   - Cached point scores in the area are deleted afterwards
+ *
+ * Environment variables:
+ *   DATABASE_URL - Required
+ */
+
+// Load .env.local for local development
+import { config } from "dotenv";
+config({ path: ".env.local" });
+
+import { readFileSync } from "fs";
+import { isWalkableWay, wayToEdges, saveWalkEdges } from "../lib/distance/import";
+import { invalidateScoreCache } from "../lib/score/cache";
+import type { NewWalkEdge } from "../lib/db/schema";
+
+const OVERPASS_URL = "https://overpass-api.de/api/interpreter";
+
+interface OverpassElement {
+  type: "node" | "way" | "relation";
+  id: number;
+  lat?: number;
+  lon?: number;
+  nodes?: number[];
+  tags?: Record<string, string>;
+}
+
+interface OverpassResponse {
+  elements: OverpassElement[];
+}
+
+interface Bbox {
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+}
+
+// Parse command line arguments
+function parseArgs(): { bbox: Bbox | null; file: string | null } {
+  const args = process.argv.slice(2);
+  const bboxArg = args.find((a) => a.startsWith("--bbox="));
+  const fileArg = args.find((a) => a.startsWith("--file="));
+
+  let bbox: Bbox | null = null;
+  if (bboxArg) {
+    const [minLng, minLat, maxLng, maxLat] = bboxArg.replace("--bbox=", "").split(",").map(Number);
+    bbox = { minLng, minLat, maxLng, maxLat };
+  }
+
+  return { bbox, file: fileArg ? fileArg.replace("--file=", "") : null };
+}
+
+async function fetchFromOverpass(bbox: Bbox): Promise<OverpassResponse> {
+  const query = `[out:json][timeout:600];
+way["highway"](${bbox.minLat},${bbox.minLng},${bbox.maxLat},${bbox.maxLng});
+(._;>;);
+out body;`;
+
+  const response = await fetch(OVERPASS_URL, {
+    method: "POST",
+    body: `data=${encodeURIComponent(query)}`,
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Overpass request failed: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+function buildEdges(data: OverpassResponse): { edges: NewWalkEdge[]; bounds: Bbox | null } {
+  const nodes = new Map<number, { lat: number; lng: number }>();
+  for (const el of data.elements) {
+    if (el.type === "node" && el.lat !== undefined && el.lon !== undefined) {
+      nodes.set(el.id, { lat: el.lat, lng: el.lon });
+    }
+  }
+
+  const edges: NewWalkEdge[] = [];
+  for (const el of data.elements) {
+    if (el.type === "way" && el.nodes && isWalkableWay(el.tags || {})) {
+      edges.push(...wayToEdges(el.nodes, nodes));
+    }
+  }
+
+  if (edges.length === 0) return { edges, bounds: null };
+
+  // Loop instead of Math.min(...) - city graphs have millions of coordinates
+  const bounds = { minLat: Infinity, maxLat: -Infinity, minLng: Infinity, maxLng: -Infinity };
+  for (const e of edges) {
+    bounds.minLat = Math.min(bounds.minLat, e.fromLat, e.toLat);
+    bounds.maxLat = Math.max(bounds.maxLat, e.fromLat, e.toLat);
+    bounds.minLng = Math.min(bounds.minLng, e.fromLng, e.toLng);
+    bounds.maxLng = Math.max(bounds.maxLng, e.fromLng, e.toLng);
+  }
+  return { edges, bounds };
+}
+
+async function main() {
+  const { bbox, file } = parseArgs();
+
+  if (!bbox && !file) {
+    console.error("Usage: import-walk-graph --bbox=minLng,minLat,maxLng,maxLat | --file=walk.json");
+    process.exit(1);
+  }
+
+  console.log("Walk Graph Import");
+  console.log("=".repeat(50));
+
+  let data: OverpassResponse;
+  if (file) {
+    console.log(`Reading ${file}...`);
+    data = JSON.parse(readFileSync(file, "utf-8"));
+  } else {
+    console.log(`Fetching ways from Overpass: ${bbox!.minLng},${bbox!.minLat},${bbox!.maxLng},${bbox!.maxLat}`);
+    data = await fetchFromOverpass(bbox!);
+  }
+
+  console.log(`  ${data.elements.length.toLocaleString()} OSM elements`);
+
+  const { edges, bounds } = buildEdges(data);
+  console.log(`  ${edges.length.toLocaleString()} walkable edges`);
+
+  if (edges.length === 0 || !bounds) {
+    console.log("Nothing to import");
+    return;
+  }
+
+  const start = Date.now();
+  const saved = await saveWalkEdges(edges);
+  console.log(`  Saved ${saved.toLocaleString()} edges in ${Math.round((Date.now() - start) / 1000)}s`);
+
+  // Walking distances change scores for everything near the new graph
+  const invalidated = await invalidateScoreCache(bounds);
+  console.log(`  Invalidated ${invalidated.toLocaleString()} cached point scores`);
+
+  console.log("");
+  console.log("Done! Set DISTANCE_MODEL=walking to use routed distances.");
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
@@ -5,15 +5,18 @@
  *   npx tsx scripts/precompute-heatmap.ts --city berlin
  *   npx tsx scripts/precompute-heatmap.ts --bbox 52.4,13.2,52.6,13.5 --step 0.005
  *
- * This script computes grocery scores for a grid of points and stores them in the database.
+ * This script computes grocery scores for a grid of points and stores them in the
+ * database as the "groceries" heat layer.
  */
 
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import { heatCells, cities } from "../lib/db/schema";
+import { heatCells } from "../lib/db/schema";
 import { eq, and, gte, lte } from "drizzle-orm";
 import { calculateGroceryScore } from "../lib/score/engine";
-import { CITY_BOUNDS, getAvailableCities } from "../lib/cities/bounds";
+import { getCityBounds, listCities } from "../lib/cities";
+
+const LAYER = "groceries";
 
 interface Args {
   city?: string;
@@ -44,7 +47,7 @@ function parseArgs(): Args {
   return args;
 }
 
-function getBounds(args: Args): { minLat: number; maxLat: number; minLng: number; maxLng: number } | null {
+async function getBounds(args: Args): Promise<{ minLat: number; maxLat: number; minLng: number; maxLng: number } | null> {
   if (args.bbox) {
     const parts = args.bbox.split(",").map(Number);
     if (parts.length === 4 && parts.every((n) => !isNaN(n))) {
@@ -54,25 +57,26 @@ function getBounds(args: Args): { minLat: number; maxLat: number; minLng: number
     return null;
   }
 
-  if (args.city && CITY_BOUNDS[args.city]) {
-    return CITY_BOUNDS[args.city];
+  const cityBounds = args.city ? await getCityBounds(args.city) : null;
+  if (cityBounds) {
+    return cityBounds;
   }
 
   console.error(`Unknown city: ${args.city}`);
-  console.error(`Available cities: ${getAvailableCities().join(", ")}`);
+  console.error(`Available cities: ${(await listCities()).map((c) => c.slug).join(", ")}`);
   return null;
 }
 
 async function main() {
   const args = parseArgs();
-  const bounds = getBounds(args);
+  const bounds = await getBounds(args);
 
   if (!bounds) {
     console.log("\nUsage:");
     console.log("  npx tsx scripts/precompute-heatmap.ts --city berlin");
     console.log("  npx tsx scripts/precompute-heatmap.ts --bbox 52.4,13.2,52.6,13.5");
     console.log("\nOptions:");
-    console.log("  --city <name>   City name (berlin, munich, hamburg, vienna, paris)");
+    console.log("  --city <slug>   City from the cities table (see pnpm cities:import)");
     console.log("  --bbox <coords> Bounding box: minLat,minLng,maxLat,maxLng");
     console.log("  --step <deg>    Grid step in degrees (default: 0.01 ≈ 1km)");
     console.log("  --dry-run       Show what would be computed without saving");
@@ -145,12 +149,13 @@ async function main() {
       }
 
       try {
-        // Upsert: delete existing and insert new (including gridStep in unique constraint)
+        // Upsert: delete existing and insert new (gridStep and layer are in the unique constraint)
         await db.delete(heatCells).where(
           and(
             eq(heatCells.lat, result.lat),
             eq(heatCells.lng, result.lng),
-            eq(heatCells.gridStep, args.step)
+            eq(heatCells.gridStep, args.step),
+            eq(heatCells.layer, LAYER)
           )
         );
 
@@ -159,6 +164,7 @@ async function main() {
           lng: result.lng,
           score: result.score,
           gridStep: args.step,
+          layer: LAYER,
           computedAt: new Date(),
         });
 
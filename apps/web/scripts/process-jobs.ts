@@ -16,6 +16,7 @@ import {
   markJobRunning,
 } from "../lib/jobs/scheduler";
 import { processHeatmapChunk } from "../lib/jobs/heatmap-processor";
+import { processCityStatsChunk } from "../lib/jobs/city-stats-processor";
 import { JOB_TYPES } from "../lib/jobs/types";
 
 const POLL_INTERVAL_MS = 1000; // 1 second between checks
@@ -81,6 +82,16 @@ async function processJobs() {
           processedTotal = 0;
           errorsTotal = 0;
         }
+      } else if (job.type === JOB_TYPES.CITY_STATS) {
+        const result = await processCityStatsChunk(job);
+
+        process.stdout.write(
+          `\rJob ${job.id}: ${result.progress}% (${result.processed} samples, ${result.errors} errors)`
+        );
+
+        if (!result.hasMore) {
+          console.log(`\nJob ${job.id} completed!`);
+        }
       } else {
         console.log(`Unknown job type: ${job.type}`);
       }
@@ -0,0 +1,81 @@
+#!/usr/bin/env tsx
+/**
+ * Schedule city_stats jobs that compute the score distribution shown on city pages
+ *
+ * Each job samples locations inside the city bounds (weighted by POI density),
+ * scores them with the full scoring engine and stores mean, median and
+ * percentiles per category in the city_stats table. The worker processes them.
+ *
+ * Usage:
+ *   pnpm cities:stats                       # Every city in the registry
+ *   pnpm cities:stats --city=berlin
+ *   pnpm cities:stats --samples=500         # More samples (default: 200)
+ *
+ * Notes:
+ *   - Cities with a pending or running city_stats job are skipped
+ *   - Cities without bounds are skipped
+ *   - Scores depend on imported POIs: run after setup:pois
+ *
+ * Environment variables:
+ *   DATABASE_URL - Required
+ */
+
+// Load .env.local for local development
+import { config } from "dotenv";
+config({ path: ".env.local" });
+
+import { listCities } from "../lib/cities";
+import { scheduleCityStatsJob } from "../lib/jobs/scheduler";
+import { CITY_STATS_SAMPLE_COUNT } from "../lib/constants";
+
+// Parse command line arguments
+function parseArgs(): { city: string | null; samples: number } {
+  const args = process.argv.slice(2);
+  const value = (flag: string) =>
+    args.find((a) => a.startsWith(`--${flag}=`))?.replace(`--${flag}=`, "") ?? null;
+
+  const samples = value("samples");
+  return {
+    city: value("city"),
+    samples: samples ? parseInt(samples, 10) : CITY_STATS_SAMPLE_COUNT,
+  };
+}
+
+async function main() {
+  const { city, samples } = parseArgs();
+
+  if (isNaN(samples) || samples < 1) {
+    throw new Error("--samples must be a positive number");
+  }
+
+  console.log("City Stats Scheduling");
+  console.log("=".repeat(50));
+
+  const slugs = city ? [city] : (await listCities()).map((c) => c.slug);
+  if (slugs.length === 0) {
+    console.log("No cities found. Run `pnpm cities:import` first");
+    process.exit(0);
+  }
+
+  let scheduled = 0;
+  for (const slug of slugs) {
+    const result = await scheduleCityStatsJob(slug, samples);
+    if (!result) {
+      console.log(`  ${slug}: unknown city or no bounds, skipped`);
+    } else if (result.isNew) {
+      console.log(`  ${slug}: scheduled job #${result.jobId} (${samples} samples)`);
+      scheduled++;
+    } else {
+      console.log(`  ${slug}: job #${result.jobId} already ${result.status}`);
+    }
+  }
+
+  console.log("");
+  console.log(`Scheduled ${scheduled} job(s). Start the worker with \`pnpm worker\``);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
@@ -14,6 +14,7 @@
  *   pnpm setup:pois:cancun    # Development: Cancun area (~30k POIs)
  *   pnpm setup:pois:world     # Production: worldwide (~50M+ POIs)
  *   pnpm setup:pois --bbox=minLng,minLat,maxLng,maxLat  # Custom area
+ *   pnpm setup:pois:update --release=2025-01-22.0        # Apply a new release (world)
  *
  * Examples:
  *   pnpm setup:pois --bbox=-74.3,40.5,-73.7,40.9  # NYC area
@@ -30,6 +31,23 @@
  *   - Database import uses onConflictDoNothing (safe to restart)
  *   - Use --cleanup to delete all temp files
  *
+ * Release updates (--update --release=<version>):
+ *   - The initial import never changes existing rows. Update mode diffs each
+ *     tile of the new release against overture_pois by id: new places are
+ *     added, changed ones updated, missing ones soft-deleted (deleted_at)
+ *   - --release is passed to the overturemaps CLI (needs a version with
+ *     `download --release`); tile files are kept per release
+ *   - A run that stops on an error is recorded as failed
+ *   - Each tile is applied in one transaction; a tile that fails to download
+ *     or read is left unchanged
+ *   - The run is recorded in import_runs with added/changed/removed counts
+ *   - Heat cells near changed places are marked stale, and heatmap jobs are
+ *     scheduled to recompute their regions (see lib/overture/update.ts)
+ *
+ * Cache invalidation:
+ *   - Cached point scores around each imported tile are deleted,
+ *     so /api/score recomputes them from the new POI data
+ *
  * Environment variables:
  *   DATABASE_URL - Required
  */
@@ -43,6 +61,17 @@ import { existsSync, unlinkSync, statSync, readdirSync } from "fs";
 import { homedir } from "os";
 import { getDb } from "../lib/db/client";
 import { overturePois } from "../lib/db/schema";
+import { invalidateScoreCache } from "../lib/score/cache";
+import { scheduleStaleHeatmapJobs } from "../lib/jobs/scheduler";
+import {
+  applyReleaseTile,
+  finishImportRun,
+  recordImportChanges,
+  startImportRun,
+  tileOwnsPoint,
+  type OverturePoiRow,
+  type ReleaseChanges,
+} from "../lib/overture/update";
 
 const TEMP_DIR = "/tmp/overture_tiles";
 const QUERY_BATCH_SIZE = 100000; // Rows to fetch from DuckDB at a time
@@ -51,6 +80,10 @@ const INSERT_BATCH_SIZE = 1000; // Rows to insert into DB at a time
 // Tile size in degrees (60x60 = 18 tiles for world coverage)
 const TILE_SIZE = 60;
 
+// Update mode downloads tiles this much larger (degrees), so places on a tile
+// edge are in the tile's file whichever side their stored coordinates round to
+const DOWNLOAD_PADDING = 0.01;
+
 // Extend PATH to include common pipx/homebrew locations
 const EXTENDED_PATH = [
   `${homedir()}/.local/bin`,
@@ -71,15 +104,18 @@ type Tile = {
 };
 
 // Parse command line arguments
-function parseArgs(): { bbox: string; cleanup: boolean } {
+function parseArgs(): { bbox: string; cleanup: boolean; update: boolean; release: string | null } {
   const args = process.argv.slice(2);
   const bboxArg = args.find((a) => a.startsWith("--bbox="));
+  const releaseArg = args.find((a) => a.startsWith("--release="));
   const cleanup = args.includes("--cleanup");
+  const update = args.includes("--update");
 
   // Default: world
   const bbox = bboxArg ? bboxArg.replace("--bbox=", "") : "-180,-90,180,90";
+  const release = releaseArg ? releaseArg.replace("--release=", "") : null;
 
-  return { bbox, cleanup };
+  return { bbox, cleanup, update, release };
 }
 
 function formatNumber(n: number): string {
@@ -93,8 +129,13 @@ function formatBytes(bytes: number): string {
   return `${mb.toFixed(2)} MB`;
 }
 
+// Tile files are kept per release in update mode, so a new release is downloaded again
+function tileFile(name: string, release: string | null): string {
+  return release ? `${TEMP_DIR}/tile_${release}_${name}.parquet` : `${TEMP_DIR}/tile_${name}.parquet`;
+}
+
 // Generate tiles for a bounding box
-function generateTiles(bbox: string): Tile[] {
+function generateTiles(bbox: string, release: string | null): Tile[] {
   const [minLng, minLat, maxLng, maxLat] = bbox.split(",").map(Number);
   const tiles: Tile[] = [];
 
@@ -108,7 +149,7 @@ function generateTiles(bbox: string): Tile[] {
         maxLng,
         maxLat,
         name,
-        file: `${TEMP_DIR}/tile_${name}.parquet`,
+        file: tileFile(name, release),
       },
     ];
   }
@@ -126,7 +167,7 @@ function generateTiles(bbox: string): Tile[] {
         maxLng: tileMaxLng,
         maxLat: tileMaxLat,
         name,
-        file: `${TEMP_DIR}/tile_${name}.parquet`,
+        file: tileFile(name, release),
       });
     }
   }
@@ -134,108 +175,55 @@ function generateTiles(bbox: string): Tile[] {
   return tiles;
 }
 
-type POIRow = {
-  id: string;
-  name: string | null;
-  category: string;
-  subcategory: string | null;
-  lat: number;
-  lng: number;
-  confidence: number | null;
-  source: string | null;
-};
-
-async function processTile(tile: Tile, db: ReturnType<typeof getDb>): Promise<{ imported: number; errors: number }> {
-  let totalImported = 0;
-  let totalErrors = 0;
-
+// Stream the tile's POIs from DuckDB, QUERY_BATCH_SIZE rows at a time.
+// Returns the number of rows read; throws if DuckDB fails.
+async function readTile(tile: Tile, onBatch: (rows: OverturePoiRow[]) => Promise<void>): Promise<number> {
   // Count POIs in tile
-  let totalCount: number;
-  try {
-    const countResult = execSync(
-      `duckdb -json -c "
-        SELECT COUNT(*) as count
-        FROM '${tile.file}'
-        WHERE categories.primary IS NOT NULL
-      "`,
-      { env: execEnv }
-    ).toString();
-
-    totalCount = JSON.parse(countResult)[0].count;
-  } catch (error) {
-    console.error(`  Failed to count POIs:`, error);
-    return { imported: 0, errors: 0 };
-  }
-
+  const countResult = execSync(
+    `duckdb -json -c "
+      SELECT COUNT(*) as count
+      FROM '${tile.file}'
+      WHERE categories.primary IS NOT NULL
+    "`,
+    { env: execEnv }
+  ).toString();
+
+  const totalCount: number = JSON.parse(countResult)[0].count;
   if (totalCount === 0) {
     console.log(`  No POIs in this tile`);
-    return { imported: 0, errors: 0 };
+    return 0;
   }
 
-  console.log(`  POIs to import: ${formatNumber(totalCount)}`);
+  console.log(`  POIs to read: ${formatNumber(totalCount)}`);
 
   let offset = 0;
   const startTime = Date.now();
 
   while (offset < totalCount) {
-    let rows: POIRow[];
-
-    try {
-      const duckResult = execSync(
-        `duckdb -json -c "
-          LOAD spatial;
-          SELECT
-            id,
-            names.primary as name,
-            categories.primary as category,
-            categories.alternate[1] as subcategory,
-            ST_Y(geometry) as lat,
-            ST_X(geometry) as lng,
-            confidence,
-            sources[1].dataset as source
-          FROM '${tile.file}'
-          WHERE categories.primary IS NOT NULL
-          LIMIT ${QUERY_BATCH_SIZE}
-          OFFSET ${offset}
-        "`,
-        { maxBuffer: 1024 * 1024 * 200, env: execEnv }
-      ).toString();
-
-      rows = JSON.parse(duckResult);
-    } catch (error) {
-      console.error(`\n  Failed to fetch batch at offset ${offset}:`, error);
-      return { imported: totalImported, errors: totalErrors };
-    }
+    const duckResult = execSync(
+      `duckdb -json -c "
+        LOAD spatial;
+        SELECT
+          id,
+          names.primary as name,
+          categories.primary as category,
+          categories.alternate[1] as subcategory,
+          ST_Y(geometry) as lat,
+          ST_X(geometry) as lng,
+          confidence,
+          sources[1].dataset as source
+        FROM '${tile.file}'
+        WHERE categories.primary IS NOT NULL
+        LIMIT ${QUERY_BATCH_SIZE}
+        OFFSET ${offset}
+      "`,
+      { maxBuffer: 1024 * 1024 * 200, env: execEnv }
+    ).toString();
 
+    const rows: OverturePoiRow[] = JSON.parse(duckResult);
     if (rows.length === 0) break;
 
-    // Insert into database
-    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
-      const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
-
-      try {
-        await db
-          .insert(overturePois)
-          .values(
-            batch.map((r) => ({
-              id: r.id,
-              name: r.name,
-              category: r.category,
-              subcategory: r.subcategory,
-              lat: r.lat,
-              lng: r.lng,
-              confidence: r.confidence,
-              source: r.source,
-            }))
-          )
-          .onConflictDoNothing();
-
-        totalImported += batch.length;
-      } catch (error) {
-        totalErrors += batch.length;
-      }
-    }
-
+    await onBatch(rows);
     offset += rows.length;
 
     // Progress update
@@ -250,20 +238,57 @@ async function processTile(tile: Tile, db: ReturnType<typeof getDb>): Promise<{
 
   console.log(""); // New line after progress
 
+  return offset;
+}
+
+async function processTile(tile: Tile, db: ReturnType<typeof getDb>): Promise<{ imported: number; errors: number }> {
+  let totalImported = 0;
+  let totalErrors = 0;
+
+  try {
+    await readTile(tile, async (rows) => {
+      // Insert into database
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+
+        try {
+          await db.insert(overturePois).values(batch).onConflictDoNothing();
+          totalImported += batch.length;
+        } catch (error) {
+          totalErrors += batch.length;
+        }
+      }
+    });
+  } catch (error) {
+    console.error(`\n  Failed to read tile:`, error);
+  }
+
   return { imported: totalImported, errors: totalErrors };
 }
 
+// Diff the tile against overture_pois (update mode). Throws, leaving the
+// database unchanged, if the tile can't be read completely.
+async function updateTile(tile: Tile): Promise<ReleaseChanges> {
+  return applyReleaseTile(tile, (stage) =>
+    readTile(tile, (rows) =>
+      // Padded downloads overlap neighbouring tiles; stage only this tile's places
+      stage(rows.filter((r) => tileOwnsPoint(tile, r.lat, r.lng)))
+    )
+  );
+}
+
 async function main() {
   if (!process.env.DATABASE_URL) {
     console.error("DATABASE_URL environment variable is required");
     process.exit(1);
   }
 
-  const { bbox, cleanup: cleanupFlag } = parseArgs();
+  const { bbox, cleanup: cleanupFlag, update, release } = parseArgs();
 
-  console.log("Overture POI Setup (Tile-based)");
+  console.log(update ? "Overture POI Update (Tile-based)" : "Overture POI Setup (Tile-based)");
   console.log("================================");
   console.log(`Bounding box: ${bbox}`);
+  if (update) console.log(`Release: ${release}`);
   console.log("");
 
   // Handle --cleanup flag
@@ -281,6 +306,11 @@ async function main() {
     return;
   }
 
+  if (update && !release) {
+    console.error("Error: --update requires --release=<version>, e.g. --release=2025-01-22.0");
+    process.exit(1);
+  }
+
   // Check prerequisites
   try {
     execSync("which overturemaps", { stdio: "pipe", env: execEnv });
@@ -290,6 +320,16 @@ async function main() {
     process.exit(1);
   }
 
+  // The run records the release, so the download has to fetch exactly that one
+  if (release) {
+    const help = execSync("overturemaps download --help", { env: execEnv }).toString();
+    if (!help.includes("--release")) {
+      console.error("Error: this overturemaps CLI can't download a specific release (--release)");
+      console.error("Please upgrade it first: pipx upgrade overturemaps");
+      process.exit(1);
+    }
+  }
+
   try {
     execSync("duckdb --version", { stdio: "pipe", env: execEnv });
   } catch {
@@ -313,53 +353,103 @@ async function main() {
   }
 
   // Generate tiles
-  const tiles = generateTiles(bbox);
+  const tiles = generateTiles(bbox, release);
   console.log(`Split into ${tiles.length} tile(s)`);
   console.log("");
 
   const db = getDb();
+  const runId = update ? await startImportRun(release!, bbox) : null;
   let grandTotalImported = 0;
   let grandTotalErrors = 0;
+  const grandTotalChanges: ReleaseChanges = { added: 0, changed: 0, removed: 0, staleCells: 0 };
+  let failedTiles = 0;
   const overallStart = Date.now();
 
-  for (let i = 0; i < tiles.length; i++) {
-    const tile = tiles[i];
-    const tileBbox = `${tile.minLng},${tile.minLat},${tile.maxLng},${tile.maxLat}`;
-
-    console.log(`\nTile ${i + 1}/${tiles.length}: ${tileBbox}`);
-    console.log("-".repeat(50));
-
-    // Step 1: Download tile (skip if exists)
-    if (existsSync(tile.file)) {
-      const stats = statSync(tile.file);
-      console.log(`  Already downloaded: ${formatBytes(stats.size)}`);
-    } else {
-      console.log(`  Downloading...`);
-      try {
-        execSync(
-          `overturemaps download --bbox=${tileBbox} -f geoparquet --type=place -o ${tile.file}`,
-          { stdio: "inherit", env: execEnv }
-        );
+  // A run that stops on an unexpected error is recorded as failed, not left running
+  try {
+    for (let i = 0; i < tiles.length; i++) {
+      const tile = tiles[i];
+      const tileBbox = `${tile.minLng},${tile.minLat},${tile.maxLng},${tile.maxLat}`;
+      const downloadBbox = update
+        ? [
+            Math.max(tile.minLng - DOWNLOAD_PADDING, -180),
+            Math.max(tile.minLat - DOWNLOAD_PADDING, -90),
+            Math.min(tile.maxLng + DOWNLOAD_PADDING, 180),
+            Math.min(tile.maxLat + DOWNLOAD_PADDING, 90),
+          ].join(",")
+        : tileBbox;
+
+      console.log(`\nTile ${i + 1}/${tiles.length}: ${tileBbox}`);
+      console.log("-".repeat(50));
+
+      // Step 1: Download tile (skip if exists)
+      if (existsSync(tile.file)) {
+        const stats = statSync(tile.file);
+        console.log(`  Already downloaded: ${formatBytes(stats.size)}`);
+      } else {
+        console.log(`  Downloading...`);
+        try {
+          execSync(
+            `overturemaps download --bbox=${downloadBbox} -f geoparquet --type=place${release ? ` --release=${release}` : ""} -o ${tile.file}`,
+            { stdio: "inherit", env: execEnv }
+          );
+
+          if (!existsSync(tile.file)) {
+            console.log(`  Download failed - skipping tile`);
+            failedTiles++;
+            continue;
+          }
+
+          const stats = statSync(tile.file);
+          console.log(`  Downloaded: ${formatBytes(stats.size)}`);
+        } catch (error) {
+          console.error(`  Download failed:`, error);
+          failedTiles++;
+          continue;
+        }
+      }
 
-        if (!existsSync(tile.file)) {
-          console.log(`  Download failed - skipping tile`);
+      // Step 2: Process and import tile, or diff it against the database
+      let touched: number;
+      if (runId !== null) {
+        let changes: ReleaseChanges;
+        try {
+          changes = await updateTile(tile);
+        } catch (error) {
+          console.error(`\n  Update failed - tile left unchanged:`, error);
+          failedTiles++;
           continue;
         }
+        await recordImportChanges(runId, changes);
+        grandTotalChanges.added += changes.added;
+        grandTotalChanges.changed += changes.changed;
+        grandTotalChanges.removed += changes.removed;
+        grandTotalChanges.staleCells += changes.staleCells;
+        touched = changes.added + changes.changed + changes.removed;
+
+        console.log(
+          `  Tile complete: ${formatNumber(changes.added)} added, ${formatNumber(changes.changed)} changed, ${formatNumber(changes.removed)} removed | ${formatNumber(changes.staleCells)} heat cells marked stale`
+        );
+      } else {
+        const { imported, errors } = await processTile(tile, db);
+        grandTotalImported += imported;
+        grandTotalErrors += errors;
+        touched = imported;
 
-        const stats = statSync(tile.file);
-        console.log(`  Downloaded: ${formatBytes(stats.size)}`);
-      } catch (error) {
-        console.error(`  Download failed:`, error);
-        continue;
+        console.log(`  Tile complete: ${formatNumber(imported)} imported${errors > 0 ? `, ${errors} errors` : ""}`);
       }
-    }
-
-    // Step 2: Process and import tile
-    const { imported, errors } = await processTile(tile, db);
-    grandTotalImported += imported;
-    grandTotalErrors += errors;
 
-    console.log(`  Tile complete: ${formatNumber(imported)} imported${errors > 0 ? `, ${errors} errors` : ""}`);
+      // Step 3: Drop cached point scores that may be based on stale POI data
+      if (touched > 0) {
+        const invalidated = await invalidateScoreCache(tile);
+        console.log(`  Invalidated ${formatNumber(invalidated)} cached point scores`);
+      }
+    }
+  } catch (error) {
+    if (runId !== null) {
+      await finishImportRun(runId, error instanceof Error ? error.message : String(error));
+    }
+    throw error;
   }
 
   const totalTime = Math.round((Date.now() - overallStart) / 1000);
@@ -367,9 +457,23 @@ async function main() {
   console.log("");
   console.log("=".repeat(50));
   console.log("All tiles complete!");
-  console.log(`  Total imported: ${formatNumber(grandTotalImported)}`);
-  if (grandTotalErrors > 0) {
-    console.log(`  Total errors: ${formatNumber(grandTotalErrors)}`);
+  if (runId !== null) {
+    await finishImportRun(runId, failedTiles > 0 ? `${failedTiles} tile(s) failed` : undefined);
+    const scheduled = await scheduleStaleHeatmapJobs();
+
+    console.log(`  Import run: #${runId}`);
+    console.log(`  Added: ${formatNumber(grandTotalChanges.added)}`);
+    console.log(`  Changed: ${formatNumber(grandTotalChanges.changed)}`);
+    console.log(`  Removed: ${formatNumber(grandTotalChanges.removed)}`);
+    console.log(`  Stale heat cells: ${formatNumber(grandTotalChanges.staleCells)} (${scheduled} heatmap jobs scheduled)`);
+    if (failedTiles > 0) {
+      console.log(`  Failed tiles: ${failedTiles} (re-run to retry them)`);
+    }
+  } else {
+    console.log(`  Total imported: ${formatNumber(grandTotalImported)}`);
+    if (grandTotalErrors > 0) {
+      console.log(`  Total errors: ${formatNumber(grandTotalErrors)}`);
+    }
   }
   console.log(`  Total time: ${totalTime}s`);
   console.log("");
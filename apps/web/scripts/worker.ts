@@ -8,6 +8,7 @@
  *   DATABASE_URL - Required
  *   WORKER_POLL_INTERVAL - Interval between job checks in ms (default: 2000 = 2 sec)
  *   WORKER_CHUNK_SIZE - Cells to process per iteration (default: 500)
+ *   CITY_STATS_CHUNK_SIZE - City stats samples to score per iteration (default: 10)
  *   MAX_CONCURRENT_JOBS - Number of jobs to process in parallel (default: 4)
  */
 
@@ -25,6 +26,7 @@ import {
 } from "../lib/jobs/scheduler";
 import type { Job } from "../lib/db/schema";
 import { processHeatmapChunk } from "../lib/jobs/heatmap-processor";
+import { processCityStatsChunk } from "../lib/jobs/city-stats-processor";
 import { JOB_TYPES } from "../lib/jobs/types";
 
 const POLL_INTERVAL = parseInt(process.env.WORKER_POLL_INTERVAL || "2000", 10);
@@ -59,7 +61,7 @@ interface JobState {
 const jobStates = new Map<number, JobState>();
 
 async function processJob(job: Job): Promise<boolean> {
-  if (job.type !== JOB_TYPES.HEATMAP_COMPUTE) {
+  if (job.type !== JOB_TYPES.HEATMAP_COMPUTE && job.type !== JOB_TYPES.CITY_STATS) {
     return false;
   }
 
@@ -73,7 +75,11 @@ async function processJob(job: Job): Promise<boolean> {
     jobStates.set(job.id, state);
   }
 
-  const result = await processHeatmapChunk(job, CHUNK_SIZE);
+  const result =
+    job.type === JOB_TYPES.CITY_STATS
+      ? await processCityStatsChunk(job)
+      : await processHeatmapChunk(job, CHUNK_SIZE);
+  const unit = job.type === JOB_TYPES.CITY_STATS ? "samples" : "cells";
   state.totalProcessed += result.processed;
 
   const elapsed = Date.now() - state.startTime;
@@ -83,7 +89,7 @@ async function processJob(job: Job): Promise<boolean> {
 
   console.log(
     `[${ts()}] Job #${job.id} ${progressBar(result.progress)} ${result.progress}% ` +
-      `| ${state.totalProcessed}/${job.totalItems} cells | ${rate.toFixed(1)}/s | ETA: ${formatDuration(eta)}` +
+      `| ${state.totalProcessed}/${job.totalItems} ${unit} | ${rate.toFixed(1)}/s | ETA: ${formatDuration(eta)}` +
       (result.errors > 0 ? ` | ${result.errors} errors` : "")
   );
 